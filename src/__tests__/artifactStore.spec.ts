@@ -0,0 +1,155 @@
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client
+} from "@aws-sdk/client-s3";
+import { mkdtempSync, readdirSync, rmSync, utimesSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ArtifactStore, createFileSystemArtifactStore, createS3ArtifactStore } from "../artifactStore";
+import { NarrativeDocument } from "../narrative";
+
+const htmlDoc: NarrativeDocument = { contentType: "text/html", extension: "html", body: "<html>Test</html>" };
+const pdfDoc: NarrativeDocument = {
+  contentType: "application/pdf",
+  extension: "pdf",
+  body: Buffer.from("%PDF-1.4"),
+  disposition: "attachment",
+};
+
+describe("createFileSystemArtifactStore", () => {
+  let dir: string;
+  let store: ArtifactStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "narrative-artifacts-test-"));
+    store = createFileSystemArtifactStore(join(dir, "artifacts"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("stores and returns text and binary documents", async () => {
+    await store.put("job-1", htmlDoc);
+    await store.put("job-2", pdfDoc);
+
+    await expect(store.get("job-1")).resolves.toEqual(htmlDoc);
+    await expect(store.get("job-2")).resolves.toEqual(pdfDoc);
+  });
+
+  it("returns undefined for an unknown id", async () => {
+    await expect(store.get("missing")).resolves.toBeUndefined();
+  });
+
+  it("removes the documents that are older than the TTL", async () => {
+    await store.put("job-1", htmlDoc);
+    await store.put("job-2", pdfDoc);
+    // Left behind by a previous run
+    const old = new Date(Date.now() - 120000);
+    utimesSync(join(dir, "artifacts", "job-1.body"), old, old);
+    utimesSync(join(dir, "artifacts", "job-1.json"), old, old);
+
+    await store.prune(60);
+
+    await expect(store.get("job-1")).resolves.toBeUndefined();
+    await expect(store.get("job-2")).resolves.toEqual(pdfDoc);
+    expect(readdirSync(join(dir, "artifacts")).sort()).toEqual(["job-2.body", "job-2.json"]);
+  });
+
+  it("does nothing when pruning before anything was stored", async () => {
+    await expect(store.prune(60)).resolves.toBeUndefined();
+  });
+
+  it("does not allow the id to escape the directory", async () => {
+    await store.put("../job-1", htmlDoc);
+
+    expect(readdirSync(dir)).toEqual(["artifacts"]);
+    await expect(store.get("../job-1")).resolves.toEqual(htmlDoc);
+  });
+});
+
+describe("createS3ArtifactStore", () => {
+  const send = jest.fn();
+  const store = createS3ArtifactStore({ send } as unknown as S3Client, "test-bucket", "narrative-jobs/");
+
+  beforeEach(() => {
+    send.mockReset();
+  });
+
+  it("stores the document with its content type and disposition", async () => {
+    await store.put("job-1", pdfDoc);
+
+    const command = send.mock.calls[0][0];
+    expect(command).toBeInstanceOf(PutObjectCommand);
+    expect(command.input).toEqual({
+      Bucket: "test-bucket",
+      Key: "narrative-jobs/job-1",
+      Body: pdfDoc.body,
+      ContentType: "application/pdf",
+      ContentDisposition: "attachment",
+      Metadata: { extension: "pdf", "is-text": "false" },
+    });
+  });
+
+  it("returns text and binary documents", async () => {
+    const object = (body: string, isText: boolean, extension: string, contentType: string) => ({
+      Body: { transformToByteArray: async () => new Uint8Array(Buffer.from(body)) },
+      ContentType: contentType,
+      Metadata: { extension, "is-text": String(isText) },
+    });
+    send.mockResolvedValueOnce(object("<html>Test</html>", true, "html", "text/html"));
+    send.mockResolvedValueOnce({ ...object("%PDF-1.4", false, "pdf", "application/pdf"), ContentDisposition: "attachment" });
+
+    await expect(store.get("job-1")).resolves.toEqual(htmlDoc);
+    await expect(store.get("job-2")).resolves.toEqual(pdfDoc);
+    expect(send.mock.calls[0][0]).toBeInstanceOf(GetObjectCommand);
+    expect(send.mock.calls[0][0].input).toEqual({ Bucket: "test-bucket", Key: "narrative-jobs/job-1" });
+  });
+
+  it("returns undefined for an unknown id", async () => {
+    send.mockRejectedValueOnce(new NoSuchKey({ message: "The specified key does not exist.", $metadata: {} }));
+
+    await expect(store.get("missing")).resolves.toBeUndefined();
+  });
+
+  it("throws any other S3 error", async () => {
+    send.mockRejectedValueOnce(new Error("Access Denied"));
+
+    await expect(store.get("job-1")).rejects.toThrow("Access Denied");
+  });
+
+  it("does not allow the id to escape the prefix", async () => {
+    await store.put("../job-1", htmlDoc);
+
+    expect(send.mock.calls[0][0].input.Key).toBe("narrative-jobs/___job-1");
+  });
+
+  it("removes the documents that are older than the TTL from every page", async () => {
+    const old = new Date(Date.now() - 120000);
+    send.mockResolvedValueOnce({
+      Contents: [{ Key: "narrative-jobs/job-1", LastModified: old }, { Key: "narrative-jobs/job-2", LastModified: new Date() }],
+      NextContinuationToken: "page-2",
+    });
+    send.mockResolvedValueOnce({});
+    send.mockResolvedValueOnce({ Contents: [{ Key: "narrative-jobs/job-3", LastModified: new Date() }] });
+
+    await store.prune(60);
+
+    const commands = send.mock.calls.map(([command]) => command);
+    expect(commands.map((command) => command.constructor)).toEqual([
+      ListObjectsV2Command,
+      DeleteObjectsCommand,
+      ListObjectsV2Command,
+    ]);
+    expect(commands[0].input).toEqual({ Bucket: "test-bucket", Prefix: "narrative-jobs/", ContinuationToken: undefined });
+    expect(commands[1].input).toEqual({
+      Bucket: "test-bucket",
+      Delete: { Objects: [{ Key: "narrative-jobs/job-1" }], Quiet: true },
+    });
+    expect(commands[2].input.ContinuationToken).toBe("page-2");
+  });
+});
@@ -0,0 +1,209 @@
+import { EventEmitter } from "events";
+import { Browser, Page } from "puppeteer";
+import { BrowserPoolOptions, createBrowserPool } from "../browserPool";
+
+// A minimal stand in for a Puppeteer browser that can "crash" by emitting `disconnected`
+const fakeBrowser = () => {
+  const browser = new EventEmitter() as EventEmitter & {
+    newPage: jest.Mock,
+    close: jest.Mock,
+    version: jest.Mock,
+    pages: Page[],
+  };
+  browser.pages = [];
+  browser.version = jest.fn().mockResolvedValue("HeadlessChrome/140.0.0.0");
+  browser.newPage = jest.fn().mockImplementation(async () => {
+    const page = { close: jest.fn().mockResolvedValue(undefined) } as unknown as Page;
+    browser.pages.push(page);
+    return page;
+  });
+  browser.close = jest.fn().mockImplementation(async () => {
+    browser.emit("disconnected");
+  });
+  return browser;
+};
+
+// Lets a test decide when a render finishes
+const deferred = () => {
+  let resolve: (value: string) => void;
+  const promise = new Promise<string>((res) => { resolve = res; });
+  return { promise, resolve };
+};
+
+describe("createBrowserPool", () => {
+  const options: BrowserPoolOptions = { size: 1, maxConcurrentPages: 2, maxRendersPerBrowser: 3 };
+  let browsers: ReturnType<typeof fakeBrowser>[];
+  let launch: jest.Mock;
+
+  beforeEach(() => {
+    browsers = [];
+    launch = jest.fn().mockImplementation(async () => {
+      const browser = fakeBrowser();
+      browsers.push(browser);
+      return browser as unknown as Browser;
+    });
+  });
+
+  it("launches browsers on demand and reuses pages", async () => {
+    const pool = createBrowserPool(options, launch);
+    expect(launch).not.toHaveBeenCalled();
+
+    const pages: Page[] = [];
+    await pool.withPage(async (page) => { pages.push(page); });
+    await pool.withPage(async (page) => { pages.push(page); });
+
+    expect(launch).toHaveBeenCalledTimes(1);
+    expect(browsers[0].newPage).toHaveBeenCalledTimes(1);
+    expect(pages[0]).toBe(pages[1]);
+    expect(pool.stats()).toEqual({
+      browsers: 1,
+      activePages: 0,
+      idlePages: 1,
+      queued: 0,
+      renders: 2,
+      launches: 1,
+      restarts: 0,
+      crashes: 0,
+    });
+  });
+
+  it("returns the result of the render", async () => {
+    const pool = createBrowserPool(options, launch);
+
+    await expect(pool.withPage(async () => "done")).resolves.toBe("done");
+  });
+
+  it("launches the browsers ahead of time when warmed", async () => {
+    const pool = createBrowserPool({ ...options, size: 2 }, launch);
+    await pool.warm();
+
+    expect(launch).toHaveBeenCalledTimes(2);
+    expect(pool.stats()).toEqual(expect.objectContaining({ browsers: 2, idlePages: 2 }));
+  });
+
+  it("pings the running browsers (launching one if needed)", async () => {
+    const pool = createBrowserPool(options, launch);
+
+    await pool.ping();
+    expect(launch).toHaveBeenCalledTimes(1);
+    expect(browsers[0].version).toHaveBeenCalled();
+    expect(browsers[0].newPage).not.toHaveBeenCalled();
+
+    await pool.ping();
+    expect(launch).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails the ping when the browser cannot be launched", async () => {
+    launch.mockRejectedValueOnce(new Error("Launch failed"));
+    const pool = createBrowserPool(options, launch);
+
+    await expect(pool.ping()).rejects.toThrow("Launch failed");
+    await expect(pool.ping()).resolves.toBeUndefined();
+  });
+
+  it("limits the number of concurrent pages", async () => {
+    const pool = createBrowserPool(options, launch);
+    const renders = [deferred(), deferred(), deferred()];
+    const results = renders.map((render) => pool.withPage(() => render.promise));
+
+    // Let the first two renders start
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(pool.stats()).toEqual(expect.objectContaining({ activePages: 2, queued: 1 }));
+
+    renders[0].resolve("first");
+    await results[0];
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(pool.stats()).toEqual(expect.objectContaining({ activePages: 2, queued: 0 }));
+
+    renders[1].resolve("second");
+    renders[2].resolve("third");
+    await expect(Promise.all(results)).resolves.toEqual(["first", "second", "third"]);
+    expect(pool.stats().activePages).toBe(0);
+  });
+
+  it("closes the page instead of reusing it when the render fails", async () => {
+    const pool = createBrowserPool(options, launch);
+
+    await expect(pool.withPage(async () => { throw new Error("Render failed"); })).rejects.toThrow("Render failed");
+
+    expect(browsers[0].pages[0].close).toHaveBeenCalled();
+    expect(pool.stats().idlePages).toBe(0);
+  });
+
+  it("restarts a browser after the maximum number of renders", async () => {
+    const pool = createBrowserPool(options, launch);
+    for (let i = 0; i < 4; i++) {
+      await pool.withPage(async () => undefined);
+    }
+
+    expect(launch).toHaveBeenCalledTimes(2);
+    expect(browsers[0].close).toHaveBeenCalled();
+    expect(browsers[1].close).not.toHaveBeenCalled();
+    expect(pool.stats()).toEqual(expect.objectContaining({ browsers: 1, restarts: 1, crashes: 0 }));
+  });
+
+  it("waits for active pages before closing a browser that is being restarted", async () => {
+    const pool = createBrowserPool({ ...options, maxRendersPerBrowser: 1 }, launch);
+    const slow = deferred();
+    const slowRender = pool.withPage(() => slow.promise);
+    await pool.withPage(async () => undefined);
+
+    expect(browsers[0].close).not.toHaveBeenCalled();
+    slow.resolve("done");
+    await slowRender;
+    expect(browsers[0].close).toHaveBeenCalled();
+  });
+
+  it("replaces a browser that crashed", async () => {
+    const pool = createBrowserPool(options, launch);
+    await pool.withPage(async () => undefined);
+    browsers[0].emit("disconnected");
+
+    expect(pool.stats()).toEqual(expect.objectContaining({ browsers: 0, crashes: 1 }));
+    await pool.withPage(async () => undefined);
+    expect(launch).toHaveBeenCalledTimes(2);
+  });
+
+  it("replaces a browser that failed to launch", async () => {
+    launch.mockRejectedValueOnce(new Error("Launch failed"));
+    const pool = createBrowserPool(options, launch);
+
+    await expect(pool.withPage(async () => undefined)).rejects.toThrow("Launch failed");
+    await expect(pool.withPage(async () => "done")).resolves.toBe("done");
+    expect(pool.stats()).toEqual(expect.objectContaining({ launches: 2, crashes: 1, renders: 1 }));
+  });
+
+  it("waits for active renders and closes the browsers on shutdown", async () => {
+    const pool = createBrowserPool({ ...options, maxConcurrentPages: 1 }, launch);
+    const render = deferred();
+    const active = pool.withPage(() => render.promise);
+    const queued = pool.withPage(async () => "queued");
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const shutdown = pool.shutdown();
+    await expect(queued).rejects.toThrow("The browser pool is shutting down");
+    await expect(pool.withPage(async () => undefined)).rejects.toThrow("The browser pool is shutting down");
+    expect(browsers[0].close).not.toHaveBeenCalled();
+
+    render.resolve("done");
+    await expect(active).resolves.toBe("done");
+    await shutdown;
+    expect(browsers[0].close).toHaveBeenCalled();
+    expect(pool.stats()).toEqual(expect.objectContaining({ browsers: 0, crashes: 0 }));
+  });
+
+  it("closes the browsers once the shutdown timeout passes", async () => {
+    const pool = createBrowserPool(options, launch);
+    const render = deferred();
+    const active = pool.withPage(() => render.promise);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    await pool.shutdown(10);
+    expect(browsers[0].close).toHaveBeenCalled();
+    expect(pool.stats().browsers).toBe(0);
+
+    render.resolve("too late");
+    await active;
+    expect(browsers[0].pages[0].close).toHaveBeenCalled();
+  });
+});
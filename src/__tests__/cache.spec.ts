@@ -0,0 +1,299 @@
+import { mkdirSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Logger } from "pino";
+import {
+  createFileSystemCache,
+  createMemoryCache,
+  createNarrativeCache,
+  invalidateNarrativeCache,
+  NarrativeCache,
+  narrativeCacheKey,
+  renderWithCache
+} from "../cache";
+import { NarrativeDocument } from "../narrative";
+import { OptionsInterface } from "../options";
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const options: OptionsInterface = {
+  version: null,
+  display: {
+    includeCoverPage: true,
+    includeSectionHeadings: true,
+    includeQuestionText: true,
+    includeUnansweredQuestions: true,
+    includeResearchOutputs: true,
+    includeRelatedWorks: true,
+  },
+  margin: { marginTop: 76, marginRight: 96, marginBottom: 76, marginLeft: 96 },
+  font: { fontFamily: "Tinos, serif", fontSize: "15px", lineHeight: 120 },
+};
+
+const htmlDoc: NarrativeDocument = { contentType: "text/html", extension: "html", body: "<html>Test</html>" };
+const pdfDoc: NarrativeDocument = {
+  contentType: "application/pdf",
+  extension: "pdf",
+  body: Buffer.from("PDF content"),
+  disposition: 'inline; filename="Test.pdf"',
+};
+
+const keyA = narrativeCacheKey("dmp-a", "2024-01-01T00:00:00Z", "text/html", options);
+const keyB = narrativeCacheKey("dmp-b", "2024-01-01T00:00:00Z", "application/pdf", options);
+
+describe("narrativeCacheKey", () => {
+  it("changes when any part of the key changes", () => {
+    const key = narrativeCacheKey("dmp-a", "2024-01-01T00:00:00Z", "text/html", options);
+
+    expect(key).toEqual(keyA);
+    expect(narrativeCacheKey("dmp-c", "2024-01-01T00:00:00Z", "text/html", options).hash).not.toBe(key.hash);
+    expect(narrativeCacheKey("dmp-a", "2024-01-02T00:00:00Z", "text/html", options).hash).not.toBe(key.hash);
+    expect(narrativeCacheKey("dmp-a", "2024-01-01T00:00:00Z", "text/csv", options).hash).not.toBe(key.hash);
+    expect(narrativeCacheKey("dmp-a", "2024-01-01T00:00:00Z", "text/html", {
+      ...options,
+      display: { ...options.display, includeCoverPage: false },
+    }).hash).not.toBe(key.hash);
+    expect(narrativeCacheKey("dmp-a", "2024-01-01T00:00:00Z", "text/html", options, "contributors").hash)
+      .not.toBe(key.hash);
+  });
+});
+
+describe("createMemoryCache", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("returns the cached narratives", async () => {
+    const cache = createMemoryCache({ maxBytes: 1024, ttlSeconds: 60 });
+    await cache.set(keyA, htmlDoc);
+    await cache.set(keyB, pdfDoc);
+
+    expect(await cache.get(keyA)).toEqual(htmlDoc);
+    expect(await cache.get(keyB)).toEqual(pdfDoc);
+    expect(await cache.get(narrativeCacheKey("dmp-c", "", "text/html", options))).toBeUndefined();
+  });
+
+  it("expires narratives after the TTL", async () => {
+    jest.useFakeTimers();
+    const cache = createMemoryCache({ maxBytes: 1024, ttlSeconds: 60 });
+    await cache.set(keyA, htmlDoc);
+
+    jest.advanceTimersByTime(59000);
+    expect(await cache.get(keyA)).toEqual(htmlDoc);
+    jest.advanceTimersByTime(1000);
+    expect(await cache.get(keyA)).toBeUndefined();
+  });
+
+  it("evicts the least recently used narratives when the size limit is exceeded", async () => {
+    // Room for 2 of the 11 byte documents
+    const cache = createMemoryCache({ maxBytes: 25, ttlSeconds: 60 });
+    const keyC = narrativeCacheKey("dmp-c", "2024-01-01T00:00:00Z", "application/pdf", options);
+    await cache.set(keyA, { ...pdfDoc });
+    await cache.set(keyB, { ...pdfDoc });
+    // Reading A makes B the least recently used
+    await cache.get(keyA);
+    await cache.set(keyC, { ...pdfDoc });
+
+    expect(await cache.get(keyA)).toBeDefined();
+    expect(await cache.get(keyB)).toBeUndefined();
+    expect(await cache.get(keyC)).toBeDefined();
+  });
+
+  it("does not cache narratives that are larger than the size limit", async () => {
+    const cache = createMemoryCache({ maxBytes: 5, ttlSeconds: 60 });
+    await cache.set(keyB, pdfDoc);
+
+    expect(await cache.get(keyB)).toBeUndefined();
+  });
+
+  it("invalidates every narrative for a DMP", async () => {
+    const cache = createMemoryCache({ maxBytes: 1024, ttlSeconds: 60 });
+    const keyA2 = narrativeCacheKey("dmp-a", "2024-01-01T00:00:00Z", "application/pdf", options);
+    await cache.set(keyA, htmlDoc);
+    await cache.set(keyA2, pdfDoc);
+    await cache.set(keyB, pdfDoc);
+    await cache.invalidate("dmp-a");
+
+    expect(await cache.get(keyA)).toBeUndefined();
+    expect(await cache.get(keyA2)).toBeUndefined();
+    expect(await cache.get(keyB)).toEqual(pdfDoc);
+  });
+});
+
+describe("createFileSystemCache", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "narrative-cache-test-"));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("returns the cached narratives", async () => {
+    const cache = createFileSystemCache(dir, { maxBytes: 1024, ttlSeconds: 60 });
+    await cache.set(keyA, htmlDoc);
+    await cache.set(keyB, pdfDoc);
+
+    expect(await cache.get(keyA)).toEqual(htmlDoc);
+    expect(await cache.get(keyB)).toEqual(pdfDoc);
+    expect(await cache.get(narrativeCacheKey("dmp-c", "", "text/html", options))).toBeUndefined();
+  });
+
+  it("expires narratives after the TTL", async () => {
+    const cache = createFileSystemCache(dir, { maxBytes: 1024, ttlSeconds: 60 });
+    await cache.set(keyA, htmlDoc);
+
+    jest.useFakeTimers({ now: Date.now() + 60000, doNotFake: ["setImmediate", "nextTick"] });
+    expect(await cache.get(keyA)).toBeUndefined();
+    // The expired files are removed
+    expect(readdirSync(join(dir, readdirSync(dir)[0]))).toEqual([]);
+  });
+
+  it("evicts the oldest narratives when the size limit is exceeded", async () => {
+    const cache = createFileSystemCache(dir, { maxBytes: 25, ttlSeconds: 60 });
+    const keyC = narrativeCacheKey("dmp-c", "2024-01-01T00:00:00Z", "application/pdf", options);
+    await cache.set(keyA, { ...pdfDoc });
+    // Make sure the files have different modified times
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await cache.set(keyB, { ...pdfDoc });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await cache.set(keyC, { ...pdfDoc });
+
+    expect(await cache.get(keyA)).toBeUndefined();
+    expect(await cache.get(keyB)).toBeDefined();
+    expect(await cache.get(keyC)).toBeDefined();
+  });
+
+  it("counts the narratives left in the directory by a previous instance", async () => {
+    const keyC = narrativeCacheKey("dmp-c", "2024-01-01T00:00:00Z", "application/pdf", options);
+    await createFileSystemCache(dir, { maxBytes: 25, ttlSeconds: 60 }).set(keyA, { ...pdfDoc });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const cache = createFileSystemCache(dir, { maxBytes: 25, ttlSeconds: 60 });
+    await cache.set(keyB, { ...pdfDoc });
+    await cache.set(keyC, { ...pdfDoc });
+
+    expect(await cache.get(keyA)).toBeUndefined();
+    expect(await cache.get(keyB)).toBeDefined();
+    expect(await cache.get(keyC)).toBeDefined();
+  });
+
+  it("only reads the directory when the first narrative is added", async () => {
+    const cache = createFileSystemCache(dir, { maxBytes: 1024, ttlSeconds: 60 });
+    await cache.set(keyA, htmlDoc);
+    // Anything added to the directory after that is not counted towards the limit
+    mkdirSync(join(dir, "other"));
+    writeFileSync(join(dir, "other", "stray.body"), Buffer.alloc(1000));
+    await cache.set(keyB, pdfDoc);
+
+    expect(await cache.get(keyA)).toEqual(htmlDoc);
+    expect(await cache.get(keyB)).toEqual(pdfDoc);
+  });
+
+  it("keeps the size of a DMP's narratives out of the limit once they are invalidated", async () => {
+    const cache = createFileSystemCache(dir, { maxBytes: 25, ttlSeconds: 60 });
+    const keyC = narrativeCacheKey("dmp-c", "2024-01-01T00:00:00Z", "application/pdf", options);
+    await cache.set(keyA, { ...pdfDoc });
+    await cache.set(keyB, { ...pdfDoc });
+    await cache.invalidate("dmp-b");
+    await cache.set(keyC, { ...pdfDoc });
+
+    expect(await cache.get(keyA)).toBeDefined();
+    expect(await cache.get(keyC)).toBeDefined();
+  });
+
+  it("invalidates every narrative for a DMP", async () => {
+    const cache = createFileSystemCache(dir, { maxBytes: 1024, ttlSeconds: 60 });
+    await cache.set(keyA, htmlDoc);
+    await cache.set(keyB, pdfDoc);
+    await cache.invalidate("dmp-a");
+
+    expect(await cache.get(keyA)).toBeUndefined();
+    expect(await cache.get(keyB)).toEqual(pdfDoc);
+  });
+});
+
+describe("createNarrativeCache", () => {
+  afterEach(() => {
+    delete process.env.NARRATIVE_CACHE;
+  });
+
+  it("returns an in-memory cache by default", () => {
+    expect(createNarrativeCache()).not.toBeNull();
+  });
+
+  it("returns null when caching is disabled", () => {
+    process.env.NARRATIVE_CACHE = "none";
+    expect(createNarrativeCache()).toBeNull();
+  });
+});
+
+describe("renderWithCache", () => {
+  let cache: NarrativeCache;
+  let render: jest.Mock;
+
+  beforeEach(() => {
+    cache = createMemoryCache({ maxBytes: 1024, ttlSeconds: 60 });
+    render = jest.fn().mockResolvedValue(htmlDoc);
+  });
+
+  it("renders and caches the narrative on a miss", async () => {
+    expect(await renderWithCache(mockLogger, cache, keyA, render)).toEqual(htmlDoc);
+    expect(render).toHaveBeenCalledTimes(1);
+    expect(await cache.get(keyA)).toEqual(htmlDoc);
+    expect(mockLogger.debug).toHaveBeenCalledWith(expect.anything(), "Narrative cache miss");
+  });
+
+  it("returns the cached narrative on a hit", async () => {
+    await cache.set(keyA, htmlDoc);
+
+    expect(await renderWithCache(mockLogger, cache, keyA, render)).toEqual(htmlDoc);
+    expect(render).not.toHaveBeenCalled();
+    expect(mockLogger.debug).toHaveBeenCalledWith(expect.anything(), "Narrative cache hit");
+  });
+
+  it("renders the narrative when caching is disabled", async () => {
+    expect(await renderWithCache(mockLogger, null, keyA, render)).toEqual(htmlDoc);
+    expect(render).toHaveBeenCalledTimes(1);
+  });
+
+  it("renders the narrative when the cache fails", async () => {
+    const brokenCache: NarrativeCache = {
+      get: jest.fn().mockRejectedValue(new Error("Read failed")),
+      set: jest.fn().mockRejectedValue(new Error("Write failed")),
+      invalidate: jest.fn(),
+    };
+
+    expect(await renderWithCache(mockLogger, brokenCache, keyA, render)).toEqual(htmlDoc);
+    expect(mockLogger.warn).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("invalidateNarrativeCache", () => {
+  it("removes the cached narratives for the DMP", async () => {
+    const cache = createMemoryCache({ maxBytes: 1024, ttlSeconds: 60 });
+    await cache.set(keyA, htmlDoc);
+    await invalidateNarrativeCache(mockLogger, cache, "dmp-a");
+
+    expect(await cache.get(keyA)).toBeUndefined();
+  });
+
+  it("logs problems instead of throwing", async () => {
+    const brokenCache: NarrativeCache = {
+      get: jest.fn(),
+      set: jest.fn(),
+      invalidate: jest.fn().mockRejectedValue(new Error("Delete failed")),
+    };
+
+    await expect(invalidateNarrativeCache(mockLogger, brokenCache, "dmp-a")).resolves.toBeUndefined();
+    expect(mockLogger.warn).toHaveBeenCalled();
+  });
+});
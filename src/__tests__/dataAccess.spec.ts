@@ -1,6 +1,5 @@
 import {
   getSSMParameter,
-  queryTable,
   getDMPs,
   createDMP,
   updateDMP,
@@ -10,25 +9,36 @@ import {
 } from "@dmptool/utils";
 import { Logger } from "pino";
 import {
+  closeDataSource,
+  createDataSource,
+  dataSourceReadinessChecks,
   handleMissingMaDMP,
-  hasPermissionToDownloadNarrative,
   loadMaDMPFromDynamo,
+  loadMaDMPVersionsFromDynamo,
   loadPlan,
-  loadPlansForUser,
+  loadPlanAccess,
+  loadRenderJob,
+  loadShareLink,
   PlanInterface,
-  UserPlanInterface,
+  revokeShareLink,
+  saveRegeneratedMaDMP,
+  saveRenderJob,
+  saveShareLink,
 } from "../dataAccess";
 import { JWTAccessToken } from "../helper";
+import { RenderJob } from "../jobs";
+import { ShareLink, ShareLinkCreator } from "../shareLinks";
 import { DMPToolDMPType } from "@dmptool/types";
+import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
 
 // Mock all imported functions from @dmptool/utils
 jest.mock("@dmptool/utils", () => ({
   getSSMParameter: jest.fn(),
-  queryTable: jest.fn(),
   getDMPs: jest.fn(),
   createDMP: jest.fn(),
   updateDMP: jest.fn(),
   planToDMPCommonStandard: jest.fn(),
+  convertMySQLDateTimeToRFC3339: jest.fn((date) => date),
   EnvironmentEnum: {
     DEV: "dev",
     STAGE: "stage",
@@ -37,6 +47,31 @@ jest.mock("@dmptool/utils", () => ({
   DMP_LATEST_VERSION: "latest"
 }));
 
+// The queries are run on the shared RDS pool
+const mockRDSQuery = jest.fn();
+const mockRDSPoolEnd = jest.fn();
+jest.mock("../rdsPool", () => ({
+  createRDSPool: jest.fn(() => ({
+    query: (...args: unknown[]) => mockRDSQuery(...args),
+    stats: jest.fn(),
+    end: () => mockRDSPoolEnd(),
+  })),
+}));
+
+// The DynamoDB client is only used directly for the regeneration lock and the share links
+const mockSend = jest.fn();
+jest.mock("@aws-sdk/client-dynamodb", () => {
+  class ConditionalCheckFailedException extends Error {}
+  return {
+    ConditionalCheckFailedException,
+    DynamoDBClient: jest.fn(() => ({ send: mockSend })),
+    PutItemCommand: jest.fn((input) => ({ command: "PutItem", input })),
+    DeleteItemCommand: jest.fn((input) => ({ command: "DeleteItem", input })),
+    GetItemCommand: jest.fn((input) => ({ command: "GetItem", input })),
+    UpdateItemCommand: jest.fn((input) => ({ command: "UpdateItem", input })),
+  };
+});
+
 describe("dataAccess", () => {
   let mockLogger: Logger;
   const originalEnv = process.env;
@@ -45,6 +80,7 @@ describe("dataAccess", () => {
     jest.clearAllMocks();
 
     process.env.ENV = 'tst';
+    process.env.DYNAMODB_LOCK_TABLE_NAME = "lock-table";
 
     mockLogger = {
       fatal: jest.fn(),
@@ -56,131 +92,10 @@ describe("dataAccess", () => {
     } as undefined as Logger;
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     process.env = originalEnv;
-  });
-
-  describe("hasPermissionToDownloadNarrative", () => {
-    const mockDMP: DMPToolDMPType = {
-      dmp: {
-        dmp_id: { identifier: "dmp123" },
-        privacy: "private",
-        contact: {
-          affiliation: [{
-            affiliation_id: { identifier: "aff123" }
-          }]
-        },
-        contributor: [
-          {
-            affiliation: [{
-              affiliation_id: { identifier: "aff456" }
-            }]
-          }
-        ]
-      }
-    };
-
-    const mockUserDMPs: UserPlanInterface[] = [
-      {id: 1, dmpId: "dmp123", accessLevel: "read"}
-    ];
-
-    it("should return true for SUPERADMIN role", () => {
-      const token: JWTAccessToken = {
-        role: "SUPERADMIN",
-        email: "admin@example.com",
-        affiliationId: "aff789"
-      } as undefined as JWTAccessToken;
-
-      const result = hasPermissionToDownloadNarrative(mockDMP, mockUserDMPs, token);
-      expect(result).toBe(true);
-    });
-
-    it("should return true for public DMPs", () => {
-      const publicDMP = {
-        ...mockDMP,
-        dmp: {...mockDMP.dmp, privacy: "public"}
-      };
-      const token: JWTAccessToken = {
-        role: "RESEARCHER",
-        email: "user@example.com",
-        affiliationId: "aff999"
-      } as undefined as JWTAccessToken;
-
-      const result = hasPermissionToDownloadNarrative(publicDMP, [], token);
-      expect(result).toBe(true);
-    });
-
-    it("should return true for ADMIN with matching affiliation", () => {
-      const token: JWTAccessToken = {
-        role: "ADMIN",
-        email: "admin@example.com",
-        affiliationId: "aff123"
-      } as undefined as JWTAccessToken;
-
-      const result = hasPermissionToDownloadNarrative(mockDMP, [], token);
-      expect(result).toBe(true);
-    });
-
-    it("should return true for ADMIN with matching contributor affiliation", () => {
-      const token: JWTAccessToken = {
-        role: "ADMIN",
-        email: "admin@example.com",
-        affiliationId: "aff456"
-      } as undefined as JWTAccessToken;
-
-      const result = hasPermissionToDownloadNarrative(mockDMP, [], token);
-      expect(result).toBe(true);
-    });
-
-    it("should return true for user with matching DMP in userDMPs", () => {
-      const token: JWTAccessToken = {
-        role: "RESEARCHER",
-        email: "user@example.com",
-        affiliationId: "aff999"
-      } as undefined as JWTAccessToken
-
-      const result = hasPermissionToDownloadNarrative(mockDMP, mockUserDMPs, token);
-      expect(result).toBe(true);
-    });
-
-    it("should return false for user without permissions", () => {
-      const token: JWTAccessToken = {
-        role: "RESEARCHER",
-        email: "user@example.com",
-        affiliationId: "aff999"
-      } as undefined as JWTAccessToken
-
-      const result = hasPermissionToDownloadNarrative(mockDMP, [], token);
-      expect(result).toBe(false);
-    });
-
-    it("should return false for undefined token on private DMP", () => {
-      const result = hasPermissionToDownloadNarrative(mockDMP, mockUserDMPs, undefined);
-      expect(result).toBe(false);
-    });
-
-    it("should handle DMP without contributors", () => {
-      const dmpWithoutContributors: DMPToolDMPType = {
-        dmp: {
-          dmp_id: { identifier: "dmp123" },
-          privacy: "private",
-          contact: {
-            affiliation: [{
-              affiliation_id: { identifier: "aff123" }
-            }]
-          }
-        }
-      };
-
-      const token: JWTAccessToken = {
-        role: "ADMIN",
-        email: "admin@example.com",
-        affiliationId: "aff123"
-      } as undefined as JWTAccessToken;
-
-      const result = hasPermissionToDownloadNarrative(dmpWithoutContributors, [], token);
-      expect(result).toBe(true);
-    });
+    // Start each test with an empty SSM cache and RDS pool
+    await closeDataSource();
   });
 
   describe("loadPlan", () => {
@@ -205,7 +120,7 @@ describe("dataAccess", () => {
         .mockResolvedValueOnce("rdsUser")
         .mockResolvedValueOnce("rdsPassword");
 
-      (queryTable as jest.Mock).mockResolvedValue({
+      mockRDSQuery.mockResolvedValue({
         results: [mockPlan],
         fields: []
       });
@@ -214,7 +129,7 @@ describe("dataAccess", () => {
 
       expect(result).toEqual(mockPlan);
       expect(getSSMParameter).toHaveBeenCalledTimes(2);
-      expect(queryTable).toHaveBeenCalledWith(
+      expect(mockRDSQuery).toHaveBeenCalledWith(
         expect.objectContaining({
           host: "localhost",
           port: 3306,
@@ -230,7 +145,7 @@ describe("dataAccess", () => {
         .mockResolvedValueOnce("rdsUser")
         .mockResolvedValueOnce("rdsPassword");
 
-      (queryTable as jest.Mock).mockResolvedValue({
+      mockRDSQuery.mockResolvedValue({
         results: [],
         fields: []
       });
@@ -240,12 +155,12 @@ describe("dataAccess", () => {
       expect(result).toBeUndefined();
     });
 
-    it("should return undefined when queryTable returns non-array results", async () => {
+    it("should return undefined when the query returns non-array results", async () => {
       (getSSMParameter as jest.Mock)
         .mockResolvedValueOnce("rdsUser")
         .mockResolvedValueOnce("rdsPassword");
 
-      (queryTable as jest.Mock).mockResolvedValue({
+      mockRDSQuery.mockResolvedValue({
         results: null,
         fields: []
       });
@@ -260,7 +175,7 @@ describe("dataAccess", () => {
         .mockResolvedValueOnce("rdsUser")
         .mockResolvedValueOnce("rdsPassword");
 
-      (queryTable as jest.Mock).mockResolvedValue({
+      mockRDSQuery.mockResolvedValue({
         results: [],
         fields: []
       });
@@ -294,7 +209,7 @@ describe("dataAccess", () => {
         .mockResolvedValueOnce("rdsUser")
         .mockResolvedValueOnce("rdsPassword");
 
-      (queryTable as jest.Mock).mockResolvedValue({
+      mockRDSQuery.mockResolvedValue({
         results: mockPlans,
         fields: []
       });
@@ -306,7 +221,7 @@ describe("dataAccess", () => {
 
   })
 
-  describe("loadPlansFromRds", () => {
+  describe("loadPlanAccess", () => {
     const mockToken: JWTAccessToken = {
       email: "user@example.com",
       role: "RESEARCHER"
@@ -317,62 +232,120 @@ describe("dataAccess", () => {
       process.env.RDS_HOST = "localhost";
       process.env.RDS_PORT = "3306";
       process.env.RDS_DATABASE = "dmp";
+      (getSSMParameter as jest.Mock).mockImplementation(async (_, name) => (
+        name === "RdsPassword" ? "rdsPassword" : "rdsUser"
+      ));
     });
 
-    it("should load plans from RDS successfully", async () => {
-      const mockResults = [
-        {dmpId: "dmp123", accessLevel: "read"},
-        {dmpId: "dmp456", accessLevel: "write"}
-      ];
+    it("should load the user's access to the DMP from RDS", async () => {
+      const mockAccess = {id: 1, dmpId: "dmp123", accessLevel: "read"};
+      mockRDSQuery.mockResolvedValue({ results: [mockAccess], fields: [] });
 
-      (getSSMParameter as jest.Mock)
-        .mockResolvedValueOnce("rdsUser")
-        .mockResolvedValueOnce("rdsPassword");
+      const result = await loadPlanAccess(mockLogger, mockToken, "dmp123", EnvironmentEnum.DEV);
 
-      (queryTable as jest.Mock).mockResolvedValue({
-        results: mockResults,
-        fields: []
-      });
+      expect(result).toEqual(mockAccess);
+      expect(mockRDSQuery).toHaveBeenCalledTimes(1);
+      expect(mockRDSQuery).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.stringContaining("WHERE p.dmpId = ? AND pcs.email = ?"),
+        ["dmp123", "user@example.com"]
+      );
+    });
 
-      const result = await loadPlansForUser(mockLogger, mockToken, EnvironmentEnum.DEV);
+    it("should ask RDS for the most permissive access level when the user is listed more than once", async () => {
+      mockRDSQuery.mockResolvedValue({ results: [{ id: 1, dmpId: "dmp123", accessLevel: "OWN" }], fields: [] });
 
-      expect(result).toEqual(mockResults);
-      expect(getSSMParameter).toHaveBeenCalledTimes(2);
-      expect(queryTable).toHaveBeenCalledTimes(1);
+      await loadPlanAccess(mockLogger, mockToken, "dmp123", EnvironmentEnum.DEV);
+
+      const [, sql] = mockRDSQuery.mock.calls[0];
+      expect(sql).toMatch(/ORDER BY FIELD\(pcs\.accessLevel, 'COMMENT', 'EDIT', 'OWN'\) DESC\s+LIMIT 1/);
     });
 
-    it("should return empty array when queryTable returns non-array results", async () => {
-      (getSSMParameter as jest.Mock)
-        .mockResolvedValueOnce("rdsUser")
-        .mockResolvedValueOnce("rdsPassword");
+    it("should return undefined when the user is not a collaborator on the DMP", async () => {
+      mockRDSQuery.mockResolvedValue({ results: [], fields: [] });
 
-      (queryTable as jest.Mock).mockResolvedValue({
-        results: null,
-        fields: []
-      });
+      const result = await loadPlanAccess(mockLogger, mockToken, "dmp123", EnvironmentEnum.DEV);
+
+      expect(result).toBeUndefined();
+    });
 
-      const result = await loadPlansForUser(mockLogger, mockToken, EnvironmentEnum.DEV);
+    it("should not query RDS when the token has no email", async () => {
+      const result = await loadPlanAccess(mockLogger, {} as JWTAccessToken, "dmp123", EnvironmentEnum.DEV);
 
-      expect(result).toEqual([]);
+      expect(result).toBeUndefined();
+      expect(mockRDSQuery).not.toHaveBeenCalled();
     });
+  });
 
-    it("should use default environment when not provided", async () => {
-      (getSSMParameter as jest.Mock)
-        .mockResolvedValueOnce("rdsUser")
-        .mockResolvedValueOnce("rdsPassword");
+  describe("RDS connections", () => {
+    const mockDmpId = "dmp123";
+    let passwordVersion: number;
 
-      (queryTable as jest.Mock).mockResolvedValue({
-        results: [],
-        fields: []
-      });
+    beforeEach(() => {
+      process.env.RDS_HOST = "localhost";
+      passwordVersion = 1;
+      (getSSMParameter as jest.Mock).mockImplementation(async (_, name) => (
+        name === "RdsPassword" ? `rdsPassword${passwordVersion}` : "rdsUser"
+      ));
+      mockRDSQuery.mockResolvedValue({ results: [], fields: [] });
+    });
 
-      await loadPlansForUser(mockLogger, mockToken);
+    it("should cache the RDS credentials between queries", async () => {
+      await loadPlan(mockLogger, mockDmpId, EnvironmentEnum.DEV);
+      await loadPlanAccess(mockLogger, { email: "user@example.com" } as JWTAccessToken, mockDmpId, EnvironmentEnum.DEV);
 
-      expect(getSSMParameter).toHaveBeenCalledWith(
-        expect.any(Object),
-        "RdsUsername",
-        EnvironmentEnum.DEV
+      expect(getSSMParameter).toHaveBeenCalledTimes(2);
+      expect(mockRDSQuery).toHaveBeenCalledTimes(2);
+    });
+
+    it("should reload the RDS credentials and retry once when RDS rejects them", async () => {
+      await loadPlan(mockLogger, mockDmpId, EnvironmentEnum.DEV);
+      passwordVersion = 2;
+      mockRDSQuery.mockRejectedValueOnce(Object.assign(new Error("Access denied"), { code: "ER_ACCESS_DENIED_ERROR" }));
+
+      await loadPlan(mockLogger, mockDmpId, EnvironmentEnum.DEV);
+
+      expect(getSSMParameter).toHaveBeenCalledTimes(4);
+      expect(mockRDSQuery).toHaveBeenCalledTimes(3);
+      expect(mockRDSQuery).toHaveBeenLastCalledWith(
+        expect.objectContaining({ password: "rdsPassword2" }),
+        'SELECT id, dmpId, modified, visibility FROM plans WHERE dmpId = ?',
+        [mockDmpId]
+      );
+    });
+
+    it("should not retry other RDS errors", async () => {
+      mockRDSQuery.mockRejectedValue(new Error("Connection refused"));
+
+      await expect(loadPlan(mockLogger, mockDmpId, EnvironmentEnum.DEV)).rejects.toThrow("Connection refused");
+      expect(mockRDSQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reload the RDS credentials when generating the maDMP record is rejected", async () => {
+      (planToDMPCommonStandard as jest.Mock)
+        .mockRejectedValueOnce(Object.assign(new Error("Access denied"), { code: "ER_ACCESS_DENIED_ERROR" }))
+        .mockResolvedValueOnce(undefined);
+
+      await handleMissingMaDMP(
+        mockLogger,
+        EnvironmentEnum.DEV,
+        "test-app",
+        "example.com",
+        { id: 123, dmpId: mockDmpId, modified: "2024-01-01", visibility: "public" },
+        false,
+        false
       );
+
+      expect(planToDMPCommonStandard).toHaveBeenCalledTimes(2);
+      expect(getSSMParameter).toHaveBeenCalledTimes(4);
+    });
+
+    it("should close the RDS pool", async () => {
+      await loadPlan(mockLogger, mockDmpId, EnvironmentEnum.DEV);
+
+      await closeDataSource();
+
+      expect(mockRDSPoolEnd).toHaveBeenCalled();
     });
   });
 
@@ -407,6 +380,26 @@ describe("dataAccess", () => {
       );
     });
 
+    it("should load the requested version of the maDMP from DynamoDB", async () => {
+      const version = "2024-01-23T16:24:56Z";
+      const mockDMP: DMPToolDMPType = {
+        dmp: {dmp_id: {identifier: dmpId}, modified: version}
+      } as DMPToolDMPType;
+
+      (getDMPs as jest.Mock).mockResolvedValue([mockDMP]);
+
+      const result = await loadMaDMPFromDynamo(mockLogger, domainName, dmpId, version);
+
+      expect(result).toEqual(mockDMP);
+      expect(getDMPs).toHaveBeenCalledWith(
+        expect.objectContaining({ tableName: "test-table" }),
+        domainName,
+        dmpId,
+        version,
+        true
+      );
+    });
+
     it("should return undefined when no DMPs found", async () => {
       (getDMPs as jest.Mock).mockResolvedValue([]);
 
@@ -424,6 +417,42 @@ describe("dataAccess", () => {
     });
   });
 
+  describe("loadMaDMPVersionsFromDynamo", () => {
+    const domainName = "https://example.com";
+    const dmpId = "dmp123";
+
+    beforeEach(() => {
+      process.env.DYNAMODB_TABLE_NAME = "test-table";
+      process.env.AWS_REGION = "us-west-2";
+    });
+
+    it("should load every version sorted from newest to oldest", async () => {
+      const older = { dmp: { dmp_id: { identifier: dmpId }, modified: "2023-01-01T00:00:00Z" } } as DMPToolDMPType;
+      const newer = { dmp: { dmp_id: { identifier: dmpId }, modified: "2024-01-01T00:00:00Z" } } as DMPToolDMPType;
+
+      (getDMPs as jest.Mock).mockResolvedValue([older, newer]);
+
+      const result = await loadMaDMPVersionsFromDynamo(mockLogger, domainName, dmpId);
+
+      expect(result).toEqual([newer, older]);
+      expect(getDMPs).toHaveBeenCalledWith(
+        expect.objectContaining({ tableName: "test-table" }),
+        domainName,
+        dmpId,
+        null,
+        true
+      );
+    });
+
+    it("should return an empty array when getDMPs returns non-array", async () => {
+      (getDMPs as jest.Mock).mockResolvedValue(undefined);
+
+      const result = await loadMaDMPVersionsFromDynamo(mockLogger, domainName, dmpId);
+
+      expect(result).toEqual([]);
+    });
+  });
+
   describe("handleMissingMaDMP", () => {
     const domainName = "https://example.com";
     const applicationName = "test-app";
@@ -544,6 +573,33 @@ describe("dataAccess", () => {
       expect(updateDMP).not.toHaveBeenCalled();
     });
 
+    it("should not persist the maDMP record in read-only mode", async () => {
+      const mockMaDMP: DMPToolDMPType = {
+        dmp: { dmp_id: { identifier: "dmp123" } }
+      } as DMPToolDMPType;
+
+      (getSSMParameter as jest.Mock)
+        .mockResolvedValueOnce("rdsUser")
+        .mockResolvedValueOnce("rdsPassword");
+
+      (planToDMPCommonStandard as jest.Mock).mockResolvedValue(mockMaDMP);
+
+      const result = await handleMissingMaDMP(
+        mockLogger,
+        EnvironmentEnum.DEV,
+        applicationName,
+        domainName,
+        mockPlan,
+        true,
+        false
+      );
+
+      expect(result).toEqual(mockMaDMP);
+      expect(planToDMPCommonStandard).toHaveBeenCalled();
+      expect(createDMP).not.toHaveBeenCalled();
+      expect(updateDMP).not.toHaveBeenCalled();
+    });
+
     it("should return maDMP when planToDMPCommonStandard returns undefined", async () => {
       (getSSMParameter as jest.Mock)
         .mockResolvedValueOnce("rdsUser")
@@ -564,4 +620,403 @@ describe("dataAccess", () => {
       expect(createDMP).not.toHaveBeenCalled();
     });
   });
+
+  describe("handleMissingMaDMP coordination", () => {
+    const domainName = "https://example.com";
+    const mockPlan: PlanInterface = {
+      id: 123,
+      dmpId: "dmp123",
+      modified: "2024-01-01T00:00:00Z",
+      visibility: "public"
+    };
+    const generatedMaDMP = {
+      dmp: { dmp_id: { identifier: "dmp123" }, modified: "2024-01-01T00:00:00Z", narrative: {} }
+    } as DMPToolDMPType;
+    const regenerate = (persist = true) => handleMissingMaDMP(
+      mockLogger,
+      EnvironmentEnum.DEV,
+      "test-app",
+      domainName,
+      mockPlan,
+      true,
+      persist
+    );
+
+    beforeEach(() => {
+      process.env.DYNAMODB_TABLE_NAME = "test-table";
+      (getSSMParameter as jest.Mock).mockResolvedValue("rdsValue");
+      (planToDMPCommonStandard as jest.Mock).mockResolvedValue(generatedMaDMP);
+      (getDMPs as jest.Mock).mockResolvedValue([]);
+      mockSend.mockResolvedValue({});
+    });
+
+    afterEach(() => {
+      delete process.env.REGENERATION_WAIT_SECONDS;
+    });
+
+    it("should share a single regeneration between concurrent requests for the same DMP", async () => {
+      const results = await Promise.all([regenerate(), regenerate(), regenerate()]);
+
+      expect(results).toEqual([generatedMaDMP, generatedMaDMP, generatedMaDMP]);
+      expect(planToDMPCommonStandard).toHaveBeenCalledTimes(1);
+      expect(updateDMP).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not share a regeneration that is saved with one that is not", async () => {
+      await Promise.all([regenerate(true), regenerate(false)]);
+
+      expect(planToDMPCommonStandard).toHaveBeenCalledTimes(2);
+      expect(updateDMP).toHaveBeenCalledTimes(1);
+    });
+
+    it("should use the maDMP record saved by another task before the lock was taken", async () => {
+      (getDMPs as jest.Mock).mockResolvedValue([generatedMaDMP]);
+
+      const result = await regenerate();
+
+      expect(result).toEqual(generatedMaDMP);
+      expect(planToDMPCommonStandard).not.toHaveBeenCalled();
+      expect(updateDMP).not.toHaveBeenCalled();
+    });
+
+    it("should require a table for the lock", async () => {
+      delete process.env.DYNAMODB_LOCK_TABLE_NAME;
+
+      await expect(regenerate()).rejects.toThrow("Missing required environment variable: DYNAMODB_LOCK_TABLE_NAME");
+      expect(mockSend).not.toHaveBeenCalled();
+      expect(updateDMP).not.toHaveBeenCalled();
+    });
+
+    it("should take and release the lock in DynamoDB", async () => {
+      await regenerate();
+
+      expect(mockSend).toHaveBeenCalledTimes(2);
+      const [[put], [del]] = mockSend.mock.calls;
+      expect(put.command).toBe("PutItem");
+      expect(put.input).toEqual(expect.objectContaining({
+        TableName: "lock-table",
+        ConditionExpression: "attribute_not_exists(lockId) OR expiresAt < :now",
+      }));
+      expect(put.input.Item.lockId).toEqual({ S: "regenerate#dmp123" });
+      expect(del.command).toBe("DeleteItem");
+      expect(del.input.Key).toEqual({ lockId: { S: "regenerate#dmp123" } });
+      expect(del.input.ExpressionAttributeValues[":owner"]).toEqual(put.input.Item.owner);
+      expect(updateDMP).toHaveBeenCalledTimes(1);
+    });
+
+    it("should release the lock if the regeneration fails", async () => {
+      (planToDMPCommonStandard as jest.Mock).mockRejectedValue(new Error("RDS is down"));
+
+      await expect(regenerate()).rejects.toThrow("RDS is down");
+      expect(mockSend.mock.calls.map(([command]) => command.command)).toEqual(["PutItem", "DeleteItem"]);
+    });
+
+    it("should wait for the maDMP record saved by the task holding the lock", async () => {
+      mockSend.mockRejectedValueOnce(new ConditionalCheckFailedException({ message: "Locked", $metadata: {} }));
+      (getDMPs as jest.Mock).mockResolvedValueOnce([]).mockResolvedValue([generatedMaDMP]);
+
+      const result = await regenerate();
+
+      expect(result).toEqual(generatedMaDMP);
+      expect(planToDMPCommonStandard).not.toHaveBeenCalled();
+      expect(updateDMP).not.toHaveBeenCalled();
+    });
+
+    it("should generate the maDMP record without saving it if the task holding the lock takes too long", async () => {
+      process.env.REGENERATION_WAIT_SECONDS = "0.001";
+      mockSend.mockRejectedValueOnce(new ConditionalCheckFailedException({ message: "Locked", $metadata: {} }));
+
+      const result = await regenerate();
+
+      expect(result).toEqual(generatedMaDMP);
+      expect(planToDMPCommonStandard).toHaveBeenCalledTimes(1);
+      expect(updateDMP).not.toHaveBeenCalled();
+      expect(createDMP).not.toHaveBeenCalled();
+    });
+
+    it("should save a maDMP record generated without saving it while holding the lock", async () => {
+
+      const result = await saveRegeneratedMaDMP(mockLogger, domainName, mockPlan, generatedMaDMP, true);
+
+      expect(result).toEqual(generatedMaDMP);
+      expect(mockSend.mock.calls.map(([command]) => command.command)).toEqual(["PutItem", "DeleteItem"]);
+      expect(planToDMPCommonStandard).not.toHaveBeenCalled();
+      expect(updateDMP).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not save a maDMP record generated without saving it if the saved one is up to date", async () => {
+      const saved = { dmp: { ...generatedMaDMP.dmp, title: "Saved by another task" } } as DMPToolDMPType;
+      (getDMPs as jest.Mock).mockResolvedValue([saved]);
+
+      const result = await saveRegeneratedMaDMP(mockLogger, domainName, mockPlan, generatedMaDMP, true);
+
+      expect(result).toEqual(saved);
+      expect(updateDMP).not.toHaveBeenCalled();
+      expect(createDMP).not.toHaveBeenCalled();
+    });
+
+    it("should share the regeneration of a request that is saving the same maDMP record", async () => {
+      const results = await Promise.all([
+        regenerate(),
+        saveRegeneratedMaDMP(mockLogger, domainName, mockPlan, generatedMaDMP, true),
+      ]);
+
+      expect(results).toEqual([generatedMaDMP, generatedMaDMP]);
+      expect(updateDMP).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not save a maDMP record generated without saving it if the task holding the lock takes too long", async () => {
+      process.env.REGENERATION_WAIT_SECONDS = "0.001";
+      mockSend.mockRejectedValueOnce(new ConditionalCheckFailedException({ message: "Locked", $metadata: {} }));
+
+      await expect(saveRegeneratedMaDMP(mockLogger, domainName, mockPlan, generatedMaDMP, true))
+        .rejects.toThrow("Timed out waiting for another task to regenerate the maDMP record for dmp123");
+      expect(updateDMP).not.toHaveBeenCalled();
+      expect(createDMP).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("share links", () => {
+    const link: ShareLink = {
+      id: "link-1",
+      dmpId: "dmp123",
+      formats: ["pdf"],
+      version: null,
+      redaction: "none",
+      expires: Math.floor(Date.now() / 1000) + 3600,
+      createdBy: 1,
+    };
+    const creator: ShareLinkCreator = { id: 1, email: "owner@example.com", role: "RESEARCHER", affiliationId: "ror-1" };
+
+    afterEach(() => {
+      delete process.env.DYNAMODB_SHARE_LINK_TABLE_NAME;
+    });
+
+    it("should require a table to record the links", async () => {
+      const message = "Missing required environment variable: DYNAMODB_SHARE_LINK_TABLE_NAME";
+
+      await expect(saveShareLink(mockLogger, link, creator)).rejects.toThrow(message);
+      await expect(loadShareLink(mockLogger, "link-1")).rejects.toThrow(message);
+      await expect(revokeShareLink(mockLogger, "link-1")).rejects.toThrow(message);
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+
+    it("should record the links in DynamoDB", async () => {
+      process.env.DYNAMODB_SHARE_LINK_TABLE_NAME = "share-table";
+      mockSend.mockResolvedValue({});
+
+      await saveShareLink(mockLogger, link, creator);
+
+      const [[put]] = mockSend.mock.calls;
+      expect(put.command).toBe("PutItem");
+      expect(put.input).toEqual({
+        TableName: "share-table",
+        Item: {
+          linkId: { S: "link-1" },
+          link: { S: JSON.stringify(link) },
+          creator: { S: JSON.stringify(creator) },
+          revoked: { BOOL: false },
+          expiresAt: { N: String(link.expires) },
+        },
+      });
+    });
+
+    it("should load the links from DynamoDB", async () => {
+      process.env.DYNAMODB_SHARE_LINK_TABLE_NAME = "share-table";
+      const item = {
+        link: { S: JSON.stringify(link) },
+        creator: { S: JSON.stringify(creator) },
+        revoked: { BOOL: true },
+        expiresAt: { N: String(link.expires) },
+      };
+      mockSend
+        .mockResolvedValueOnce({ Item: item })
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({ Item: { ...item, expiresAt: { N: "1" } } });
+
+      await expect(loadShareLink(mockLogger, "link-1")).resolves.toEqual({ ...link, revoked: true, creator });
+      await expect(loadShareLink(mockLogger, "unknown")).resolves.toBeUndefined();
+      // Waiting for the TTL to remove it
+      await expect(loadShareLink(mockLogger, "expired")).resolves.toBeUndefined();
+      expect(mockSend.mock.calls[0][0].input).toEqual({
+        TableName: "share-table",
+        Key: { linkId: { S: "link-1" } },
+        ConsistentRead: true,
+      });
+    });
+
+    it("should revoke the links in DynamoDB", async () => {
+      process.env.DYNAMODB_SHARE_LINK_TABLE_NAME = "share-table";
+      mockSend
+        .mockResolvedValueOnce({})
+        .mockRejectedValueOnce(new ConditionalCheckFailedException({ message: "Missing", $metadata: {} }));
+
+      await expect(revokeShareLink(mockLogger, "link-1")).resolves.toBe(true);
+      await expect(revokeShareLink(mockLogger, "unknown")).resolves.toBe(false);
+      const [[update]] = mockSend.mock.calls;
+      expect(update.command).toBe("UpdateItem");
+      expect(update.input).toEqual(expect.objectContaining({
+        TableName: "share-table",
+        Key: { linkId: { S: "link-1" } },
+        ConditionExpression: "attribute_exists(linkId) AND expiresAt > :now",
+      }));
+    });
+  });
+
+  describe("render jobs", () => {
+    const job: RenderJob = {
+      id: "job-1",
+      dmpId: "dmp123",
+      format: "pdf",
+      userId: 1,
+      status: "done",
+      created: "2024-01-01T00:00:00.000Z",
+      updated: "2024-01-01T00:00:00.000Z",
+    };
+    const expires = Math.floor(Date.now() / 1000) + 3600;
+
+    afterEach(() => {
+      delete process.env.DYNAMODB_JOB_TABLE_NAME;
+    });
+
+    it("should require a table to record the jobs", async () => {
+      const message = "Missing required environment variable: DYNAMODB_JOB_TABLE_NAME";
+
+      await expect(saveRenderJob(mockLogger, job, expires)).rejects.toThrow(message);
+      await expect(loadRenderJob(mockLogger, "job-1")).rejects.toThrow(message);
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+
+    it("should record the jobs in DynamoDB", async () => {
+      process.env.DYNAMODB_JOB_TABLE_NAME = "job-table";
+      mockSend.mockResolvedValue({});
+
+      await saveRenderJob(mockLogger, job, expires);
+
+      const [[put]] = mockSend.mock.calls;
+      expect(put.command).toBe("PutItem");
+      expect(put.input).toEqual({
+        TableName: "job-table",
+        Item: {
+          jobId: { S: "job-1" },
+          job: { S: JSON.stringify(job) },
+          expiresAt: { N: String(expires) },
+        },
+      });
+    });
+
+    it("should load the jobs from DynamoDB", async () => {
+      process.env.DYNAMODB_JOB_TABLE_NAME = "job-table";
+      const item = { job: { S: JSON.stringify(job) }, expiresAt: { N: String(expires) } };
+      mockSend
+        .mockResolvedValueOnce({ Item: item })
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({ Item: { ...item, expiresAt: { N: "1" } } });
+
+      await expect(loadRenderJob(mockLogger, "job-1")).resolves.toEqual(job);
+      await expect(loadRenderJob(mockLogger, "unknown")).resolves.toBeUndefined();
+      // Waiting for the TTL to remove it
+      await expect(loadRenderJob(mockLogger, "expired")).resolves.toBeUndefined();
+      expect(mockSend.mock.calls[0][0].input).toEqual({
+        TableName: "job-table",
+        Key: { jobId: { S: "job-1" } },
+        ConsistentRead: true,
+      });
+    });
+  });
+
+  describe("readiness checks", () => {
+    const checks = () => dataSourceReadinessChecks(mockLogger, EnvironmentEnum.DEV, "example.com");
+
+    beforeEach(() => {
+      process.env.RDS_HOST = "localhost";
+      process.env.DYNAMODB_TABLE_NAME = "test-table";
+    });
+
+    it("should read the RDS username from SSM", async () => {
+      (getSSMParameter as jest.Mock).mockResolvedValueOnce("rdsUser");
+
+      await expect(checks().ssm()).resolves.toBeUndefined();
+      expect(getSSMParameter).toHaveBeenCalledWith(expect.anything(), "RdsUsername", EnvironmentEnum.DEV);
+    });
+
+    it("should fail the SSM check when the parameter is missing", async () => {
+      (getSSMParameter as jest.Mock).mockResolvedValueOnce(undefined);
+
+      await expect(checks().ssm()).rejects.toThrow("Unable to read RdsUsername");
+    });
+
+    it("should run a trivial query against RDS", async () => {
+      (getSSMParameter as jest.Mock)
+        .mockResolvedValueOnce("rdsUser")
+        .mockResolvedValueOnce("rdsPassword");
+      mockRDSQuery.mockResolvedValue({ results: [{ 1: 1 }], fields: [] });
+
+      await expect(checks().rds()).resolves.toBeUndefined();
+      expect(mockRDSQuery).toHaveBeenCalledWith(expect.objectContaining({ host: "localhost" }), "SELECT 1", []);
+    });
+
+    it("should fail the RDS check when the query fails", async () => {
+      (getSSMParameter as jest.Mock)
+        .mockResolvedValueOnce("rdsUser")
+        .mockResolvedValueOnce("rdsPassword");
+      mockRDSQuery.mockRejectedValue(new Error("Connection refused"));
+
+      await expect(checks().rds()).rejects.toThrow("Connection refused");
+    });
+
+    it("should fail the RDS check when the credentials are missing", async () => {
+      (getSSMParameter as jest.Mock).mockResolvedValue(undefined);
+
+      await expect(checks().rds()).rejects.toThrow("Unable to load the RDS credentials");
+      expect(mockRDSQuery).not.toHaveBeenCalled();
+    });
+
+    it("should read from the DynamoDB table", async () => {
+      (getDMPs as jest.Mock).mockResolvedValue([]);
+
+      await expect(checks().dynamodb()).resolves.toBeUndefined();
+      expect(getDMPs).toHaveBeenCalledWith(
+        expect.objectContaining({ tableName: "test-table" }),
+        "example.com",
+        expect.any(String),
+        DMP_LATEST_VERSION,
+        false
+      );
+    });
+
+    it("should fail the DynamoDB check when the table cannot be read", async () => {
+      (getDMPs as jest.Mock).mockRejectedValue(new Error("ResourceNotFoundException"));
+
+      await expect(checks().dynamodb()).rejects.toThrow("ResourceNotFoundException");
+    });
+
+    it("should check SSM, RDS and DynamoDB", () => {
+      expect(Object.keys(checks())).toEqual(["ssm", "rds", "dynamodb"]);
+    });
+  });
+
+  describe("createDataSource", () => {
+    afterEach(() => {
+      delete process.env.DATA_SOURCE;
+    });
+
+    it("should use AWS by default", () => {
+      const checks = createDataSource().readinessChecks(mockLogger, EnvironmentEnum.DEV, "example.com");
+
+      expect(Object.keys(checks)).toEqual(["ssm", "rds", "dynamodb"]);
+    });
+
+    it("should use the fixtures directory when DATA_SOURCE is local", async () => {
+      process.env.DATA_SOURCE = "local";
+
+      const dataSource = createDataSource();
+
+      expect(Object.keys(dataSource.readinessChecks(mockLogger, EnvironmentEnum.DEV, "example.com")))
+        .toEqual(["fixtures"]);
+      await expect(dataSource.loadPlan(mockLogger, "https://doi.org/11.11111/PUBLIC1", EnvironmentEnum.DEV))
+        .resolves.toEqual(expect.objectContaining({ id: 1 }));
+      expect(mockRDSQuery).not.toHaveBeenCalled();
+    });
+  });
 });
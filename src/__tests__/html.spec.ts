@@ -267,4 +267,19 @@ describe("renderHtmlTemplate", () => {
     expect(html).toContain("Empty Test");
     expect(html).not.toContain("Not answered"); // no questions
   });
+
+  it("stamps the version on the cover page when one is provided", () => {
+    const data = {
+      title: "Versioned Plan",
+      dmp_id: { identifier: "https://doi.org/10.1234/abcd", type: "doi" },
+      contact: { name: "Alice", affiliation: [] },
+      modified: "2024-01-23T16:24:56Z",
+    };
+
+    const versioned = renderHTML(display, margin, font, data, "2024-01-23T16:24:56Z");
+    expect(versioned).toContain("<b>Version:</b> 2024-01-23T16:24:56Z");
+
+    const latest = renderHTML(display, margin, font, data);
+    expect(latest).not.toContain("<b>Version:</b>");
+  });
 });
@@ -0,0 +1,302 @@
+import { Logger } from "pino";
+import { ArtifactStore } from "../artifactStore";
+import { createJobManager, createMemoryRenderJobStore, JobManagerOptions, RenderJob, RenderJobStore } from "../jobs";
+import { NarrativeDocument } from "../narrative";
+import { RenderQueueFullError } from "../renderQueue";
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const pdfDoc: NarrativeDocument = { contentType: "application/pdf", extension: "pdf", body: Buffer.from("%PDF-1.4") };
+
+// An in memory artifact store
+const memoryStore = (): ArtifactStore & { docs: Map<string, NarrativeDocument> } => {
+  const docs = new Map<string, NarrativeDocument>();
+  return {
+    docs,
+    put: jest.fn(async (id: string, doc: NarrativeDocument) => { docs.set(id, doc); }),
+    get: jest.fn(async (id: string) => docs.get(id)),
+    prune: jest.fn(async () => undefined),
+  };
+};
+
+// A job store that can be shared by several job managers (i.e. instances of the service)
+const jobStore = (): RenderJobStore & { save: jest.Mock } => {
+  const store = createMemoryRenderJobStore();
+  return { save: jest.fn(store.save), load: store.load };
+};
+
+// Lets a test decide when a render finishes
+const deferred = () => {
+  let resolve: (value: NarrativeDocument) => void;
+  let reject: (err: Error) => void;
+  const promise = new Promise<NarrativeDocument>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+};
+
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("createJobManager", () => {
+  const options: JobManagerOptions = {
+    concurrency: 1,
+    maxActive: 3,
+    maxActivePerUser: 2,
+    ttlSeconds: 60,
+    retryAfterSeconds: 15,
+  };
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("runs the job in the background and stores the document", async () => {
+    const store = memoryStore();
+    const jobs = createJobManager(jobStore(), store, options);
+    const render = deferred();
+
+    const job = await jobs.submit(mockLogger, 1, "11.11111/A1B2C3", "pdf", () => render.promise);
+    expect(job).toEqual(expect.objectContaining({ dmpId: "11.11111/A1B2C3", format: "pdf", userId: 1 }));
+    await settle();
+    expect((await jobs.get(mockLogger, job.id)).status).toBe("running");
+    await expect(jobs.download(mockLogger, job.id)).resolves.toBeUndefined();
+
+    render.resolve(pdfDoc);
+    await settle();
+    expect((await jobs.get(mockLogger, job.id)).status).toBe("done");
+    expect(store.put).toHaveBeenCalledWith(job.id, pdfDoc);
+    await expect(jobs.download(mockLogger, job.id)).resolves.toEqual(pdfDoc);
+  });
+
+  it("lets another instance report the status and return the document", async () => {
+    const sharedJobs = jobStore();
+    const sharedStore = memoryStore();
+    const instanceA = createJobManager(sharedJobs, sharedStore, options);
+    const instanceB = createJobManager(sharedJobs, sharedStore, options);
+    const render = deferred();
+
+    const job = await instanceA.submit(mockLogger, 1, "11.11111/A1B2C3", "pdf", () => render.promise);
+    await settle();
+    expect((await instanceB.get(mockLogger, job.id)).status).toBe("running");
+
+    render.resolve(pdfDoc);
+    await settle();
+    expect((await instanceB.get(mockLogger, job.id)).status).toBe("done");
+    await expect(instanceB.download(mockLogger, job.id)).resolves.toEqual(pdfDoc);
+    // Only the instance the job was submitted to renders it
+    expect(instanceB.active()).toEqual([]);
+  });
+
+  it("records the job before returning it", async () => {
+    const store = jobStore();
+    const jobs = createJobManager(store, memoryStore(), options);
+
+    const job = await jobs.submit(mockLogger, 1, "11.11111/A1B2C3", "pdf", () => deferred().promise);
+
+    expect(store.save).toHaveBeenCalledWith(
+      mockLogger,
+      expect.objectContaining({ id: job.id, status: "queued" }),
+      expect.any(Number)
+    );
+  });
+
+  it("does not run the job if it could not be recorded", async () => {
+    const store = jobStore();
+    store.save.mockRejectedValueOnce(new Error("DynamoDB is down"));
+    const jobs = createJobManager(store, memoryStore(), options);
+    const render = jest.fn();
+
+    await expect(jobs.submit(mockLogger, 1, "11.11111/A1B2C3", "pdf", render)).rejects.toThrow("DynamoDB is down");
+    await settle();
+    expect(render).not.toHaveBeenCalled();
+    expect(jobs.active()).toEqual([]);
+  });
+
+  it("queues jobs once the concurrency limit is reached", async () => {
+    const jobs = createJobManager(jobStore(), memoryStore(), options);
+    const renders = [deferred(), deferred()];
+
+    const first = await jobs.submit(mockLogger, 1, "11.11111/A1B2C3", "pdf", () => renders[0].promise);
+    const second = await jobs.submit(mockLogger, 2, "11.11111/A1B2C3", "pdf", () => renders[1].promise);
+    await settle();
+    expect((await jobs.get(mockLogger, first.id)).status).toBe("running");
+    expect((await jobs.get(mockLogger, second.id)).status).toBe("queued");
+
+    renders[0].resolve(pdfDoc);
+    await settle();
+    expect((await jobs.get(mockLogger, second.id)).status).toBe("running");
+
+    renders[1].resolve(pdfDoc);
+    await settle();
+    expect((await jobs.get(mockLogger, second.id)).status).toBe("done");
+  });
+
+  it("marks the job as failed when the render fails", async () => {
+    const jobs = createJobManager(jobStore(), memoryStore(), options);
+
+    const job = await jobs.submit(mockLogger, 1, "11.11111/A1B2C3", "pdf", async () => { throw new Error("Boom"); });
+    await settle();
+
+    expect(await jobs.get(mockLogger, job.id))
+      .toEqual(expect.objectContaining({ status: "failed", error: "Document generation failed" }));
+    expect(mockLogger.error).toHaveBeenCalled();
+    await expect(jobs.download(mockLogger, job.id)).resolves.toBeUndefined();
+  });
+
+  it("marks the job as failed when the format could not be rendered", async () => {
+    const jobs = createJobManager(jobStore(), memoryStore(), options);
+
+    const job = await jobs.submit(mockLogger, 1, "11.11111/A1B2C3", "pdf", async () => undefined);
+    await settle();
+
+    expect((await jobs.get(mockLogger, job.id)).status).toBe("failed");
+  });
+
+  it("waits and tries again when the render queue is full", async () => {
+    jest.useFakeTimers({ doNotFake: ["setImmediate", "nextTick"] });
+    const jobs = createJobManager(jobStore(), memoryStore(), options);
+    const render = jest.fn()
+      .mockRejectedValueOnce(new RenderQueueFullError("Too many documents", 503, 15))
+      .mockResolvedValueOnce(pdfDoc);
+
+    const job = await jobs.submit(mockLogger, 1, "11.11111/A1B2C3", "pdf", render);
+    await settle();
+    expect((await jobs.get(mockLogger, job.id)).status).toBe("queued");
+
+    jest.advanceTimersByTime(15000);
+    await settle();
+    expect(render).toHaveBeenCalledTimes(2);
+    expect((await jobs.get(mockLogger, job.id)).status).toBe("done");
+  });
+
+  it("gives up once the render queue has been full for the TTL", async () => {
+    jest.useFakeTimers({ doNotFake: ["setImmediate", "nextTick"] });
+    const jobs = createJobManager(jobStore(), memoryStore(), options);
+    const render = jest.fn().mockRejectedValue(new RenderQueueFullError("Too many documents", 503, 40));
+
+    const job = await jobs.submit(mockLogger, 1, "11.11111/A1B2C3", "pdf", render);
+    await settle();
+    jest.advanceTimersByTime(40000);
+    await settle();
+    jest.advanceTimersByTime(40000);
+    await settle();
+
+    // Tried at 0, 40 and 80 seconds
+    expect(render).toHaveBeenCalledTimes(3);
+    expect((await jobs.get(mockLogger, job.id)).status).toBe("failed");
+  });
+
+  it("rejects jobs with a 429 when the user has too many active jobs", async () => {
+    const jobs = createJobManager(jobStore(), memoryStore(), options);
+    const render = deferred();
+    await jobs.submit(mockLogger, 1, "11.11111/A1B2C3", "pdf", () => render.promise);
+    await jobs.submit(mockLogger, 1, "11.11111/A1B2C3", "pdf", () => render.promise);
+
+    let err: RenderQueueFullError;
+    try {
+      await jobs.submit(mockLogger, 1, "11.11111/A1B2C3", "pdf", () => render.promise);
+    } catch (e) {
+      err = e;
+    }
+    expect(err).toBeInstanceOf(RenderQueueFullError);
+    expect(err.status).toBe(429);
+    expect(err.retryAfterSeconds).toBe(15);
+    // Other users are not affected
+    await expect(jobs.submit(mockLogger, 2, "11.11111/A1B2C3", "pdf", () => render.promise)).resolves.toBeDefined();
+  });
+
+  it("rejects jobs with a 503 when there are too many active jobs", async () => {
+    const jobs = createJobManager(jobStore(), memoryStore(), options);
+    const render = deferred();
+    for (const userId of [1, 2, undefined]) {
+      await jobs.submit(mockLogger, userId, "11.11111/A1B2C3", "pdf", () => render.promise);
+    }
+
+    await expect(jobs.submit(mockLogger, 4, "11.11111/A1B2C3", "pdf", () => render.promise))
+      .rejects.toEqual(expect.objectContaining({ status: 503 }));
+  });
+
+  it("lists the active jobs and resolves once they are done", async () => {
+    const jobs = createJobManager(jobStore(), memoryStore(), options);
+    await expect(jobs.idle()).resolves.toBeUndefined();
+
+    const renders = [deferred(), deferred()];
+    const first = await jobs.submit(mockLogger, 1, "11.11111/A1B2C3", "pdf", () => renders[0].promise);
+    const second = await jobs.submit(mockLogger, 2, "11.11111/A1B2C3", "pdf", () => renders[1].promise);
+    expect(jobs.active().map((job) => job.id)).toEqual([first.id, second.id]);
+
+    let idle = false;
+    const waiting = jobs.idle().then(() => { idle = true; });
+    await settle();
+    renders[0].resolve(pdfDoc);
+    await settle();
+    expect(idle).toBe(false);
+    expect(jobs.active().map((job) => job.id)).toEqual([second.id]);
+
+    renders[1].reject(new Error("Boom"));
+    await waiting;
+    expect(jobs.active()).toEqual([]);
+  });
+
+  it("marks the active jobs as failed when it is interrupted", async () => {
+    const jobs = createJobManager(jobStore(), memoryStore(), options);
+    const job = await jobs.submit(mockLogger, 1, "11.11111/A1B2C3", "pdf", () => deferred().promise);
+    await settle();
+
+    await jobs.interrupt(mockLogger);
+
+    expect(await jobs.get(mockLogger, job.id))
+      .toEqual(expect.objectContaining({ status: "failed", error: "The service was restarted" }));
+  });
+
+  it("forgets finished jobs once they expire", async () => {
+    const jobs = createJobManager(jobStore(), memoryStore(), options);
+    const job = await jobs.submit(mockLogger, 1, "11.11111/A1B2C3", "pdf", async () => pdfDoc);
+    await settle();
+    expect((await jobs.get(mockLogger, job.id)).status).toBe("done");
+
+    jest.useFakeTimers({ now: Date.now() + 61000 });
+    await expect(jobs.get(mockLogger, job.id)).resolves.toBeUndefined();
+    await expect(jobs.download(mockLogger, job.id)).resolves.toBeUndefined();
+  });
+
+  it("removes the expired documents when it starts and then once per TTL", async () => {
+    const store = memoryStore();
+    const jobs = createJobManager(jobStore(), store, options);
+
+    await jobs.get(mockLogger, "job-1");
+    await jobs.submit(mockLogger, 1, "11.11111/A1B2C3", "pdf", async () => pdfDoc);
+    expect(store.prune).toHaveBeenCalledTimes(1);
+    expect(store.prune).toHaveBeenCalledWith(60);
+
+    jest.useFakeTimers({ now: Date.now() + 61000 });
+    await jobs.get(mockLogger, "job-1");
+    expect(store.prune).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("createMemoryRenderJobStore", () => {
+  const job: RenderJob = {
+    id: "job-1",
+    dmpId: "11.11111/A1B2C3",
+    format: "pdf",
+    status: "done",
+    created: "2024-01-01T00:00:00.000Z",
+    updated: "2024-01-01T00:00:00.000Z",
+  };
+
+  it("returns the recorded jobs until they expire", async () => {
+    let now = 1000 * 1000;
+    const store = createMemoryRenderJobStore(() => now);
+    await store.save(mockLogger, job, 1060);
+
+    await expect(store.load(mockLogger, "job-1")).resolves.toEqual(job);
+    await expect(store.load(mockLogger, "job-2")).resolves.toBeUndefined();
+
+    now = 1060 * 1000;
+    await expect(store.load(mockLogger, "job-1")).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,169 @@
+import { EnvironmentEnum } from "@dmptool/utils";
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Logger } from "pino";
+import { NarrativeDataSource } from "../dataAccess";
+import { JWTAccessToken } from "../helper";
+import { createLocalDataSource } from "../localDataSource";
+import { validateMaDMP } from "../validation";
+
+const DMP_ID = "https://doi.org/11.11111/A1B2C3";
+
+const maDMP = (modified: string, title = "Test DMP") => ({
+  dmp: { title, modified, dmp_id: { identifier: DMP_ID, type: "doi" } },
+});
+
+describe("createLocalDataSource", () => {
+  const logger = { debug: jest.fn() } as unknown as Logger;
+  const env = "dev" as EnvironmentEnum;
+  let dir: string;
+  let dataSource: NarrativeDataSource;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "narrative-fixtures-test-"));
+    mkdirSync(join(dir, "dmps"));
+    writeFileSync(join(dir, "plans.json"), JSON.stringify([
+      { id: 1, dmpId: DMP_ID, modified: "2024-02-01 00:00:00", visibility: "PRIVATE" },
+      { id: 2, dmpId: "https://doi.org/11.11111/D4E5F6", modified: "2024-01-01 00:00:00", visibility: "PUBLIC" },
+    ]));
+    writeFileSync(join(dir, "collaborators.json"), JSON.stringify([
+      { dmpId: DMP_ID, email: "researcher@example.com", accessLevel: "OWN" },
+      { dmpId: "https://doi.org/11.11111/D4E5F6", email: "someone@example.com", accessLevel: "EDIT" },
+      { dmpId: "https://doi.org/11.11111/UNKNOWN", email: "researcher@example.com", accessLevel: "EDIT" },
+    ]));
+    writeFileSync(join(dir, "dmps", "v1.json"), JSON.stringify(maDMP("2024-01-01T00:00:00Z", "First draft")));
+    writeFileSync(join(dir, "dmps", "v2.json"), JSON.stringify(maDMP("2024-02-01T00:00:00Z")));
+    writeFileSync(join(dir, "dmps", "notes.txt"), "Not a maDMP");
+    dataSource = createLocalDataSource(dir);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("loads a Plan by its DMP id", async () => {
+    await expect(dataSource.loadPlan(logger, DMP_ID, env)).resolves.toEqual(
+      { id: 1, dmpId: DMP_ID, modified: "2024-02-01 00:00:00", visibility: "PRIVATE" }
+    );
+    await expect(dataSource.loadPlan(logger, "https://doi.org/11.11111/NOTFOUND", env)).resolves.toBeUndefined();
+  });
+
+  it("loads the user's access to the Plan they are a collaborator on", async () => {
+    const token = { email: "researcher@example.com" } as JWTAccessToken;
+    const other = { email: "someone@example.com" } as JWTAccessToken;
+
+    await expect(dataSource.loadPlanAccess(logger, token, DMP_ID, env)).resolves.toEqual(
+      { id: 1, dmpId: DMP_ID, accessLevel: "OWN" }
+    );
+    await expect(dataSource.loadPlanAccess(logger, other, DMP_ID, env)).resolves.toBeUndefined();
+    await expect(dataSource.loadPlanAccess(logger, undefined, DMP_ID, env)).resolves.toBeUndefined();
+  });
+
+  it("loads the most permissive access level when the user is listed more than once", async () => {
+    const dmpId = "https://doi.org/11.11111/D4E5F6";
+    writeFileSync(join(dir, "collaborators.json"), JSON.stringify([
+      { dmpId, email: "someone@example.com", accessLevel: "COMMENT" },
+      { dmpId, email: "someone@example.com", accessLevel: "OWN" },
+      { dmpId, email: "someone@example.com", accessLevel: "EDIT" },
+    ]));
+    const token = { email: "someone@example.com" } as JWTAccessToken;
+
+    await expect(dataSource.loadPlanAccess(logger, token, dmpId, env)).resolves.toEqual(
+      { id: 2, dmpId, accessLevel: "OWN" }
+    );
+  });
+
+  it("loads the latest or the requested version of the maDMP", async () => {
+    const latest = await dataSource.loadMaDMP(logger, "example.com", DMP_ID, null);
+    const first = await dataSource.loadMaDMP(logger, "example.com", DMP_ID, "2024-01-01T00:00:00Z");
+    const missing = await dataSource.loadMaDMP(logger, "example.com", DMP_ID, "2023-01-01T00:00:00Z");
+
+    expect(latest.dmp.modified).toBe("2024-02-01T00:00:00Z");
+    expect(first.dmp.title).toBe("First draft");
+    expect(missing).toBeUndefined();
+  });
+
+  it("loads every version of the maDMP from newest to oldest", async () => {
+    const versions = await dataSource.loadMaDMPVersions(logger, "example.com", DMP_ID);
+
+    expect(versions.map((version) => version.dmp.modified)).toEqual(["2024-02-01T00:00:00Z", "2024-01-01T00:00:00Z"]);
+    await expect(dataSource.loadMaDMPVersions(logger, "example.com", "https://doi.org/11.11111/D4E5F6"))
+      .resolves.toEqual([]);
+  });
+
+  it("uses the latest maDMP in place of generating one and never writes to the directory", async () => {
+    const plan = await dataSource.loadPlan(logger, DMP_ID, env);
+    const before = readdirSync(join(dir, "dmps"));
+
+    const generated = await dataSource.generateMaDMP(logger, env, "narrative-generator", "example.com", plan);
+    await dataSource.saveMaDMP(logger, "example.com", DMP_ID, maDMP("2024-03-01T00:00:00Z"), true);
+
+    expect(generated.dmp.modified).toBe("2024-02-01T00:00:00Z");
+    expect(readdirSync(join(dir, "dmps"))).toEqual(before);
+    await expect(dataSource.loadMaDMP(logger, "example.com", DMP_ID, null)).resolves.toEqual(generated);
+  });
+
+  it("records the share links in memory", async () => {
+    const link = {
+      id: "link-1",
+      dmpId: DMP_ID,
+      formats: ["pdf"],
+      version: null,
+      redaction: "none" as const,
+      expires: Math.floor(Date.now() / 1000) + 60,
+      createdBy: 1,
+    };
+    const creator = { id: 1, email: "researcher@example.com", role: "RESEARCHER", affiliationId: "ror-1" };
+
+    await dataSource.saveShareLink(logger, link, creator);
+    await expect(dataSource.revokeShareLink(logger, "link-1")).resolves.toBe(true);
+
+    await expect(dataSource.loadShareLink(logger, "link-1")).resolves.toEqual({ ...link, revoked: true, creator });
+    await expect(createLocalDataSource(dir).loadShareLink(logger, "link-1")).resolves.toBeUndefined();
+  });
+
+  it("records the render jobs in memory", async () => {
+    const job = {
+      id: "job-1",
+      dmpId: DMP_ID,
+      format: "pdf",
+      status: "done" as const,
+      created: "2024-01-01T00:00:00.000Z",
+      updated: "2024-01-01T00:00:00.000Z",
+    };
+
+    await dataSource.saveRenderJob(logger, job, Math.floor(Date.now() / 1000) + 60);
+
+    await expect(dataSource.loadRenderJob(logger, "job-1")).resolves.toEqual(job);
+    await expect(createLocalDataSource(dir).loadRenderJob(logger, "job-1")).resolves.toBeUndefined();
+  });
+
+  it("treats missing fixture files as empty", async () => {
+    const empty = createLocalDataSource(join(dir, "missing"));
+
+    await expect(empty.loadPlan(logger, DMP_ID, env)).resolves.toBeUndefined();
+    await expect(empty.loadMaDMPVersions(logger, "example.com", DMP_ID)).resolves.toEqual([]);
+  });
+
+  it("checks that the fixtures directory exists", async () => {
+    const checks = dataSource.readinessChecks(logger, env, "example.com");
+    const missingChecks = createLocalDataSource(join(dir, "missing")).readinessChecks(logger, env, "example.com");
+
+    expect(Object.keys(checks)).toEqual(["fixtures"]);
+    await expect(checks.fixtures()).resolves.toBeUndefined();
+    await expect(missingChecks.fixtures()).rejects.toThrow("ENOENT");
+  });
+
+  it("includes valid example fixtures", async () => {
+    const fixtures = join(__dirname, "..", "..", "fixtures");
+    const plans = JSON.parse(readFileSync(join(fixtures, "plans.json"), "utf8"));
+    const examples = createLocalDataSource(fixtures);
+
+    for (const plan of plans) {
+      const versions = await examples.loadMaDMPVersions(logger, "example.com", plan.dmpId);
+      expect(versions.length).toBeGreaterThan(0);
+      versions.forEach((version) => expect(validateMaDMP(version)).toEqual([]));
+    }
+  });
+});
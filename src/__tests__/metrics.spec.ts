@@ -0,0 +1,111 @@
+import express from "express";
+import request from "supertest";
+import {
+  metricsRegistry,
+  recordDocument,
+  recordPermissionDenial,
+  recordRegeneration,
+  registerBrowserPoolMetrics,
+  registerRDSPoolMetrics,
+  registerRenderQueueMetrics,
+  timeStage,
+  trackRequestMetrics
+} from "../metrics";
+
+// Returns the value of the metric with the matching labels (or undefined)
+const metricValue = async (name: string, labels: Record<string, string> = {}): Promise<number | undefined> => {
+  const metric = await metricsRegistry.getSingleMetric(name).get();
+  const match = metric.values.find((value) => {
+    return Object.entries(labels).every(([key, label]) => value.labels[key] === label);
+  });
+  return match?.value;
+};
+
+describe("metrics", () => {
+  beforeEach(() => {
+    metricsRegistry.resetMetrics();
+  });
+
+  it("times each request by route and counts the status codes", async () => {
+    const app = express();
+    app.use(trackRequestMetrics);
+    app.get("/dmps/{*splat}/narrative", (_req, res) => { res.status(404).send("DMP not found"); });
+
+    await request(app).get("/dmps/11.11111/A1B2C3/narrative");
+    await request(app).get("/unknown");
+
+    const labels = { method: "GET", route: "/dmps/{*splat}/narrative", status: "404" };
+    expect(await metricValue("narrative_request_duration_seconds", { ...labels, le: "+Inf" })).toBe(1);
+    expect(await metricValue("narrative_request_duration_seconds", { route: "unmatched", le: "+Inf" })).toBe(1);
+    expect(await metricValue("narrative_responses_total", { status: "404" })).toBe(2);
+  });
+
+  it("times a stage and records whether it succeeded", async () => {
+    await expect(timeStage("loadPlan", async () => "plan")).resolves.toBe("plan");
+    await expect(timeStage("renderHTML", () => "<html></html>")).resolves.toBe("<html></html>");
+    await expect(timeStage("renderPDF", async () => { throw new Error("Render failed"); })).rejects.toThrow();
+
+    const count = (stage: string, outcome: string) => metricValue(
+      "narrative_stage_duration_seconds",
+      { stage, outcome, le: "+Inf" }
+    );
+    expect(await count("loadPlan", "success")).toBe(1);
+    expect(await count("renderHTML", "success")).toBe(1);
+    expect(await count("renderPDF", "error")).toBe(1);
+  });
+
+  it("counts the documents, permission denials and regenerations", async () => {
+    recordDocument("pdf");
+    recordDocument("pdf");
+    recordDocument("html");
+    recordPermissionDenial();
+    recordRegeneration("outdated");
+
+    expect(await metricValue("narrative_documents_total", { format: "pdf" })).toBe(2);
+    expect(await metricValue("narrative_documents_total", { format: "html" })).toBe(1);
+    expect(await metricValue("narrative_permission_denials_total")).toBe(1);
+    expect(await metricValue("narrative_madmp_regenerations_total", { reason: "outdated" })).toBe(1);
+  });
+
+  it("reads the browser pool and render queue stats when collected", async () => {
+    const poolStats = {
+      browsers: 1,
+      activePages: 2,
+      idlePages: 0,
+      queued: 3,
+      renders: 10,
+      launches: 2,
+      restarts: 1,
+      crashes: 0,
+    };
+    const queueStats = { running: 4, queued: 5, rejected: 6 };
+    registerBrowserPoolMetrics(() => poolStats);
+    registerRenderQueueMetrics(() => queueStats);
+
+    expect(await metricValue("narrative_browser_pool_active_pages")).toBe(2);
+    expect(await metricValue("narrative_browser_pool_queued_renders")).toBe(3);
+    expect(await metricValue("narrative_render_queue_queued")).toBe(5);
+
+    queueStats.queued = 0;
+    expect(await metricValue("narrative_render_queue_queued")).toBe(0);
+
+    const text = await metricsRegistry.metrics();
+    expect(text).toContain("# TYPE narrative_browser_pool_active_pages gauge");
+    expect(text).toContain("# TYPE narrative_browser_pool_crashes_total counter");
+    expect(text).toContain("# TYPE narrative_render_queue_rejected_total counter");
+    expect(text).toContain("narrative_browser_pool_renders_total 10");
+    expect(text).toContain("narrative_render_queue_rejected_total 6");
+
+    queueStats.rejected = 8;
+    expect(await metricValue("narrative_render_queue_rejected_total")).toBe(8);
+  });
+
+  it("reads the RDS pool stats when collected", async () => {
+    const rdsStats = { connections: 3, active: 2, idle: 1, queued: 0 };
+    registerRDSPoolMetrics(() => rdsStats);
+
+    expect(await metricValue("narrative_rds_pool_active")).toBe(2);
+    rdsStats.queued = 4;
+    expect(await metricValue("narrative_rds_pool_queued")).toBe(4);
+  });
+});
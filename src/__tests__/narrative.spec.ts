@@ -0,0 +1,219 @@
+import { Logger } from "pino";
+import { DMPToolDMPType } from "@dmptool/types";
+import {
+  CSV_TYPE,
+  defaultFormat,
+  DOCX_TYPE,
+  HTML_TYPE,
+  JSON_TYPE,
+  narrativeETag,
+  narrativeFilename,
+  PDF_TYPE,
+  renderNarrative,
+  selectFormat,
+  TXT_TYPE
+} from "../narrative";
+import { OptionsInterface } from "../options";
+import { renderCSV } from "../csv";
+import { renderHTML } from "../html";
+import { renderPDF } from "../pdf";
+import { renderDOCX } from "../docx";
+import { renderTXT } from "../txt";
+import { metricsRegistry } from "../metrics";
+
+jest.mock("../csv", () => ({ renderCSV: jest.fn() }));
+jest.mock("../html", () => ({ renderHTML: jest.fn() }));
+jest.mock("../pdf", () => ({ renderPDF: jest.fn(), getBrowserPoolStats: jest.fn() }));
+jest.mock("../docx", () => ({ renderDOCX: jest.fn() }));
+jest.mock("../txt", () => ({ renderTXT: jest.fn() }));
+
+describe("narrative", () => {
+  const mockLogger = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  } as unknown as Logger;
+
+  const options: OptionsInterface = {
+    version: null,
+    display: {
+      includeCoverPage: true,
+      includeSectionHeadings: true,
+      includeQuestionText: true,
+      includeUnansweredQuestions: true,
+      includeResearchOutputs: true,
+      includeRelatedWorks: true,
+    },
+    margin: { marginTop: 76, marginRight: 96, marginBottom: 76, marginLeft: 96 },
+    font: { fontFamily: "Tinos, serif", fontSize: "15px", lineHeight: 120 },
+  };
+
+  const dmp = { title: "Test DMP" } as DMPToolDMPType["dmp"];
+
+  beforeEach(() => {
+    (renderCSV as jest.Mock).mockReturnValue("column1\nvalue1");
+    (renderHTML as jest.Mock).mockReturnValue("<html>Test</html>");
+    (renderPDF as jest.Mock).mockResolvedValue(Buffer.from("PDF content"));
+    (renderDOCX as jest.Mock).mockResolvedValue(Buffer.from("DOCX content"));
+    (renderTXT as jest.Mock).mockResolvedValue(Buffer.from("TXT content"));
+  });
+
+  describe("narrativeFilename", () => {
+    it("uses the title as the filename", () => {
+      expect(narrativeFilename("My DMP: Draft", null, "pdf")).toBe("My-DMP-Draft.pdf");
+    });
+
+    it("falls back to a default name when there is no title", () => {
+      expect(narrativeFilename(undefined, null, "docx")).toBe("document.docx");
+    });
+
+    it("appends the version when one is provided", () => {
+      expect(narrativeFilename("My DMP", "2024-01-23T16:24:56Z", "pdf"))
+        .toBe("My-DMP-2024-01-23T16-24-56Z.pdf");
+    });
+  });
+
+  describe("narrativeETag", () => {
+    it("returns the same weak ETag for the same inputs", () => {
+      const etag = narrativeETag("2024-01-01T00:00:00Z", PDF_TYPE, options);
+
+      expect(etag).toMatch(/^W\/"[\w-]+"$/);
+      expect(narrativeETag("2024-01-01T00:00:00Z", PDF_TYPE, { ...options })).toBe(etag);
+    });
+
+    it("changes when the modified date, format, options or redaction change", () => {
+      const etag = narrativeETag("2024-01-01T00:00:00Z", PDF_TYPE, options);
+
+      expect(narrativeETag("2024-01-02T00:00:00Z", PDF_TYPE, options)).not.toBe(etag);
+      expect(narrativeETag("2024-01-01T00:00:00Z", DOCX_TYPE, options)).not.toBe(etag);
+      expect(narrativeETag("2024-01-01T00:00:00Z", PDF_TYPE, { ...options, version: "2024-01-01T00:00:00Z" }))
+        .not.toBe(etag);
+      expect(narrativeETag("2024-01-01T00:00:00Z", PDF_TYPE, {
+        ...options,
+        margin: { ...options.margin, marginTop: 10 },
+      })).not.toBe(etag);
+      expect(narrativeETag("2024-01-01T00:00:00Z", PDF_TYPE, options, "identifiers")).not.toBe(etag);
+    });
+  });
+
+  describe("selectFormat", () => {
+    it("uses the file extension when one is provided", () => {
+      expect(selectFormat("pdf", "text/html")).toBe(PDF_TYPE);
+      expect(selectFormat("DOCX", undefined)).toBe(DOCX_TYPE);
+    });
+
+    it("defaults to HTML for unknown extensions", () => {
+      expect(selectFormat("xyz", undefined)).toBe(HTML_TYPE);
+    });
+
+    it("uses the Accept header when there is no extension", () => {
+      expect(selectFormat(undefined, "text/csv")).toBe(CSV_TYPE);
+      expect(selectFormat(undefined, "text/plain")).toBe(TXT_TYPE);
+    });
+
+    it("defaults to HTML when there is no Accept header", () => {
+      expect(selectFormat(undefined, undefined)).toBe(HTML_TYPE);
+    });
+
+    it("returns undefined when the requested type is not supported", () => {
+      expect(selectFormat(undefined, "application/unsupported")).toBeUndefined();
+    });
+
+    it("uses the configured default format for */*", () => {
+      process.env.DEFAULT_NARRATIVE_FORMAT = "pdf";
+      expect(selectFormat(undefined, "*/*")).toBe(PDF_TYPE);
+      expect(selectFormat(undefined, undefined)).toBe(PDF_TYPE);
+      delete process.env.DEFAULT_NARRATIVE_FORMAT;
+    });
+  });
+
+  describe("defaultFormat", () => {
+    afterEach(() => {
+      delete process.env.DEFAULT_NARRATIVE_FORMAT;
+    });
+
+    it("defaults to HTML", () => {
+      expect(defaultFormat()).toBe(HTML_TYPE);
+    });
+
+    it("accepts a file extension or a media type", () => {
+      process.env.DEFAULT_NARRATIVE_FORMAT = "DOCX";
+      expect(defaultFormat()).toBe(DOCX_TYPE);
+      process.env.DEFAULT_NARRATIVE_FORMAT = "text/csv";
+      expect(defaultFormat()).toBe(CSV_TYPE);
+    });
+
+    it("falls back to HTML when the configured format is not supported", () => {
+      process.env.DEFAULT_NARRATIVE_FORMAT = "xml";
+      expect(defaultFormat()).toBe(HTML_TYPE);
+    });
+  });
+
+  describe("renderNarrative", () => {
+    it("renders CSV", async () => {
+      const doc = await renderNarrative(mockLogger, CSV_TYPE, options, dmp);
+
+      expect(doc).toEqual({ contentType: CSV_TYPE, extension: "csv", body: "column1\nvalue1" });
+      expect(renderCSV).toHaveBeenCalledWith(options.display, dmp);
+    });
+
+    it("renders DOCX as an attachment", async () => {
+      const doc = await renderNarrative(mockLogger, DOCX_TYPE, options, dmp);
+
+      expect(doc.body).toEqual(Buffer.from("DOCX content"));
+      expect(doc.disposition).toBe('attachment; filename="Test-DMP.docx"');
+      expect(renderDOCX).toHaveBeenCalledWith(
+        mockLogger,
+        "Test DMP",
+        "<html>Test</html>",
+        options.margin,
+        options.font
+      );
+    });
+
+    it("renders HTML", async () => {
+      const doc = await renderNarrative(mockLogger, HTML_TYPE, options, dmp);
+
+      expect(doc).toEqual({ contentType: HTML_TYPE, extension: "html", body: "<html>Test</html>" });
+      expect(renderHTML).toHaveBeenCalledWith(options.display, options.margin, options.font, dmp, null);
+    });
+
+    it("renders JSON", async () => {
+      const doc = await renderNarrative(mockLogger, JSON_TYPE, options, dmp);
+
+      expect(doc).toEqual({ contentType: JSON_TYPE, extension: "json", body: JSON.stringify(dmp) });
+    });
+
+    it("renders PDF inline and includes the version in the filename", async () => {
+      const version = "2024-01-23T16:24:56Z";
+      const doc = await renderNarrative(mockLogger, PDF_TYPE, { ...options, version }, dmp);
+
+      expect(doc.body).toEqual(Buffer.from("PDF content"));
+      expect(doc.disposition).toBe('inline; filename="Test-DMP-2024-01-23T16-24-56Z.pdf"');
+      expect(renderHTML).toHaveBeenCalledWith(options.display, options.margin, options.font, dmp, version);
+    });
+
+    it("renders TXT", async () => {
+      const doc = await renderNarrative(mockLogger, TXT_TYPE, options, dmp);
+
+      expect(doc).toEqual({ contentType: TXT_TYPE, extension: "txt", body: Buffer.from("TXT content") });
+      expect(renderTXT).toHaveBeenCalledWith("<html>Test</html>");
+    });
+
+    it("times the HTML and PDF renderers", async () => {
+      metricsRegistry.resetMetrics();
+      await renderNarrative(mockLogger, PDF_TYPE, options, dmp);
+
+      const metric = await metricsRegistry.getSingleMetric("narrative_stage_duration_seconds").get();
+      const stages = metric.values
+        .filter((value) => value.labels.le === "+Inf" && value.value > 0)
+        .map((value) => value.labels.stage);
+      expect(stages.sort()).toEqual(["renderHTML", "renderPDF"]);
+    });
+
+    it("returns undefined for unsupported formats", async () => {
+      expect(await renderNarrative(mockLogger, "application/unsupported", options, dmp)).toBeUndefined();
+    });
+  });
+});
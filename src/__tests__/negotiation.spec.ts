@@ -0,0 +1,76 @@
+import { negotiateMediaType, parseAccept } from "../negotiation";
+
+describe("parseAccept", () => {
+  it("parses media ranges with their weights", () => {
+    expect(parseAccept("text/html, application/*;q=0.5, */*;q=0.1")).toEqual([
+      { type: "text", subtype: "html", q: 1, index: 0 },
+      { type: "application", subtype: "*", q: 0.5, index: 1 },
+      { type: "*", subtype: "*", q: 0.1, index: 2 },
+    ]);
+  });
+
+  it("ignores other params and extension params after the weight", () => {
+    expect(parseAccept("Text/HTML;level=1;q=0.7;v=b3")).toEqual([
+      { type: "text", subtype: "html", q: 0.7, index: 0 },
+    ]);
+  });
+
+  it("skips malformed ranges and invalid weights", () => {
+    expect(parseAccept("text, */html, text/csv;q=2, text/plain;q=abc, application/pdf")).toEqual([
+      { type: "application", subtype: "pdf", q: 1, index: 4 },
+    ]);
+  });
+});
+
+describe("negotiateMediaType", () => {
+  const supported = ["text/html", "application/pdf", "text/csv", "application/json"];
+  const defaultType = "text/html";
+
+  it("returns the default type when there is no Accept header", () => {
+    expect(negotiateMediaType(undefined, supported, defaultType)).toBe("text/html");
+    expect(negotiateMediaType("  ", supported, "application/pdf")).toBe("application/pdf");
+  });
+
+  it("returns the default type for */*", () => {
+    expect(negotiateMediaType("*/*", supported, "application/json")).toBe("application/json");
+  });
+
+  it("prefers the type with the highest weight", () => {
+    expect(negotiateMediaType("text/html;q=0.5, application/pdf", supported, defaultType))
+      .toBe("application/pdf");
+    expect(negotiateMediaType("application/pdf;q=0.5, */*", supported, defaultType))
+      .toBe("text/html");
+  });
+
+  it("uses the weight of the most specific matching range", () => {
+    expect(negotiateMediaType("text/*;q=0.9, text/html;q=0.1, text/csv;q=0.5", supported, defaultType))
+      .toBe("text/csv");
+  });
+
+  it("matches type wildcards", () => {
+    expect(negotiateMediaType("application/*", supported, defaultType)).toBe("application/pdf");
+    expect(negotiateMediaType("application/*", supported, "application/json")).toBe("application/json");
+  });
+
+  it("prefers explicitly listed types over wildcards with the same weight", () => {
+    expect(negotiateMediaType("*/*, text/csv", supported, defaultType)).toBe("text/csv");
+  });
+
+  it("breaks ties using the order of the Accept header", () => {
+    expect(negotiateMediaType("text/csv, application/pdf", supported, defaultType)).toBe("text/csv");
+  });
+
+  it("treats a weight of 0 as not acceptable", () => {
+    expect(negotiateMediaType("text/html;q=0, */*;q=0.1", supported, defaultType)).toBe("application/pdf");
+    expect(negotiateMediaType("application/pdf;q=0", supported, defaultType)).toBeUndefined();
+  });
+
+  it("returns undefined when none of the supported types are acceptable", () => {
+    expect(negotiateMediaType("image/png, application/xml", supported, defaultType)).toBeUndefined();
+  });
+
+  it("handles a typical browser Accept header", () => {
+    const accept = "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8";
+    expect(negotiateMediaType(accept, supported, "application/pdf")).toBe("text/html");
+  });
+});
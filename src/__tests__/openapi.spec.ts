@@ -0,0 +1,100 @@
+import { API_VERSION, buildOpenAPIDocument } from "../openapi";
+import { EXTENSION_TYPES, SUPPORTED_TYPES } from "../narrative";
+import { parseOptions, QUERY_PARAMS } from "../options";
+
+jest.mock("../csv", () => ({ renderCSV: jest.fn() }));
+jest.mock("../pdf", () => ({ renderPDF: jest.fn() }));
+
+describe("buildOpenAPIDocument", () => {
+  const doc = buildOpenAPIDocument();
+  const getNarrative = doc.paths["/dmps/{dmpId}/narrative"].get;
+
+  // Collect every `$ref` in the document
+  const findRefs = (obj: unknown): string[] => {
+    if (!obj || typeof obj !== "object") return [];
+    return Object.entries(obj).flatMap(([key, value]) => {
+      return key === "$ref" ? [value as string] : findRefs(value);
+    });
+  };
+
+  it("is an OpenAPI 3.1 document with the package version", () => {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const pkg = require("../../package.json");
+
+    expect(doc.openapi).toBe("3.1.0");
+    expect(doc.info.version).toBe(API_VERSION);
+    expect(API_VERSION).toBe(pkg.version);
+  });
+
+  it("documents every rendering option in OptionsInterface", () => {
+    const { options } = parseOptions(undefined);
+    const optionNames = [
+      "version",
+      ...Object.keys(options.display),
+      ...Object.keys(options.margin),
+      ...Object.keys(options.font),
+    ];
+    const paramNames = getNarrative.parameters
+      .filter((param) => param.in === "query")
+      .map((param) => param.name);
+
+    expect(paramNames.sort()).toEqual(optionNames.sort());
+    expect(paramNames).toHaveLength(QUERY_PARAMS.length);
+  });
+
+  it("documents the allowed ranges of the rendering options", () => {
+    const fontSize = getNarrative.parameters.find((param) => param.name === "fontSize");
+
+    expect(fontSize.schema).toEqual({ type: "number", minimum: 8, maximum: 14, default: 11 });
+  });
+
+  it("does not document the version for uploaded maDMPs", () => {
+    const params = doc.paths["/narrative"].post.parameters.map((param) => param.name);
+
+    expect(params).not.toContain("version");
+  });
+
+  it("documents each of the supported formats", () => {
+    const content = getNarrative.responses["200"].content;
+    const ext = doc.paths["/dmps/{dmpId}/narrative.{ext}"].get.parameters.find((param) => param.name === "ext");
+
+    expect(Object.keys(content)).toEqual(SUPPORTED_TYPES);
+    expect(Object.values(EXTENSION_TYPES).every((type) => SUPPORTED_TYPES.includes(type))).toBe(true);
+    expect(ext.schema.enum).toEqual(Object.keys(EXTENSION_TYPES));
+    expect(doc.components.schemas.NotAcceptable.properties.supportedTypes.items.enum).toEqual(SUPPORTED_TYPES);
+  });
+
+  it("documents the error responses", () => {
+    expect(Object.keys(getNarrative.responses)).toEqual(["200", "400", "401", "403", "404", "406", "500"]);
+  });
+
+  it("documents the cookie, Bearer and share link auth schemes", () => {
+    expect(doc.components.securitySchemes).toEqual({
+      bearerAuth: expect.objectContaining({ type: "http", scheme: "bearer", bearerFormat: "JWT" }),
+      cookieAuth: expect.objectContaining({ type: "apiKey", in: "cookie", name: "dmspt" }),
+      shareLink: expect.objectContaining({ type: "apiKey", in: "query", name: "share" }),
+    });
+    // Auth is optional since public DMPs can be rendered by anyone
+    expect(getNarrative.security).toEqual([{}, { bearerAuth: [] }, { cookieAuth: [] }, { shareLink: [] }]);
+    // Only signed in users can save a refreshed maDMP record
+    expect(doc.paths["/dmps/{dmpId}/narrative/refresh"].post.security).toEqual([{ bearerAuth: [] }, { cookieAuth: [] }]);
+  });
+
+  it("documents the share links", () => {
+    const share = doc.paths["/dmps/{dmpId}/narrative/share"].post;
+
+    // Only signed in users can create or revoke a share link
+    expect(share.security).toEqual([{ bearerAuth: [] }, { cookieAuth: [] }]);
+    expect(doc.paths["/dmps/{dmpId}/narrative/share/{linkId}"].delete.security).toEqual(share.security);
+  });
+
+  it("only references schemas that exist", () => {
+    const refs = findRefs(doc);
+
+    expect(refs.length).toBeGreaterThan(0);
+    refs.forEach((ref) => {
+      const name = ref.replace("#/components/schemas/", "");
+      expect(doc.components.schemas[name]).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { parseOptions, QUERY_PARAMS } from "../options";
+
+describe("parseOptions", () => {
+  it("uses the defaults when no query params are provided", () => {
+    const { options, errors } = parseOptions(undefined);
+
+    expect(errors).toEqual([]);
+    expect(options).toEqual({
+      version: null,
+      display: {
+        includeCoverPage: true,
+        includeSectionHeadings: true,
+        includeQuestionText: true,
+        includeUnansweredQuestions: true,
+        includeResearchOutputs: true,
+        includeRelatedWorks: true,
+      },
+      margin: { marginTop: 76, marginRight: 96, marginBottom: 76, marginLeft: 96 },
+      font: { fontFamily: "Tinos, serif", fontSize: "15px", lineHeight: 120 },
+    });
+  });
+
+  it("converts valid query params", () => {
+    const { options, errors } = parseOptions({
+      version: " 2025-08-26T10:43:12Z ",
+      includeCoverPage: "no",
+      includeRelatedWorks: "0",
+      fontFamily: "'Roboto'",
+      fontSize: "14",
+      lineHeight: "150",
+      marginLeft: "5",
+      // Params that are not rendering options are ignored
+      other: "abc",
+    });
+
+    expect(errors).toEqual([]);
+    expect(options.version).toBe("2025-08-26T10:43:12Z");
+    expect(options.display.includeCoverPage).toBe(false);
+    expect(options.display.includeRelatedWorks).toBe(false);
+    expect(options.display.includeQuestionText).toBe(true);
+    expect(options.font).toEqual({ fontFamily: "Roboto, sans-serif", fontSize: "19px", lineHeight: 150 });
+    expect(options.margin.marginLeft).toBe(5);
+  });
+
+  it("treats empty values as missing", () => {
+    const { options, errors } = parseOptions({ fontSize: " ", version: "" });
+
+    expect(errors).toEqual([]);
+    expect(options.version).toBeNull();
+    expect(options.font.fontSize).toBe("15px");
+  });
+
+  it("lists each invalid query param and its allowed values", () => {
+    const { options, errors } = parseOptions({
+      version: "yesterday",
+      includeCoverPage: "maybe",
+      fontFamily: "comic sans",
+      fontSize: "20",
+      lineHeight: "abc",
+      marginTop: "-5",
+      marginLeft: ["5", "10"],
+    });
+
+    expect(errors).toEqual([
+      { param: "version", message: "version must be formatted like 2025-08-26T10:43:12Z" },
+      { param: "includeCoverPage", message: "includeCoverPage must be one of true, false, yes, no, 1, 0, on, off" },
+      { param: "fontFamily", message: "fontFamily must be one of tinos, roboto" },
+      { param: "fontSize", message: "fontSize must be a number from 8 to 14" },
+      { param: "lineHeight", message: "lineHeight must be a number from 100 to 200" },
+      { param: "marginTop", message: "marginTop must be a number from 0 to 200" },
+      { param: "marginLeft", message: "marginLeft must only be specified once" },
+    ]);
+    // The defaults are used for the invalid params
+    expect(options.margin.marginTop).toBe(76);
+  });
+
+  it("defines a default for every rendering option except the version", () => {
+    QUERY_PARAMS.filter((definition) => definition.name !== "version").forEach((definition) => {
+      expect(definition.default).toBeDefined();
+    });
+  });
+});
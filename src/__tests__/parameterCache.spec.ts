@@ -0,0 +1,59 @@
+import { createParameterCache } from "../parameterCache";
+
+describe("createParameterCache", () => {
+  let time: number;
+  const now = () => time;
+
+  beforeEach(() => {
+    time = 0;
+  });
+
+  it("caches the value until it expires", async () => {
+    const cache = createParameterCache(60, now);
+    const load = jest.fn().mockResolvedValueOnce("first").mockResolvedValueOnce("second");
+
+    await expect(cache.get("password", load)).resolves.toBe("first");
+    time = 59_999;
+    await expect(cache.get("password", load)).resolves.toBe("first");
+    time = 60_000;
+    await expect(cache.get("password", load)).resolves.toBe("second");
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it("caches each key separately", async () => {
+    const cache = createParameterCache(60, now);
+
+    await cache.get("user", async () => "admin");
+
+    await expect(cache.get("password", async () => "secret")).resolves.toBe("secret");
+    await expect(cache.get("user", async () => "other")).resolves.toBe("admin");
+  });
+
+  it("shares a single lookup between concurrent calls", async () => {
+    const cache = createParameterCache(60, now);
+    const load = jest.fn(async () => "secret");
+
+    const values = await Promise.all([cache.get("password", load), cache.get("password", load)]);
+
+    expect(values).toEqual(["secret", "secret"]);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not cache missing values or failed lookups", async () => {
+    const cache = createParameterCache(60, now);
+
+    await expect(cache.get("password", async () => undefined)).resolves.toBeUndefined();
+    await expect(cache.get("password", () => Promise.reject(new Error("Throttled")))).rejects.toThrow("Throttled");
+    await expect(cache.get("password", async () => "secret")).resolves.toBe("secret");
+  });
+
+  it("loads the values again once the cache is cleared", async () => {
+    const cache = createParameterCache(60, now);
+    const load = jest.fn().mockResolvedValueOnce("old").mockResolvedValueOnce("rotated");
+
+    await cache.get("password", load);
+    cache.clear();
+
+    await expect(cache.get("password", load)).resolves.toBe("rotated");
+  });
+});
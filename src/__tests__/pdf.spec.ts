@@ -1,4 +1,4 @@
-import { renderPDF } from "../pdf";
+import { getBrowserPoolStats, renderPDF, shutdownBrowserPool, warmBrowserPool } from "../pdf";
 import puppeteer, { Browser, Page } from "puppeteer";
 
 jest.mock("puppeteer");
@@ -28,6 +28,7 @@ describe("renderPdfWithPuppeteer", () => {
     mockBrowser = {
       newPage: jest.fn().mockResolvedValue(mockPage),
       close: jest.fn().mockResolvedValue(undefined),
+      on: jest.fn(),
       pages: jest.fn().mockResolvedValue([mockPage]),
       wsEndpoint: jest.fn(),
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -36,7 +37,9 @@ describe("renderPdfWithPuppeteer", () => {
     (puppeteer.launch as jest.Mock).mockResolvedValue(mockBrowser);
   });
 
-  afterEach(() => {
+  afterEach(async () => {
+    // Close the pooled browser so that each test starts with a fresh one
+    await shutdownBrowserPool();
     jest.clearAllMocks();
   });
 
@@ -70,22 +73,41 @@ describe("renderPdfWithPuppeteer", () => {
     expect(buf.equals(Buffer.from([1, 2, 3]))).toBe(true);
   });
 
-  it("closes the browser after generating PDF", async () => {
-    await renderPDF("<p>doc</p>");
-    expect(mockBrowser.close).toHaveBeenCalled();
+  it("reuses the browser and page for later PDFs", async () => {
+    const { renders } = getBrowserPoolStats();
+    await renderPDF("<p>first</p>");
+    await renderPDF("<p>second</p>");
+    expect(puppeteer.launch).toHaveBeenCalledTimes(1);
+    expect(mockBrowser.newPage).toHaveBeenCalledTimes(1);
+    expect(mockBrowser.close).not.toHaveBeenCalled();
+    expect(getBrowserPoolStats()).toEqual(expect.objectContaining({ browsers: 1, idlePages: 1, renders: renders + 2 }));
   });
 
-  it("still closes the browser if setContent throws", async () => {
+  it("closes the page but not the browser if setContent throws", async () => {
     mockPage.setContent.mockRejectedValueOnce(new Error("bad html"));
     await expect(renderPDF("<bad>"))
       .rejects.toThrow("bad html");
-    expect(mockBrowser.close).toHaveBeenCalled();
+    expect(mockPage.close).toHaveBeenCalled();
+    expect(mockBrowser.close).not.toHaveBeenCalled();
   });
 
-  it("still closes the browser if pdf generation fails", async () => {
+  it("closes the page but not the browser if pdf generation fails", async () => {
     mockPage.pdf.mockRejectedValueOnce(new Error("pdf failed"));
     await expect(renderPDF("<p>doc</p>"))
       .rejects.toThrow("pdf failed");
+    expect(mockPage.close).toHaveBeenCalled();
+    expect(mockBrowser.close).not.toHaveBeenCalled();
+  });
+
+  it("launches the browser ahead of time when warmed", async () => {
+    await warmBrowserPool();
+    expect(puppeteer.launch).toHaveBeenCalledTimes(1);
+    expect(mockBrowser.newPage).toHaveBeenCalledTimes(1);
+  });
+
+  it("closes the browser on shutdown", async () => {
+    await renderPDF("<p>doc</p>");
+    await shutdownBrowserPool();
     expect(mockBrowser.close).toHaveBeenCalled();
   });
 });
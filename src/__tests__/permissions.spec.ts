@@ -0,0 +1,287 @@
+import { DMPToolDMPType } from "@dmptool/types";
+import { EnvironmentEnum } from "@dmptool/utils";
+import { Logger } from "pino";
+import { loadPlanAccess, UserPlanInterface } from "../dataAccess";
+import { JWTAccessToken } from "../helper";
+import { EXTENSION_TYPES } from "../narrative";
+import {
+  checkNarrativeAccess,
+  DEFAULT_ACCESS_POLICY,
+  dmpAffiliationIds,
+  evaluateAccess,
+  loadAccessPolicy,
+  redactMaDMP,
+} from "../permissions";
+
+jest.mock("@dmptool/utils", () => ({
+  EnvironmentEnum: {
+    DEV: "dev",
+    STAGE: "stage",
+    PROD: "prod"
+  },
+}));
+
+jest.mock("../dataAccess", () => ({
+  loadPlanAccess: jest.fn(),
+}));
+
+const DMP_ID = "https://doi.org/11.11111/A1B2C3";
+
+// The contact and the second contributor both have several affiliations
+const maDMP = (privacy: string): DMPToolDMPType => ({
+  dmp: {
+    dmp_id: { identifier: DMP_ID, type: "doi" },
+    privacy,
+    contact: {
+      name: "Jane Doe",
+      mbox: "jane@example.com",
+      contact_id: [{ identifier: "https://orcid.org/0000-0000-0000-0001", type: "orcid" }],
+      affiliation: [
+        { name: "Contact University", affiliation_id: { identifier: "aff-contact", type: "ror" } },
+        { name: "Contact Institute", affiliation_id: { identifier: "aff-contact-2", type: "ror" } },
+      ],
+    },
+    contributor: [
+      {
+        name: "John Doe",
+        mbox: "john@example.com",
+        role: ["https://credit.niso.org/contributor-roles/investigation"],
+        contributor_id: { identifier: "https://orcid.org/0000-0000-0000-0002", type: "orcid" },
+        affiliation: [{ name: "Contributor University", affiliation_id: { identifier: "aff-contributor", type: "ror" } }],
+      },
+      {
+        name: "Sam Doe",
+        role: ["https://credit.niso.org/contributor-roles/data-curation"],
+        affiliation: [
+          { name: "Other University", affiliation_id: { identifier: "aff-other", type: "ror" } },
+          { name: "Contributor Institute", affiliation_id: { identifier: "aff-contributor-2", type: "ror" } },
+        ],
+      },
+    ],
+  },
+} as unknown as DMPToolDMPType);
+
+const token = (role: string, affiliationId = "aff-unrelated") => (
+  { id: 1, email: "user@example.com", role, affiliationId } as JWTAccessToken
+);
+
+const access = (accessLevel: string, dmpId = DMP_ID): UserPlanInterface => ({ id: 1, dmpId, accessLevel });
+
+describe("permissions", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("evaluateAccess", () => {
+    it.each([
+      // name, privacy, token, plan access, format, expected decision
+      ["anyone for public DMPs", "public", undefined, undefined, "json", true, "public", "none"],
+      ["anonymous callers for private DMPs", "private", undefined, undefined, "html", false, undefined, "none"],
+      ["researchers without access", "private", token("RESEARCHER"), undefined, "html", false, undefined, "none"],
+      ["superadmins", "private", token("SUPERADMIN"), undefined, "json", true, "role:SUPERADMIN", "none"],
+      ["admins of the contact's affiliation", "private", token("ADMIN", "aff-contact"), undefined, "pdf", true, "role:ADMIN", "none"],
+      ["admins of the contact's other affiliation", "private", token("ADMIN", "aff-contact-2"), undefined, "pdf", true, "role:ADMIN", "none"],
+      ["admins of a contributor's affiliation", "private", token("ADMIN", "aff-contributor"), undefined, "pdf", true, "role:ADMIN", "none"],
+      ["admins of a contributor's other affiliation", "private", token("ADMIN", "aff-contributor-2"), undefined, "pdf", true, "role:ADMIN", "none"],
+      ["admins of other affiliations", "private", token("ADMIN"), undefined, "pdf", false, undefined, "none"],
+      ["admins of other affiliations who are collaborators", "private", token("ADMIN"), access("EDIT"), "pdf", true, "accessLevel:EDIT", "none"],
+      ["owners", "private", token("RESEARCHER"), access("OWN"), "json", true, "accessLevel:OWN", "none"],
+      ["editors", "private", token("RESEARCHER"), access("EDIT"), "csv", true, "accessLevel:EDIT", "none"],
+      ["commenters", "private", token("RESEARCHER"), access("COMMENT"), "json", true, "accessLevel:COMMENT", "none"],
+      ["commenters in lower case", "private", token("RESEARCHER"), access("comment"), "csv", true, "accessLevel:COMMENT", "none"],
+      ["other access levels", "private", token("RESEARCHER"), access("VIEW"), "html", true, "accessLevel:VIEW", "none"],
+      ["collaborators on other DMPs", "private", token("RESEARCHER"), access("OWN", "https://doi.org/11.11111/OTHER"), "html", false, undefined, "none"],
+    ])("%s", (_, privacy, caller, planAccess, ext, allowed, rule, redaction) => {
+      const decision = evaluateAccess(DEFAULT_ACCESS_POLICY, maDMP(privacy), planAccess, caller, EXTENSION_TYPES[ext]);
+
+      expect({ allowed: decision.allowed, rule: decision.rule, redaction: decision.redaction })
+        .toEqual({ allowed, rule, redaction });
+    });
+
+    describe("with a policy that limits the commenters", () => {
+      const policy = loadAccessPolicy(JSON.stringify({
+        accessLevels: {
+          "*": null,
+          OWN: { formats: ["*"], redaction: "none" },
+          COMMENT: { formats: ["html", "pdf", "docx", "txt"], redaction: "identifiers" },
+        },
+      }));
+
+      it.each([
+        // name, privacy, token, plan access, format, expected decision
+        ["owners", "private", token("RESEARCHER"), access("OWN"), "json", true, "accessLevel:OWN", "none"],
+        ["commenters", "private", token("RESEARCHER"), access("COMMENT"), "pdf", true, "accessLevel:COMMENT", "identifiers"],
+        ["commenters for public DMPs", "public", token("RESEARCHER"), access("COMMENT"), "pdf", true, "public", "none"],
+        ["commenters in other formats for public DMPs", "public", token("RESEARCHER"), access("COMMENT"), "json", true, "public", "none"],
+        ["access levels without a rule", "private", token("RESEARCHER"), access("EDIT"), "html", false, undefined, "none"],
+      ])("%s", (_, privacy, caller, planAccess, ext, allowed, rule, redaction) => {
+        const decision = evaluateAccess(policy, maDMP(privacy), planAccess, caller, EXTENSION_TYPES[ext]);
+
+        expect({ allowed: decision.allowed, rule: decision.rule, redaction: decision.redaction })
+          .toEqual({ allowed, rule, redaction });
+      });
+
+      it("reports when the caller has access but not in the requested format", () => {
+        const decision = evaluateAccess(policy, maDMP("private"), access("COMMENT"), token("RESEARCHER"), EXTENSION_TYPES.json);
+
+        expect(decision).toEqual({ allowed: false, redaction: "none", formatNotAllowed: true });
+      });
+
+      it("allows any format that a rule allows when no format is requested", () => {
+        const decision = evaluateAccess(policy, maDMP("private"), access("COMMENT"), token("RESEARCHER"));
+
+        expect(decision).toEqual({ allowed: true, rule: "accessLevel:COMMENT", redaction: "identifiers" });
+      });
+    });
+
+    it("uses the rule with the least redaction", () => {
+      const policy = loadAccessPolicy(JSON.stringify({
+        roles: { ADMIN: { scope: "affiliation", formats: ["*"], redaction: "contributors" } },
+        accessLevels: { COMMENT: { formats: ["*"], redaction: "identifiers" } },
+      }));
+
+      const decision = evaluateAccess(policy, maDMP("private"), access("COMMENT"), token("ADMIN", "aff-contact"), EXTENSION_TYPES.pdf);
+
+      expect(decision).toEqual({ allowed: true, rule: "accessLevel:COMMENT", redaction: "identifiers" });
+    });
+  });
+
+  describe("dmpAffiliationIds", () => {
+    it("collects every affiliation of the contact and contributors", () => {
+      expect(dmpAffiliationIds(maDMP("private"))).toEqual([
+        "aff-contact",
+        "aff-contact-2",
+        "aff-contributor",
+        "aff-other",
+        "aff-contributor-2",
+      ]);
+    });
+
+    it("handles DMPs without contributors or affiliations", () => {
+      expect(dmpAffiliationIds({ dmp: { contact: { name: "Jane Doe" } } } as unknown as DMPToolDMPType)).toEqual([]);
+    });
+  });
+
+  describe("loadAccessPolicy", () => {
+    it("uses the default policy when none is defined", () => {
+      expect(loadAccessPolicy(undefined)).toBe(DEFAULT_ACCESS_POLICY);
+      expect(loadAccessPolicy(" ")).toBe(DEFAULT_ACCESS_POLICY);
+    });
+
+    it("merges the rules over the default policy", () => {
+      const policy = loadAccessPolicy(JSON.stringify({
+        accessLevels: { view: { formats: ["pdf"], redaction: "contributors" } },
+      }));
+
+      expect(policy.accessLevels.VIEW).toEqual({ formats: ["pdf"], redaction: "contributors" });
+      expect(policy.accessLevels["*"]).toEqual(DEFAULT_ACCESS_POLICY.accessLevels["*"]);
+      expect(policy.roles).toEqual(DEFAULT_ACCESS_POLICY.roles);
+    });
+
+    it("removes the rules that are set to null", () => {
+      const policy = loadAccessPolicy(JSON.stringify({ roles: { admin: null }, accessLevels: { "*": null } }));
+
+      expect(policy.roles).toEqual({ SUPERADMIN: DEFAULT_ACCESS_POLICY.roles.SUPERADMIN });
+      expect(policy.accessLevels).toEqual({});
+    });
+
+    it.each([
+      ["malformed JSON", "{", /Invalid NARRATIVE_ACCESS_POLICY/],
+      ["null", "null", /Invalid NARRATIVE_ACCESS_POLICY: must be a JSON object/],
+      ["a list", '[{"public": null}]', /Invalid NARRATIVE_ACCESS_POLICY: must be a JSON object/],
+      ["a string", '"public"', /Invalid NARRATIVE_ACCESS_POLICY: must be a JSON object/],
+      ["a number", "42", /Invalid NARRATIVE_ACCESS_POLICY: must be a JSON object/],
+      ["roles that are not an object", '{"roles": null}', /Invalid NARRATIVE_ACCESS_POLICY: roles must be a JSON object/],
+      ["access levels that are not an object", '{"accessLevels": ["OWN"]}', /Invalid NARRATIVE_ACCESS_POLICY: accessLevels must be a JSON object/],
+      ["unknown formats", '{"public": {"formats": ["rtf"], "redaction": "none"}}', /public must have a list of formats/],
+      ["unknown redaction levels", '{"accessLevels": {"VIEW": {"formats": ["*"], "redaction": "all"}}}', /accessLevels.VIEW must have a redaction/],
+      ["roles without a scope", '{"roles": {"AUDITOR": {"formats": ["*"], "redaction": "none"}}}', /roles.AUDITOR must have a scope/],
+    ])("rejects %s", (_, json, message) => {
+      expect(() => loadAccessPolicy(json)).toThrow(message);
+    });
+  });
+
+  describe("redactMaDMP", () => {
+    it("returns the record as is when nothing is redacted", () => {
+      const data = maDMP("private").dmp;
+
+      expect(redactMaDMP(data, "none")).toBe(data);
+    });
+
+    it("removes the email addresses and identifiers", () => {
+      const data = maDMP("private").dmp;
+      const redacted = redactMaDMP(data, "identifiers");
+
+      expect(redacted.contact).toEqual({ name: "Jane Doe", affiliation: data.contact.affiliation });
+      expect(redacted.contributor.map((c) => c.name)).toEqual(["John Doe", "Sam Doe"]);
+      expect(redacted.contributor[0]).not.toHaveProperty("mbox");
+      expect(redacted.contributor[0]).not.toHaveProperty("contributor_id");
+      // The original record is unchanged
+      expect(data.contact.mbox).toBe("jane@example.com");
+    });
+
+    it("removes the contributors", () => {
+      const redacted = redactMaDMP(maDMP("private").dmp, "contributors");
+
+      expect(redacted.contributor).toBeUndefined();
+      expect(redacted.contact).not.toHaveProperty("mbox");
+      expect(redacted.dmp_id.identifier).toBe(DMP_ID);
+    });
+  });
+
+  describe("checkNarrativeAccess", () => {
+    const logger = { info: jest.fn(), debug: jest.fn() } as unknown as Logger;
+
+    it("does not look up the user's access for public DMPs", async () => {
+      const decision = await checkNarrativeAccess(logger, maDMP("public"), DMP_ID, token("RESEARCHER"));
+
+      expect(decision.allowed).toBe(true);
+      expect(loadPlanAccess).not.toHaveBeenCalled();
+    });
+
+    it("does not look up the user's access for superadmins or admins of the DMP's affiliations", async () => {
+      await checkNarrativeAccess(logger, maDMP("private"), DMP_ID, token("SUPERADMIN"));
+      await checkNarrativeAccess(logger, maDMP("private"), DMP_ID, token("ADMIN", "aff-contributor-2"));
+
+      expect(loadPlanAccess).not.toHaveBeenCalled();
+    });
+
+    it("does not look up the user's access for anonymous callers", async () => {
+      const decision = await checkNarrativeAccess(logger, maDMP("private"), DMP_ID, undefined);
+
+      expect(decision.allowed).toBe(false);
+      expect(loadPlanAccess).not.toHaveBeenCalled();
+    });
+
+    it("looks up the user's access to the requested DMP once", async () => {
+      const caller = token("RESEARCHER");
+      (loadPlanAccess as jest.Mock).mockResolvedValue(access("COMMENT"));
+
+      const decision = await checkNarrativeAccess(logger, maDMP("private"), DMP_ID, caller, EnvironmentEnum.DEV, EXTENSION_TYPES.pdf);
+
+      expect(decision).toEqual({ allowed: true, rule: "accessLevel:COMMENT", redaction: "none" });
+      expect(loadPlanAccess).toHaveBeenCalledTimes(1);
+      expect(loadPlanAccess).toHaveBeenCalledWith(logger, caller, DMP_ID, EnvironmentEnum.DEV);
+    });
+
+    it("denies access to researchers who are not collaborators", async () => {
+      (loadPlanAccess as jest.Mock).mockResolvedValue(undefined);
+
+      const decision = await checkNarrativeAccess(logger, maDMP("private"), DMP_ID, token("RESEARCHER"));
+
+      expect(decision.allowed).toBe(false);
+      expect(logger.info).not.toHaveBeenCalled();
+    });
+
+    it("logs the rule that granted access", async () => {
+      (loadPlanAccess as jest.Mock).mockResolvedValue(access("OWN"));
+
+      await checkNarrativeAccess(logger, maDMP("private"), DMP_ID, token("RESEARCHER"), EnvironmentEnum.DEV, EXTENSION_TYPES.json);
+
+      expect(logger.info).toHaveBeenCalledWith(
+        expect.objectContaining({ dmpId: DMP_ID, userId: 1, rule: "accessLevel:OWN", redaction: "none" }),
+        "Granted access to the narrative"
+      );
+    });
+  });
+});
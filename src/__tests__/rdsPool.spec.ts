@@ -0,0 +1,94 @@
+import { createPool } from "mysql2/promise";
+import { createRDSPool, RDSPoolOptions } from "../rdsPool";
+
+jest.mock("mysql2/promise", () => ({
+  createPool: jest.fn(),
+}));
+
+// A mysql2 pool along with the internal queues its stats are read from
+const mockPool = (connections = 0, free = 0, queued = 0) => ({
+  query: jest.fn().mockResolvedValue([[{ id: 1 }], [{ name: "id" }]]),
+  end: jest.fn().mockResolvedValue(undefined),
+  pool: {
+    _allConnections: { length: connections },
+    _freeConnections: { length: free },
+    _connectionQueue: { length: queued },
+  },
+});
+
+describe("createRDSPool", () => {
+  const options: RDSPoolOptions = {
+    connectionLimit: 5,
+    maxIdle: 2,
+    idleTimeoutSeconds: 30,
+    queueLimit: 10,
+    connectTimeoutSeconds: 3,
+  };
+  const config = { host: "localhost", port: 3306, user: "user", password: "secret", database: "dmp" };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("opens the pool on the first query and reuses it", async () => {
+    const pool = mockPool();
+    (createPool as jest.Mock).mockReturnValue(pool);
+    const rdsPool = createRDSPool(options);
+
+    expect(createPool).not.toHaveBeenCalled();
+    await expect(rdsPool.query(config, "SELECT id FROM plans WHERE dmpId = ?", ["dmp123"])).resolves.toEqual({
+      results: [{ id: 1 }],
+      fields: [{ name: "id" }],
+    });
+    await rdsPool.query(config, "SELECT 1", []);
+
+    expect(createPool).toHaveBeenCalledTimes(1);
+    expect(createPool).toHaveBeenCalledWith(expect.objectContaining({
+      ...config,
+      waitForConnections: true,
+      connectionLimit: 5,
+      maxIdle: 2,
+      idleTimeout: 30000,
+      queueLimit: 10,
+      connectTimeout: 3000,
+    }));
+    expect(pool.query).toHaveBeenCalledWith("SELECT id FROM plans WHERE dmpId = ?", ["dmp123"]);
+  });
+
+  it("replaces the pool when the credentials change", async () => {
+    const first = mockPool();
+    const second = mockPool();
+    (createPool as jest.Mock).mockReturnValueOnce(first).mockReturnValueOnce(second);
+    const rdsPool = createRDSPool(options);
+
+    await rdsPool.query(config, "SELECT 1", []);
+    await rdsPool.query({ ...config, password: "rotated" }, "SELECT 1", []);
+
+    expect(first.end).toHaveBeenCalled();
+    expect(second.query).toHaveBeenCalled();
+    expect(createPool).toHaveBeenLastCalledWith(expect.objectContaining({ password: "rotated" }));
+  });
+
+  it("reports the connections and queued queries", async () => {
+    (createPool as jest.Mock).mockReturnValue(mockPool(4, 1, 2));
+    const rdsPool = createRDSPool(options);
+
+    expect(rdsPool.stats()).toEqual({ connections: 0, active: 0, idle: 0, queued: 0 });
+    await rdsPool.query(config, "SELECT 1", []);
+
+    expect(rdsPool.stats()).toEqual({ connections: 4, active: 3, idle: 1, queued: 2 });
+  });
+
+  it("closes the pool and opens a new one on the next query", async () => {
+    const first = mockPool();
+    (createPool as jest.Mock).mockReturnValueOnce(first).mockReturnValueOnce(mockPool());
+    const rdsPool = createRDSPool(options);
+
+    await rdsPool.query(config, "SELECT 1", []);
+    await rdsPool.end();
+    await rdsPool.query(config, "SELECT 1", []);
+
+    expect(first.end).toHaveBeenCalled();
+    expect(createPool).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,60 @@
+import { Logger } from "pino";
+import { checkReadiness } from "../readiness";
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+describe("checkReadiness", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("reports every component as up", async () => {
+    const report = await checkReadiness(mockLogger, {
+      ssm: async () => undefined,
+      rds: async () => undefined,
+    }, 1000);
+
+    expect(report).toEqual({
+      status: "up",
+      checks: {
+        ssm: { status: "up", durationMs: expect.any(Number) },
+        rds: { status: "up", durationMs: expect.any(Number) },
+      },
+    });
+  });
+
+  it("reports the component that failed without returning the error details", async () => {
+    const err = new Error("connect ECONNREFUSED 10.0.0.1:3306");
+    const report = await checkReadiness(mockLogger, {
+      ssm: async () => undefined,
+      rds: async () => { throw err; },
+    }, 1000);
+
+    expect(report.status).toBe("down");
+    expect(report.checks.ssm.status).toBe("up");
+    expect(report.checks.rds).toEqual({ status: "down", durationMs: expect.any(Number), error: "Check failed" });
+    expect(mockLogger.warn).toHaveBeenCalledWith({ component: "rds", err }, "Readiness check failed");
+  });
+
+  it("reports a component as down when its check takes too long", async () => {
+    const report = await checkReadiness(mockLogger, {
+      browser: () => new Promise(() => undefined),
+    }, 20);
+
+    expect(report.status).toBe("down");
+    expect(report.checks.browser.error).toBe("Timed out after 20ms");
+  });
+
+  it("runs the checks at the same time", async () => {
+    const started = Date.now();
+    const slow = () => new Promise<void>((resolve) => setTimeout(resolve, 100));
+    await checkReadiness(mockLogger, { ssm: slow, rds: slow, dynamodb: slow }, 1000);
+
+    expect(Date.now() - started).toBeLessThan(250);
+  });
+});
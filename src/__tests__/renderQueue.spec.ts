@@ -0,0 +1,83 @@
+import { createRenderQueue, RenderQueueFullError, RenderQueueOptions } from "../renderQueue";
+
+// Lets a test decide when a render finishes
+const deferred = () => {
+  let resolve: (value: string) => void;
+  const promise = new Promise<string>((res) => { resolve = res; });
+  return { promise, resolve };
+};
+
+describe("createRenderQueue", () => {
+  const options: RenderQueueOptions = { concurrency: 2, maxQueued: 1, maxPerUser: 2, retryAfterSeconds: 15 };
+
+  it("runs the render and returns its result", async () => {
+    const queue = createRenderQueue(options);
+
+    await expect(queue.run(1, async () => "done")).resolves.toBe("done");
+    expect(queue.stats()).toEqual({ running: 0, queued: 0, rejected: 0 });
+  });
+
+  it("queues renders once the concurrency limit is reached and runs them in order", async () => {
+    const queue = createRenderQueue(options);
+    const renders = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+    const results = renders.map((render, idx) => queue.run(undefined, () => {
+      started.push(idx);
+      return render.promise;
+    }));
+
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(started).toEqual([0, 1]);
+    expect(queue.stats()).toEqual({ running: 2, queued: 1, rejected: 0 });
+
+    renders[1].resolve("second");
+    await results[1];
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(started).toEqual([0, 1, 2]);
+
+    renders[0].resolve("first");
+    renders[2].resolve("third");
+    await expect(Promise.all(results)).resolves.toEqual(["first", "second", "third"]);
+    expect(queue.stats()).toEqual({ running: 0, queued: 0, rejected: 0 });
+  });
+
+  it("rejects renders with a 503 when the queue is full", async () => {
+    const queue = createRenderQueue(options);
+    const render = deferred();
+    const results = [1, 2, 3].map((id) => queue.run(id, () => render.promise));
+
+    const err = await queue.run(4, async () => "too many").catch((e) => e);
+    expect(err).toBeInstanceOf(RenderQueueFullError);
+    expect(err.status).toBe(503);
+    expect(err.retryAfterSeconds).toBe(15);
+    expect(queue.stats().rejected).toBe(1);
+
+    render.resolve("done");
+    await Promise.all(results);
+  });
+
+  it("rejects renders with a 429 when the user has reached their limit", async () => {
+    const queue = createRenderQueue({ ...options, maxQueued: 10 });
+    const render = deferred();
+    const results = [queue.run(1, () => render.promise), queue.run("1", () => render.promise)];
+
+    const err = await queue.run(1, async () => "too many").catch((e) => e);
+    expect(err).toBeInstanceOf(RenderQueueFullError);
+    expect(err.status).toBe(429);
+    // Other users and anonymous callers are not affected
+    const others = [queue.run(2, () => render.promise), queue.run(undefined, () => render.promise)];
+
+    render.resolve("done");
+    await Promise.all([...results, ...others]);
+    // The user can render again once their renders are done
+    await expect(queue.run(1, async () => "again")).resolves.toBe("again");
+  });
+
+  it("releases the slot when a render fails", async () => {
+    const queue = createRenderQueue({ ...options, concurrency: 1, maxPerUser: 1 });
+
+    await expect(queue.run(1, async () => { throw new Error("Render failed"); })).rejects.toThrow("Render failed");
+    await expect(queue.run(1, async () => "done")).resolves.toBe("done");
+    expect(queue.stats()).toEqual({ running: 0, queued: 0, rejected: 0 });
+  });
+});
@@ -0,0 +1,44 @@
+import express from "express";
+import request from "supertest";
+import { assignRequestId, getRequestId } from "../requestId";
+
+describe("assignRequestId", () => {
+  const app = express();
+  app.use(assignRequestId);
+  app.get("/", (_, res) => {
+    res.json({ requestId: getRequestId(res) });
+  });
+
+  const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+  it("uses the caller's request id", async () => {
+    const response = await request(app).get("/").set("X-Request-Id", "support-ticket:123");
+
+    expect(response.headers["x-request-id"]).toBe("support-ticket:123");
+    expect(response.body.requestId).toBe("support-ticket:123");
+  });
+
+  it("generates a request id if the caller did not send one", async () => {
+    const response = await request(app).get("/");
+
+    expect(response.headers["x-request-id"]).toMatch(UUID);
+    expect(response.body.requestId).toBe(response.headers["x-request-id"]);
+  });
+
+  it("generates a new id for each request", async () => {
+    const first = await request(app).get("/");
+    const second = await request(app).get("/");
+
+    expect(first.headers["x-request-id"]).not.toBe(second.headers["x-request-id"]);
+  });
+
+  it.each([
+    ["too long", "a".repeat(129)],
+    ["contains spaces", "abc def"],
+    ["contains markup", "<script>alert(1)</script>"],
+  ])("replaces a request id that is %s", async (_, requestId) => {
+    const response = await request(app).get("/").set("X-Request-Id", requestId);
+
+    expect(response.headers["x-request-id"]).toMatch(UUID);
+  });
+});
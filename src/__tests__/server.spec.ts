@@ -1,10 +1,15 @@
 import request from 'supertest';
+import JSZip from 'jszip';
 import { Logger } from 'pino';
 import { DMPToolDMPType } from '@dmptool/types';
 
 process.env.APPLICATION_NAME = 'test-app';
 process.env.DOMAIN_NAME = 'example.com';
 process.env.DYNAMODB_TABLE_NAME = 'test-table';
+process.env.DYNAMODB_SHARE_LINK_TABLE_NAME = 'test-share-link-table';
+process.env.DYNAMODB_LOCK_TABLE_NAME = 'test-lock-table';
+process.env.DYNAMODB_JOB_TABLE_NAME = 'test-job-table';
+process.env.ARTIFACT_STORE_BUCKET = 'test-artifact-bucket';
 process.env.DYNAMODB_ENDPOINT = 'test-endpoint';
 process.env.ENV = 'tst';
 process.env.EZID_BASE_URL = 'test-ezid';
@@ -13,7 +18,7 @@ process.env.LOG_LEVEL = 'debug';
 process.env.RDS_HOST = 'test-rds';
 process.env.SSM_ENDPOINT = 'test-ssm';
 
-import app from '../server';
+import app, { getTokenFromRequest } from '../server';
 
 import * as dataAccess from '../dataAccess';
 import * as csv from '../csv';
@@ -21,8 +26,14 @@ import * as html from '../html';
 import * as pdf from '../pdf';
 import * as docx from '../docx';
 import * as txt from '../txt';
-import { NextFunction } from "express";
-import { PlanInterface, UserPlanInterface } from "../dataAccess";
+import * as validation from '../validation';
+import * as cache from '../cache';
+import * as renderQueue from '../renderQueue';
+import * as jobs from '../jobs';
+import * as permissions from '../permissions';
+import { ShareLink, ShareLinkCreator, signShareLink } from '../shareLinks';
+import { NextFunction, Request as ExpressRequest } from "express";
+import { PlanInterface } from "../dataAccess";
 
 // Mock all imported modules
 jest.mock('dotenv');
@@ -31,6 +42,21 @@ jest.mock('../html');
 jest.mock('../pdf');
 jest.mock('../docx');
 jest.mock('../txt');
+jest.mock('../validation');
+jest.mock('../cache');
+// The server creates its render queue when it loads so every call returns the same mock queue
+jest.mock('../renderQueue', () => {
+  const queue = { run: jest.fn(), stats: jest.fn() };
+  return { ...jest.requireActual('../renderQueue'), createRenderQueue: () => queue };
+});
+// Same for the render job manager
+jest.mock('../jobs', () => {
+  const manager = { submit: jest.fn(), get: jest.fn(), download: jest.fn(), interrupt: jest.fn() };
+  return { createJobManager: () => manager };
+});
+jest.mock('../artifactStore');
+// The access policy itself is tested in permissions.spec
+jest.mock('../permissions', () => ({ ...jest.requireActual('../permissions'), checkNarrativeAccess: jest.fn() }));
 jest.mock('../helper');
 jest.mock('@dmptool/utils');
 jest.mock('../dataAccess');
@@ -39,7 +65,7 @@ jest.mock('express-jwt', () => ({
   expressjwt: jest.fn(() => (req: Request, res: Response, next: NextFunction) => {
     // Simulate a decoded token for testing purposes if needed
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    (req as any).auth = { id: 1, email: 'test@example.com' };
+    (req as any).auth = mockToken;
     next();
   })
 }));
@@ -51,21 +77,39 @@ jest.mock("@dmptool/utils", () => ({
   convertMySQLDateTimeToRFC3339: jest.fn(() => '2024-01-01T00:00:00Z'),
 }));
 
+// The decisions returned by the access policy
+const granted: permissions.AccessDecision = { allowed: true, rule: 'accessLevel:OWN', redaction: 'none' };
+const denied: permissions.AccessDecision = { allowed: false, redaction: 'none' };
+
+// The decoded token (set to undefined to simulate an anonymous request)
+let mockToken: { id: number, email: string, role?: string } | undefined;
+
+// Collect a binary response body (e.g. a ZIP archive) into a Buffer
+const binaryParser = (res: NodeJS.ReadableStream, callback: (err: Error | null, body: Buffer) => void) => {
+  const chunks: Buffer[] = [];
+  res.on('data', (chunk: Buffer) => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+};
+
 const mockLogger = {
   debug: jest.fn(),
   info: jest.fn(),
   warn: jest.fn(),
   error: jest.fn(),
   fatal: jest.fn(),
+  child: jest.fn(() => mockLogger),
 } as unknown as Logger;
 
+const mockRenderQueue = renderQueue.createRenderQueue(undefined) as jest.Mocked<renderQueue.RenderQueue>;
+const mockJobManager = jobs.createJobManager(undefined, undefined, undefined) as jest.Mocked<jobs.JobManager>;
+
 describe('Server', () => {
   let mockPlan: PlanInterface;
   let mockMaDMP: DMPToolDMPType;
-  let mockUserDMPs: UserPlanInterface[];
 
   beforeEach(() => {
     jest.clearAllMocks();
+    mockToken = { id: 1, email: 'test@example.com' };
 
     mockPlan = {
       id: 123,
@@ -85,29 +129,24 @@ describe('Server', () => {
       },
     };
 
-    mockUserDMPs = [
-      {
-        id: 123,
-        dmpId: '11.11111/A1B2C3',
-        accessLevel: 'public',
-      },
-    ];
-
     // Setup default mocks
     (dataAccess.loadPlan as jest.Mock).mockResolvedValue(mockPlan);
-    (dataAccess.loadPlansForUser as jest.Mock).mockResolvedValue(mockUserDMPs);
     (dataAccess.loadMaDMPFromDynamo as jest.Mock).mockResolvedValue(mockMaDMP);
-    (dataAccess.hasPermissionToDownloadNarrative as jest.Mock).mockReturnValue(true);
+    (permissions.checkNarrativeAccess as jest.Mock).mockResolvedValue(granted);
     (dataAccess.handleMissingMaDMP as jest.Mock).mockResolvedValue(mockMaDMP);
     (html.renderHTML as jest.Mock).mockReturnValue('<html>Test HTML</html>');
     (csv.renderCSV as jest.Mock).mockReturnValue('column1,column2\nvalue1,value2');
     (pdf.renderPDF as jest.Mock).mockResolvedValue(Buffer.from('PDF content'));
     (docx.renderDOCX as jest.Mock).mockResolvedValue(Buffer.from('DOCX content'));
     (txt.renderTXT as jest.Mock).mockResolvedValue('Plain text content');
+    (validation.validateMaDMP as jest.Mock).mockReturnValue([]);
+    (cache.narrativeCacheKey as jest.Mock).mockReturnValue({ dmpId: 'test-ezid/11.11111/A1B2C3', hash: 'abc' });
+    (cache.renderWithCache as jest.Mock).mockImplementation((_logger, _cache, _key, render) => render());
+    mockRenderQueue.run.mockImplementation((_userId, render) => render());
   });
 
   describe('GET /dmps/{*splat}/narrative{.:ext}', () => {
-    it.only('should return HTML narrative with valid token and permissions', async () => {
+    it('should return HTML narrative with valid token and permissions', async () => {
       const response = await request(app)
         .get('/dmps/11.11111/A1B2C3/narrative')
         .set('Accept', 'text/html')
@@ -244,7 +283,7 @@ describe('Server', () => {
     });
 
     it('should return 404 when user lacks permission', async () => {
-      (dataAccess.hasPermissionToDownloadNarrative as jest.Mock).mockReturnValue(false);
+      (permissions.checkNarrativeAccess as jest.Mock).mockResolvedValue(denied);
 
       const response = await request(app)
         .get('/dmps/11.11111/A1B2C3/narrative')
@@ -252,7 +291,75 @@ describe('Server', () => {
         .set('Cookie', 'dmspt=mock-token');
 
       expect(response.status).toBe(404);
-      expect(response.text).toBe('DMP not found');
+      expect(response.text).toBe(`DMP not found (Request ID: ${response.headers['x-request-id']})`);
+    });
+
+    it('should return 403 when the user cannot download the requested format', async () => {
+      (permissions.checkNarrativeAccess as jest.Mock).mockResolvedValue({ ...denied, formatNotAllowed: true });
+
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative.json')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(403);
+      expect(permissions.checkNarrativeAccess).toHaveBeenCalledWith(
+        expect.any(Object),
+        mockMaDMP,
+        'test-ezid/11.11111/A1B2C3',
+        expect.any(Object),
+        undefined,
+        'application/json'
+      );
+    });
+
+    it('should render the redacted maDMP and cache it separately', async () => {
+      mockMaDMP.dmp.contact = { name: 'Jane Doe', mbox: 'jane@example.com' } as DMPToolDMPType['dmp']['contact'];
+      (permissions.checkNarrativeAccess as jest.Mock).mockResolvedValue({
+        allowed: true,
+        rule: 'accessLevel:COMMENT',
+        redaction: 'identifiers',
+      });
+
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative.html')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(200);
+      expect(html.renderHTML).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+        expect.objectContaining({ contact: { name: 'Jane Doe' } }),
+        null
+      );
+      expect(cache.narrativeCacheKey).toHaveBeenCalledWith(
+        'test-ezid/11.11111/A1B2C3',
+        '2024-01-01T00:00:00Z',
+        'text/html',
+        expect.any(Object),
+        'identifiers'
+      );
+    });
+
+    it('should load the Plan and the maDMP in parallel', async () => {
+      let maDMPRequested = false;
+      let maDMPRequestedBeforePlanLoaded = false;
+      (dataAccess.loadPlan as jest.Mock).mockImplementation(() => new Promise((resolve) => setImmediate(() => {
+        maDMPRequestedBeforePlanLoaded = maDMPRequested;
+        resolve(mockPlan);
+      })));
+      (dataAccess.loadMaDMPFromDynamo as jest.Mock).mockImplementation(async () => {
+        maDMPRequested = true;
+        return mockMaDMP;
+      });
+
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative')
+        .set('Accept', 'text/html')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(200);
+      expect(maDMPRequestedBeforePlanLoaded).toBe(true);
     });
 
     it('should return 404 when DMP not found in user DMPs', async () => {
@@ -276,7 +383,7 @@ describe('Server', () => {
         .set('Cookie', 'dmspt=mock-token');
 
       expect(response.status).toBe(500);
-      expect(response.text).toBe('Unable to generate a narrative at this time');
+      expect(response.text).toBe(`Unable to generate a narrative at this time (Request ID: ${response.headers['x-request-id']})`);
     });
 
     it('should return 406 for unsupported format', async () => {
@@ -286,7 +393,247 @@ describe('Server', () => {
         .set('Cookie', 'dmspt=mock-token');
 
       expect(response.status).toBe(406);
-      expect(response.text).toBe('Not Acceptable: Supported formats are HTML, PDF, CSV, DOCX, TXT');
+      expect(response.body.message).toBe('Not Acceptable: Supported formats are HTML, PDF, DOCX, CSV, TXT, JSON');
+      expect(response.body.supportedTypes).toEqual(expect.arrayContaining(['text/html', 'application/pdf']));
+      expect(response.headers['vary']).toBe('Accept');
+    });
+
+    it('should send ETag and Last-Modified headers', async () => {
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative')
+        .set('Accept', 'text/html')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['etag']).toMatch(/^W\/".+"$/);
+      expect(response.headers['last-modified']).toBe('Mon, 01 Jan 2024 00:00:00 GMT');
+      expect(response.headers['cache-control']).toBe('no-cache');
+    });
+
+    it('should return 304 when If-None-Match matches the current ETag', async () => {
+      const first = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative.pdf')
+        .set('Cookie', 'dmspt=mock-token');
+      (pdf.renderPDF as jest.Mock).mockClear();
+
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative.pdf')
+        .set('If-None-Match', first.headers['etag'])
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(304);
+      expect(response.headers['etag']).toBe(first.headers['etag']);
+      expect(pdf.renderPDF).not.toHaveBeenCalled();
+    });
+
+    it('should return 304 when the maDMP has not been modified since If-Modified-Since', async () => {
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative')
+        .set('Accept', 'text/html')
+        .set('If-Modified-Since', 'Tue, 02 Jan 2024 00:00:00 GMT')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(304);
+      expect(html.renderHTML).not.toHaveBeenCalled();
+    });
+
+    it('should render when the maDMP was modified after If-Modified-Since', async () => {
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative')
+        .set('Accept', 'text/html')
+        .set('If-Modified-Since', 'Sun, 31 Dec 2023 00:00:00 GMT')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(200);
+      expect(html.renderHTML).toHaveBeenCalled();
+    });
+
+    it('should render when the rendering options differ from the cached copy', async () => {
+      const first = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative.html')
+        .set('Cookie', 'dmspt=mock-token');
+
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative.html?lineHeight=150')
+        .set('If-None-Match', first.headers['etag'])
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['etag']).not.toBe(first.headers['etag']);
+    });
+
+    it('should check permissions before returning 304', async () => {
+      const first = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative.html')
+        .set('Cookie', 'dmspt=mock-token');
+      (permissions.checkNarrativeAccess as jest.Mock).mockResolvedValue(denied);
+
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative.html')
+        .set('If-None-Match', first.headers['etag'])
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(404);
+      expect(response.headers['etag']).toBeUndefined();
+    });
+
+    it('should use the narrative cache', async () => {
+      const cachedDoc = { contentType: 'text/html', extension: 'html', body: '<html>Cached</html>' };
+      (cache.renderWithCache as jest.Mock).mockResolvedValue(cachedDoc);
+
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative.html?fontSize=12')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(200);
+      expect(response.text).toBe('<html>Cached</html>');
+      expect(cache.narrativeCacheKey).toHaveBeenCalledWith(
+        'test-ezid/11.11111/A1B2C3',
+        '2024-01-01T00:00:00Z',
+        'text/html',
+        expect.objectContaining({ font: expect.any(Object) }),
+        'none'
+      );
+      expect(html.renderHTML).not.toHaveBeenCalled();
+    });
+
+    it('should invalidate the cached narratives when the maDMP is regenerated', async () => {
+      (dataAccess.loadMaDMPFromDynamo as jest.Mock).mockResolvedValue(null);
+
+      await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative')
+        .set('Accept', 'text/html')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(dataAccess.handleMissingMaDMP).toHaveBeenCalled();
+      expect(cache.invalidateNarrativeCache).toHaveBeenCalledWith(
+        mockLogger,
+        undefined,
+        'test-ezid/11.11111/A1B2C3'
+      );
+    });
+
+    describe('in read-only mode', () => {
+      beforeEach(() => {
+        process.env.NARRATIVE_READ_ONLY = 'true';
+        (dataAccess.loadMaDMPFromDynamo as jest.Mock).mockResolvedValue(null);
+      });
+
+      afterEach(() => {
+        delete process.env.NARRATIVE_READ_ONLY;
+      });
+
+      it('should render from the regenerated maDMP without saving it', async () => {
+        const response = await request(app)
+          .get('/dmps/11.11111/A1B2C3/narrative')
+          .set('Accept', 'text/html')
+          .set('Cookie', 'dmspt=mock-token');
+
+        expect(response.status).toBe(200);
+        expect(response.text).toBe('<html>Test HTML</html>');
+        expect(dataAccess.handleMissingMaDMP).toHaveBeenCalledWith(
+          mockLogger,
+          undefined,
+          'test-app',
+          'example.com',
+          mockPlan,
+          true,
+          false
+        );
+        expect(dataAccess.saveRegeneratedMaDMP).not.toHaveBeenCalled();
+      });
+
+      it('should keep the cached narratives', async () => {
+        await request(app)
+          .get('/dmps/11.11111/A1B2C3/narrative')
+          .set('Accept', 'text/html')
+          .set('Cookie', 'dmspt=mock-token');
+
+        expect(cache.invalidateNarrativeCache).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should send PDF renders through the render queue', async () => {
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative.pdf')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(200);
+      expect(mockRenderQueue.run).toHaveBeenCalledWith(1, expect.any(Function));
+    });
+
+    it('should not send HTML renders through the render queue', async () => {
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative.html')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(200);
+      expect(mockRenderQueue.run).not.toHaveBeenCalled();
+    });
+
+    it('should return 503 with Retry-After when the render queue is full', async () => {
+      mockRenderQueue.run.mockRejectedValue(
+        new renderQueue.RenderQueueFullError('Too many documents are being generated. Please try again later.', 503, 30)
+      );
+
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative.docx')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(503);
+      expect(response.headers['retry-after']).toBe('30');
+      expect(response.text).toBe(`Too many documents are being generated. Please try again later. (Request ID: ${response.headers['x-request-id']})`);
+    });
+
+    it('should return 429 with Retry-After when the user has too many renders in progress', async () => {
+      mockRenderQueue.run.mockRejectedValue(
+        new renderQueue.RenderQueueFullError('Too many of your documents are being generated. Please try again later.', 429, 30)
+      );
+
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative.pdf')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(429);
+      expect(response.headers['retry-after']).toBe('30');
+    });
+
+    it('should return 400 when the query params are invalid', async () => {
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative?fontSize=20&marginTop=-5')
+        .set('Accept', 'text/html')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({
+        message: 'Invalid query parameters',
+        errors: [
+          { param: 'fontSize', message: 'fontSize must be a number from 8 to 14' },
+          { param: 'marginTop', message: 'marginTop must be a number from 0 to 200' },
+        ],
+        requestId: response.headers['x-request-id'],
+      });
+      expect(dataAccess.loadPlan).not.toHaveBeenCalled();
+    });
+
+    it('should honor q-values in the Accept header', async () => {
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative')
+        .set('Accept', 'text/html;q=0.5, text/csv')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.headers['vary']).toBe('Accept');
+    });
+
+    it('should not send Vary when a file extension is specified', async () => {
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative.csv')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['vary']).toBeUndefined();
     });
 
     it('should handle missing maDMP and regenerate', async () => {
@@ -322,6 +669,102 @@ describe('Server', () => {
       expect(dataAccess.handleMissingMaDMP).toHaveBeenCalled();
     });
 
+    it('should render the requested version without checking whether it is stale', async () => {
+      const version = '2023-06-01T12:00:00Z';
+      const historicalMaDMP = { ...mockMaDMP, dmp: { ...mockMaDMP.dmp, modified: version } };
+      (dataAccess.loadMaDMPFromDynamo as jest.Mock)
+        .mockImplementation((_logger, _domain, _dmpId, requested) => (requested ? historicalMaDMP : mockMaDMP));
+
+      const response = await request(app)
+        .get(`/dmps/11.11111/A1B2C3/narrative?version=${version}`)
+        .set('Accept', 'text/html')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(200);
+      expect(dataAccess.loadMaDMPFromDynamo).toHaveBeenCalledWith(
+        mockLogger,
+        'example.com',
+        'test-ezid/11.11111/A1B2C3',
+        version
+      );
+      // The stored current version is used for the access check as is (even though it has no narrative)
+      expect(dataAccess.loadPlan).not.toHaveBeenCalled();
+      expect(dataAccess.handleMissingMaDMP).not.toHaveBeenCalled();
+      expect(html.renderHTML).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.any(Object),
+        expect.any(Object),
+        historicalMaDMP.dmp,
+        version
+      );
+    });
+
+    it('should return the same 404 when the requested version does not exist', async () => {
+      (dataAccess.loadMaDMPFromDynamo as jest.Mock)
+        .mockImplementation((_logger, _domain, _dmpId, requested) => (requested ? undefined : mockMaDMP));
+
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative?version=2023-06-01T12:00:00Z')
+        .set('Accept', 'text/html')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(404);
+      expect(response.text).toBe(`DMP not found (Request ID: ${response.headers['x-request-id']})`);
+      expect(html.renderHTML).not.toHaveBeenCalled();
+    });
+
+    it('should return the same 404 when the DMP has no current version', async () => {
+      (dataAccess.loadMaDMPFromDynamo as jest.Mock).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative?version=2023-06-01T12:00:00Z')
+        .set('Accept', 'text/html')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(404);
+      expect(response.text).toBe(`DMP not found (Request ID: ${response.headers['x-request-id']})`);
+      expect(dataAccess.handleMissingMaDMP).not.toHaveBeenCalled();
+      expect(dataAccess.loadMaDMPFromDynamo).toHaveBeenCalledTimes(1);
+    });
+
+    it('should check access to a version against the current version before loading it', async () => {
+      const version = '2023-06-01T12:00:00Z';
+      const publicMaDMP = { ...mockMaDMP, dmp: { ...mockMaDMP.dmp, modified: version, privacy: 'public' } };
+      (dataAccess.loadMaDMPFromDynamo as jest.Mock)
+        .mockImplementation((_logger, _domain, _dmpId, requested) => (requested ? publicMaDMP : mockMaDMP));
+      (permissions.checkNarrativeAccess as jest.Mock).mockResolvedValue(denied);
+      mockToken = undefined;
+
+      const response = await request(app).get(`/dmps/11.11111/A1B2C3/narrative.html?version=${version}`);
+
+      expect(response.status).toBe(404);
+      expect(response.text).toBe(`DMP not found (Request ID: ${response.headers['x-request-id']})`);
+      expect(permissions.checkNarrativeAccess).toHaveBeenCalledWith(
+        mockLogger,
+        mockMaDMP,
+        'test-ezid/11.11111/A1B2C3',
+        undefined,
+        undefined,
+        'text/html'
+      );
+      expect(dataAccess.loadMaDMPFromDynamo).not.toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+        version
+      );
+    });
+
+    it('should include the version in the filename of a historical PDF', async () => {
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative.pdf?version=2023-06-01T12:00:00Z')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(200);
+      expect(response.header['content-disposition'])
+        .toBe('inline; filename="Test-DMP-2023-06-01T12-00-00Z.pdf"');
+    });
+
     it('should return 500 when exception occurs', async () => {
       (dataAccess.loadPlan as jest.Mock).mockRejectedValue(new Error('Database error'));
 
@@ -331,16 +774,1181 @@ describe('Server', () => {
         .set('Cookie', 'dmspt=mock-token');
 
       expect(response.status).toBe(500);
-      expect(response.text).toBe('Document generation failed');
+      expect(response.text).toBe(`Document generation failed (Request ID: ${response.headers['x-request-id']})`);
     });
   });
 
-  describe('GET /narrative-health', () => {
-    it('should return ok for health check', async () => {
-      const response = await request(app).get('/narrative-health');
+  describe('GET /dmps/{*splat}/narrative/versions', () => {
+    let mockVersions: DMPToolDMPType[];
+
+    beforeEach(() => {
+      mockVersions = [
+        { dmp: { ...mockMaDMP.dmp, modified: '2024-01-01T00:00:00Z', registered: '2023-12-01T00:00:00Z' } },
+        { dmp: { ...mockMaDMP.dmp, title: 'Old title', modified: '2023-06-01T12:00:00Z' } },
+      ];
+      (dataAccess.loadMaDMPVersionsFromDynamo as jest.Mock).mockResolvedValue(mockVersions);
+    });
+
+    it('should list every version with links to each format', async () => {
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative/versions')
+        .set('Cookie', 'dmspt=mock-token');
 
       expect(response.status).toBe(200);
-      expect(response.text).toBe('ok');
+      expect(dataAccess.loadMaDMPVersionsFromDynamo).toHaveBeenCalledWith(
+        mockLogger,
+        'example.com',
+        'test-ezid/11.11111/A1B2C3'
+      );
+      expect(response.body.dmpId).toBe('11.11111/A1B2C3');
+      expect(response.body.versions).toHaveLength(2);
+      expect(response.body.versions[1]).toEqual({
+        modified: '2023-06-01T12:00:00Z',
+        registered: false,
+        title: 'Old title',
+        links: {
+          csv: '/dmps/11.11111/A1B2C3/narrative.csv?version=2023-06-01T12%3A00%3A00Z',
+          docx: '/dmps/11.11111/A1B2C3/narrative.docx?version=2023-06-01T12%3A00%3A00Z',
+          html: '/dmps/11.11111/A1B2C3/narrative.html?version=2023-06-01T12%3A00%3A00Z',
+          json: '/dmps/11.11111/A1B2C3/narrative.json?version=2023-06-01T12%3A00%3A00Z',
+          pdf: '/dmps/11.11111/A1B2C3/narrative.pdf?version=2023-06-01T12%3A00%3A00Z',
+          txt: '/dmps/11.11111/A1B2C3/narrative.txt?version=2023-06-01T12%3A00%3A00Z',
+        },
+      });
+      expect(response.body.versions[0].registered).toBe(true);
+    });
+
+    it('should check permissions against the latest version', async () => {
+      await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative/versions')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(permissions.checkNarrativeAccess).toHaveBeenCalledWith(
+        expect.any(Object),
+        mockVersions[0],
+        'test-ezid/11.11111/A1B2C3',
+        expect.objectContaining({ id: 1 }),
+        undefined
+      );
+    });
+
+    it('should return 404 when user lacks permission', async () => {
+      (permissions.checkNarrativeAccess as jest.Mock).mockResolvedValue(denied);
+
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative/versions')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(404);
+      expect(response.text).toBe(`DMP not found (Request ID: ${response.headers['x-request-id']})`);
+    });
+
+    it('should return 404 when there are no versions', async () => {
+      (dataAccess.loadMaDMPVersionsFromDynamo as jest.Mock).mockResolvedValue([]);
+
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative/versions')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 404 when the Plan does not exist', async () => {
+      (dataAccess.loadPlan as jest.Mock).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .get('/dmps/11.11111/NOTFOUND/narrative/versions')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(404);
+      expect(permissions.checkNarrativeAccess).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /dmps/{*splat}/narrative/refresh', () => {
+    beforeEach(() => {
+      (dataAccess.saveRegeneratedMaDMP as jest.Mock).mockImplementation((_logger, _domain, _plan, maDMP) => maDMP);
+    });
+
+    it('should regenerate and save the maDMP record', async () => {
+      const refreshed = { dmp: { ...mockMaDMP.dmp, modified: '2024-02-01T00:00:00Z' } };
+      (dataAccess.handleMissingMaDMP as jest.Mock).mockResolvedValue(refreshed);
+
+      const response = await request(app)
+        .post('/dmps/11.11111/A1B2C3/narrative/refresh')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ dmpId: '11.11111/A1B2C3', modified: '2024-02-01T00:00:00Z' });
+      // Generated without saving so that access is verified first
+      expect(dataAccess.handleMissingMaDMP).toHaveBeenCalledWith(
+        mockLogger,
+        undefined,
+        'test-app',
+        'example.com',
+        mockPlan,
+        true,
+        false
+      );
+      expect(dataAccess.saveRegeneratedMaDMP).toHaveBeenCalledWith(
+        mockLogger,
+        'example.com',
+        mockPlan,
+        refreshed,
+        true
+      );
+      expect(cache.invalidateNarrativeCache).toHaveBeenCalledWith(mockLogger, undefined, 'test-ezid/11.11111/A1B2C3');
+    });
+
+    it('should create the maDMP record if there is none', async () => {
+      (dataAccess.loadMaDMPFromDynamo as jest.Mock).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .post('/dmps/11.11111/A1B2C3/narrative/refresh')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(200);
+      expect(dataAccess.saveRegeneratedMaDMP).toHaveBeenCalledWith(
+        mockLogger,
+        'example.com',
+        mockPlan,
+        mockMaDMP,
+        false
+      );
+    });
+
+    it('should return the maDMP record saved by another task', async () => {
+      const saved = { dmp: { ...mockMaDMP.dmp, modified: '2024-03-01T00:00:00Z' } };
+      (dataAccess.saveRegeneratedMaDMP as jest.Mock).mockResolvedValue(saved);
+
+      const response = await request(app)
+        .post('/dmps/11.11111/A1B2C3/narrative/refresh')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ dmpId: '11.11111/A1B2C3', modified: '2024-03-01T00:00:00Z' });
+    });
+
+    it('should not regenerate or save the maDMP record if it is already up to date', async () => {
+      const current = { dmp: { ...mockMaDMP.dmp, narrative: {} } };
+      (dataAccess.loadMaDMPFromDynamo as jest.Mock).mockResolvedValue(current);
+
+      const response = await request(app)
+        .post('/dmps/11.11111/A1B2C3/narrative/refresh')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ dmpId: '11.11111/A1B2C3', modified: '2024-01-01T00:00:00Z' });
+      expect(permissions.checkNarrativeAccess).toHaveBeenCalledWith(
+        mockLogger,
+        current,
+        'test-ezid/11.11111/A1B2C3',
+        expect.any(Object),
+        undefined
+      );
+      expect(dataAccess.handleMissingMaDMP).not.toHaveBeenCalled();
+      expect(dataAccess.saveRegeneratedMaDMP).not.toHaveBeenCalled();
+      expect(cache.invalidateNarrativeCache).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an up to date maDMP record if the caller does not have permission', async () => {
+      (dataAccess.loadMaDMPFromDynamo as jest.Mock).mockResolvedValue({ dmp: { ...mockMaDMP.dmp, narrative: {} } });
+      (permissions.checkNarrativeAccess as jest.Mock).mockResolvedValue(denied);
+
+      const response = await request(app)
+        .post('/dmps/11.11111/A1B2C3/narrative/refresh')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(404);
+      expect(response.text).toBe(`DMP not found (Request ID: ${response.headers['x-request-id']})`);
+    });
+
+    it('should return 500 if the maDMP record could not be saved', async () => {
+      (dataAccess.saveRegeneratedMaDMP as jest.Mock).mockRejectedValue(new Error('Timed out'));
+
+      const response = await request(app)
+        .post('/dmps/11.11111/A1B2C3/narrative/refresh')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe(`Unable to refresh the DMP at this time (Request ID: ${response.headers['x-request-id']})`);
+      expect(cache.invalidateNarrativeCache).not.toHaveBeenCalled();
+    });
+
+    it('should save the maDMP record in read-only mode', async () => {
+      process.env.NARRATIVE_READ_ONLY = 'true';
+
+      const response = await request(app)
+        .post('/dmps/11.11111/A1B2C3/narrative/refresh')
+        .set('Cookie', 'dmspt=mock-token');
+      delete process.env.NARRATIVE_READ_ONLY;
+
+      expect(response.status).toBe(200);
+      expect(dataAccess.saveRegeneratedMaDMP).toHaveBeenCalled();
+    });
+
+    it('should return 401 if the caller is not signed in', async () => {
+      mockToken = undefined;
+
+      const response = await request(app).post('/dmps/11.11111/A1B2C3/narrative/refresh');
+
+      expect(response.status).toBe(401);
+      expect(response.text).toBe(`Authentication required (Request ID: ${response.headers['x-request-id']})`);
+      expect(dataAccess.loadPlan).not.toHaveBeenCalled();
+      expect(dataAccess.saveRegeneratedMaDMP).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 if the Plan does not exist', async () => {
+      (dataAccess.loadPlan as jest.Mock).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .post('/dmps/11.11111/A1B2C3/narrative/refresh')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(404);
+      expect(dataAccess.handleMissingMaDMP).not.toHaveBeenCalled();
+    });
+
+    it('should not save the maDMP record if the caller does not have permission', async () => {
+      (permissions.checkNarrativeAccess as jest.Mock).mockResolvedValue(denied);
+
+      const response = await request(app)
+        .post('/dmps/11.11111/A1B2C3/narrative/refresh')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(404);
+      expect(response.text).toBe(`DMP not found (Request ID: ${response.headers['x-request-id']})`);
+      expect(dataAccess.saveRegeneratedMaDMP).not.toHaveBeenCalled();
+      expect(cache.invalidateNarrativeCache).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 if the maDMP record could not be generated', async () => {
+      (dataAccess.handleMissingMaDMP as jest.Mock).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .post('/dmps/11.11111/A1B2C3/narrative/refresh')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(500);
+      expect(dataAccess.saveRegeneratedMaDMP).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('/dmps/{*splat}/narrative/share', () => {
+    const shareLink: ShareLink = {
+      id: 'link-1',
+      dmpId: 'test-ezid/11.11111/A1B2C3',
+      formats: ['pdf'],
+      version: null,
+      redaction: 'none',
+      expires: Math.floor(Date.now() / 1000) + 3600,
+      createdBy: 1,
+    };
+    const creator: ShareLinkCreator = { id: 1, email: 'test@example.com', role: 'RESEARCHER', affiliationId: 'ror-1' };
+    const share = (link: Partial<ShareLink> = {}) => signShareLink({ ...shareLink, ...link }, 'test-secret');
+
+    beforeEach(() => {
+      // Every link has been recorded unless a test says otherwise
+      (dataAccess.loadShareLink as jest.Mock).mockImplementation(
+        async (_logger, linkId) => ({ ...shareLink, id: linkId, revoked: false, creator })
+      );
+    });
+
+    it('should create a link for the formats the caller can download', async () => {
+      const response = await request(app)
+        .post('/dmps/11.11111/A1B2C3/narrative/share')
+        .set('Cookie', 'dmspt=mock-token')
+        .send({ formats: ['pdf', 'DOCX'], expiresInSeconds: 3600 });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toEqual({
+        linkId: expect.any(String),
+        dmpId: '11.11111/A1B2C3',
+        formats: ['pdf', 'docx'],
+        version: null,
+        redaction: 'none',
+        expires: expect.any(String),
+        links: {
+          pdf: expect.stringMatching(/^\/dmps\/11\.11111\/A1B2C3\/narrative\.pdf\?share=[\w-]+\.[\w-]+$/),
+          docx: expect.stringMatching(/^\/dmps\/11\.11111\/A1B2C3\/narrative\.docx\?share=/),
+        },
+      });
+      expect(permissions.checkNarrativeAccess).toHaveBeenCalledTimes(2);
+      expect(permissions.checkNarrativeAccess).toHaveBeenCalledWith(
+        mockLogger,
+        mockMaDMP,
+        'test-ezid/11.11111/A1B2C3',
+        mockToken,
+        undefined,
+        'application/pdf'
+      );
+      expect(dataAccess.saveShareLink).toHaveBeenCalledWith(mockLogger, expect.objectContaining({
+        id: response.body.linkId,
+        dmpId: 'test-ezid/11.11111/A1B2C3',
+        formats: ['pdf', 'docx'],
+        createdBy: 1,
+      }), expect.objectContaining({ id: 1, email: 'test@example.com' }));
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        expect.objectContaining({ audit: 'shareLink', event: 'created', linkId: response.body.linkId }),
+        'Share link created'
+      );
+      expect(Date.parse(response.body.expires) - Date.now()).toBeLessThanOrEqual(3600 * 1000);
+    });
+
+    it('should let anyone download the narrative with the link', async () => {
+      const created = await request(app)
+        .post('/dmps/11.11111/A1B2C3/narrative/share')
+        .set('Cookie', 'dmspt=mock-token')
+        .send({ formats: ['pdf'] });
+      (permissions.checkNarrativeAccess as jest.Mock).mockClear();
+      mockToken = undefined;
+
+      const response = await request(app).get(created.body.links.pdf);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('application/pdf');
+      // Only the creator's access is checked
+      expect(permissions.checkNarrativeAccess).toHaveBeenCalledTimes(1);
+      expect(permissions.checkNarrativeAccess).toHaveBeenCalledWith(
+        mockLogger,
+        mockMaDMP,
+        'test-ezid/11.11111/A1B2C3',
+        creator,
+        undefined,
+        'application/pdf'
+      );
+      expect(dataAccess.loadShareLink).toHaveBeenCalledWith(mockLogger, created.body.linkId);
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        expect.objectContaining({ audit: 'shareLink', event: 'used', linkId: created.body.linkId, format: 'application/pdf' }),
+        'Share link used'
+      );
+    });
+
+    it('should hide whatever the caller cannot see in any of the formats', async () => {
+      mockMaDMP.dmp.contact = { name: 'Jane Doe', mbox: 'jane@example.com' } as DMPToolDMPType['dmp']['contact'];
+      (permissions.checkNarrativeAccess as jest.Mock)
+        .mockResolvedValueOnce(granted)
+        .mockResolvedValueOnce({ allowed: true, rule: 'accessLevel:COMMENT', redaction: 'identifiers' });
+
+      const created = await request(app)
+        .post('/dmps/11.11111/A1B2C3/narrative/share')
+        .set('Cookie', 'dmspt=mock-token')
+        .send({ formats: ['html', 'pdf'] });
+      const response = await request(app).get(created.body.links.html);
+
+      expect(created.body.redaction).toBe('identifiers');
+      expect(response.status).toBe(200);
+      expect(html.renderHTML).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.any(Object),
+        expect.any(Object),
+        expect.objectContaining({ contact: { name: 'Jane Doe' } }),
+        null
+      );
+      expect(cache.narrativeCacheKey).toHaveBeenCalledWith(
+        'test-ezid/11.11111/A1B2C3',
+        '2024-01-01T00:00:00Z',
+        'text/html',
+        expect.any(Object),
+        'identifiers'
+      );
+    });
+
+    it('should include the version in the link', async () => {
+      const response = await request(app)
+        .post('/dmps/11.11111/A1B2C3/narrative/share')
+        .set('Cookie', 'dmspt=mock-token')
+        .send({ formats: ['pdf'], version: '2024-01-01T00:00:00Z' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.links.pdf).toMatch(/narrative\.pdf\?version=2024-01-01T00%3A00%3A00Z&share=/);
+      expect(dataAccess.loadMaDMPFromDynamo).toHaveBeenCalledWith(
+        mockLogger,
+        'example.com',
+        'test-ezid/11.11111/A1B2C3',
+        '2024-01-01T00:00:00Z'
+      );
+    });
+
+    it('should return 401 if the caller is not signed in', async () => {
+      mockToken = undefined;
+
+      const response = await request(app).post('/dmps/11.11111/A1B2C3/narrative/share').send({ formats: ['pdf'] });
+
+      expect(response.status).toBe(401);
+      expect(dataAccess.saveShareLink).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      [{}],
+      [{ formats: [] }],
+      [{ formats: ['exe'] }],
+      [{ formats: ['pdf'], expiresInSeconds: 0 }],
+      [{ formats: ['pdf'], expiresInSeconds: 31 * 24 * 60 * 60 }],
+      [{ formats: ['pdf'], version: 'yesterday' }],
+    ])('should return 400 for an invalid request %j', async (body) => {
+      const response = await request(app)
+        .post('/dmps/11.11111/A1B2C3/narrative/share')
+        .set('Cookie', 'dmspt=mock-token')
+        .send(body);
+
+      expect(response.status).toBe(400);
+      expect(dataAccess.loadPlan).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 if the caller cannot download one of the formats', async () => {
+      (permissions.checkNarrativeAccess as jest.Mock)
+        .mockResolvedValueOnce(granted)
+        .mockResolvedValueOnce({ allowed: false, redaction: 'none', formatNotAllowed: true });
+
+      const response = await request(app)
+        .post('/dmps/11.11111/A1B2C3/narrative/share')
+        .set('Cookie', 'dmspt=mock-token')
+        .send({ formats: ['pdf', 'json'] });
+
+      expect(response.status).toBe(403);
+      expect(response.text).toBe(`The narrative is not available as json (Request ID: ${response.headers['x-request-id']})`);
+      expect(dataAccess.saveShareLink).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 if the caller does not have access to the DMP', async () => {
+      (permissions.checkNarrativeAccess as jest.Mock).mockResolvedValue(denied);
+
+      const response = await request(app)
+        .post('/dmps/11.11111/A1B2C3/narrative/share')
+        .set('Cookie', 'dmspt=mock-token')
+        .send({ formats: ['pdf'] });
+
+      expect(response.status).toBe(404);
+      expect(dataAccess.saveShareLink).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['another DMP', '/dmps/11.11111/OTHER/narrative.pdf', share(), 'The share link is not valid for this narrative'],
+      ['another format', '/dmps/11.11111/A1B2C3/narrative.docx', share(), 'The share link is not valid for this narrative'],
+      ['another version', '/dmps/11.11111/A1B2C3/narrative.pdf?version=2023-01-01T00:00:00Z', share(), 'The share link is not valid for this narrative'],
+      ['a tampered link', '/dmps/11.11111/A1B2C3/narrative.pdf', `${share().split('.')[0]}.forged`, 'The share link is not valid for this narrative'],
+      ['an expired link', '/dmps/11.11111/A1B2C3/narrative.pdf', share({ expires: 1 }), 'The share link has expired'],
+    ])('should reject %s', async (_, path, token, message) => {
+      mockToken = undefined;
+
+      const response = await request(app).get(path).query({ share: token });
+
+      expect(response.status).toBe(403);
+      expect(response.text).toBe(`${message} (Request ID: ${response.headers['x-request-id']})`);
+      expect(pdf.renderPDF).not.toHaveBeenCalled();
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        expect.objectContaining({ audit: 'shareLink', event: 'rejected' }),
+        'Share link rejected'
+      );
+    });
+
+    it('should reject a revoked link', async () => {
+      (dataAccess.loadShareLink as jest.Mock).mockResolvedValue({ ...shareLink, revoked: true });
+
+      const response = await request(app).get('/dmps/11.11111/A1B2C3/narrative.pdf').query({ share: share() });
+
+      expect(response.status).toBe(403);
+      expect(response.text).toBe(`The share link has been revoked (Request ID: ${response.headers['x-request-id']})`);
+      expect(dataAccess.loadPlan).not.toHaveBeenCalled();
+    });
+
+    it('should reject the link once its creator no longer has access to the DMP', async () => {
+      mockToken = undefined;
+      (permissions.checkNarrativeAccess as jest.Mock).mockResolvedValue(denied);
+
+      const response = await request(app).get('/dmps/11.11111/A1B2C3/narrative.pdf').query({ share: share() });
+
+      expect(response.status).toBe(403);
+      expect(response.text).toBe(
+        `The share link is no longer valid because its creator no longer has access to the DMP (Request ID: ${response.headers['x-request-id']})`
+      );
+      expect(pdf.renderPDF).not.toHaveBeenCalled();
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        expect.objectContaining({ audit: 'shareLink', event: 'rejected', reason: 'creatorLostAccess' }),
+        'Share link rejected'
+      );
+    });
+
+    it('should hide whatever the creator can no longer see', async () => {
+      mockToken = undefined;
+      mockMaDMP.dmp.contact = { name: 'Jane Doe', mbox: 'jane@example.com' } as DMPToolDMPType['dmp']['contact'];
+      (permissions.checkNarrativeAccess as jest.Mock)
+        .mockResolvedValue({ allowed: true, rule: 'accessLevel:COMMENT', redaction: 'identifiers' });
+
+      const response = await request(app).get('/dmps/11.11111/A1B2C3/narrative.html').query({ share: share({ formats: ['html'] }) });
+
+      expect(response.status).toBe(200);
+      expect(html.renderHTML).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.any(Object),
+        expect.any(Object),
+        expect.objectContaining({ contact: { name: 'Jane Doe' } }),
+        null
+      );
+    });
+
+    it('should check the creator\'s access to a version against the stored current record', async () => {
+      mockToken = undefined;
+      const version = '2023-06-01T00:00:00Z';
+      const historical = { dmp: { ...mockMaDMP.dmp, modified: version } } as DMPToolDMPType;
+      (dataAccess.loadMaDMPFromDynamo as jest.Mock).mockImplementation(
+        async (_logger, _domain, _dmpId, requested) => (requested ? historical : mockMaDMP)
+      );
+
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative.pdf')
+        .query({ version, share: share({ version }) });
+
+      expect(response.status).toBe(200);
+      expect(permissions.checkNarrativeAccess).toHaveBeenCalledWith(
+        mockLogger,
+        mockMaDMP,
+        'test-ezid/11.11111/A1B2C3',
+        creator,
+        undefined,
+        'application/pdf'
+      );
+      expect(dataAccess.loadPlan).not.toHaveBeenCalled();
+      expect(dataAccess.handleMissingMaDMP).not.toHaveBeenCalled();
+    });
+
+    it('should reject a link that was recorded without its creator', async () => {
+      (dataAccess.loadShareLink as jest.Mock).mockResolvedValue({ ...shareLink, revoked: false });
+
+      const response = await request(app).get('/dmps/11.11111/A1B2C3/narrative.pdf').query({ share: share() });
+
+      expect(response.status).toBe(403);
+      expect(dataAccess.loadPlan).not.toHaveBeenCalled();
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        expect.objectContaining({ audit: 'shareLink', event: 'rejected', reason: 'creatorUnknown' }),
+        'Share link rejected'
+      );
+    });
+
+    it('should reject a link that was never recorded', async () => {
+      (dataAccess.loadShareLink as jest.Mock).mockResolvedValue(undefined);
+
+      const response = await request(app).get('/dmps/11.11111/A1B2C3/narrative.pdf').query({ share: share() });
+
+      expect(response.status).toBe(403);
+      expect(response.text).toBe(`The share link is not valid for this narrative (Request ID: ${response.headers['x-request-id']})`);
+      expect(dataAccess.loadPlan).not.toHaveBeenCalled();
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        expect.objectContaining({ audit: 'shareLink', event: 'rejected', reason: 'notRecorded' }),
+        'Share link rejected'
+      );
+    });
+
+    it('should revoke the link', async () => {
+      (dataAccess.loadShareLink as jest.Mock).mockResolvedValue({ ...shareLink, revoked: false });
+
+      const response = await request(app)
+        .delete('/dmps/11.11111/A1B2C3/narrative/share/link-1')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(204);
+      expect(dataAccess.revokeShareLink).toHaveBeenCalledWith(mockLogger, 'link-1');
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        expect.objectContaining({ audit: 'shareLink', event: 'revoked', linkId: 'link-1', userId: 1 }),
+        'Share link revoked'
+      );
+    });
+
+    it('should let a super admin revoke the link', async () => {
+      mockToken = { id: 2, email: 'admin@example.com', role: 'SUPERADMIN' };
+      (dataAccess.loadShareLink as jest.Mock).mockResolvedValue({ ...shareLink, revoked: false });
+
+      const response = await request(app)
+        .delete('/dmps/11.11111/A1B2C3/narrative/share/link-1')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(204);
+    });
+
+    it.each([
+      ['another user\'s link', { ...shareLink, createdBy: 2, revoked: false }, '/dmps/11.11111/A1B2C3/narrative/share/link-1'],
+      ['a link for another DMP', { ...shareLink, revoked: false }, '/dmps/11.11111/OTHER/narrative/share/link-1'],
+      ['an unknown link', undefined, '/dmps/11.11111/A1B2C3/narrative/share/unknown'],
+    ])('should return 404 when revoking %s', async (_, link, path) => {
+      (dataAccess.loadShareLink as jest.Mock).mockResolvedValue(link);
+
+      const response = await request(app).delete(path).set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(404);
+      expect(dataAccess.revokeShareLink).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 when revoking without signing in', async () => {
+      mockToken = undefined;
+
+      const response = await request(app).delete('/dmps/11.11111/A1B2C3/narrative/share/link-1');
+
+      expect(response.status).toBe(401);
+      expect(dataAccess.loadShareLink).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('/dmps/{*splat}/narrative/jobs', () => {
+    let mockJob: jobs.RenderJob;
+
+    beforeEach(() => {
+      mockJob = {
+        id: 'job-1',
+        dmpId: '11.11111/A1B2C3',
+        format: 'pdf',
+        userId: 1,
+        status: 'queued',
+        created: '2024-01-01T00:00:00.000Z',
+        updated: '2024-01-01T00:00:00.000Z',
+      };
+      mockJobManager.submit.mockResolvedValue(mockJob);
+      mockJobManager.get.mockResolvedValue(mockJob);
+    });
+
+    it('should create a PDF render job by default', async () => {
+      const response = await request(app)
+        .post('/dmps/11.11111/A1B2C3/narrative/jobs')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(202);
+      expect(response.headers['location']).toBe('/dmps/11.11111/A1B2C3/narrative/jobs/job-1');
+      expect(response.body).toEqual({
+        jobId: 'job-1',
+        dmpId: '11.11111/A1B2C3',
+        format: 'pdf',
+        status: 'queued',
+        created: '2024-01-01T00:00:00.000Z',
+        updated: '2024-01-01T00:00:00.000Z',
+        links: { self: '/dmps/11.11111/A1B2C3/narrative/jobs/job-1' },
+      });
+      expect(mockJobManager.submit).toHaveBeenCalledWith(
+        mockLogger,
+        1,
+        '11.11111/A1B2C3',
+        'pdf',
+        expect.any(Function)
+      );
+    });
+
+    it('should render the requested format when the job runs', async () => {
+      await request(app)
+        .post('/dmps/11.11111/A1B2C3/narrative/jobs?fontSize=12')
+        .set('Cookie', 'dmspt=mock-token')
+        .send({ format: 'docx' });
+
+      const render = mockJobManager.submit.mock.calls[0][4];
+      await expect(render()).resolves.toEqual(expect.objectContaining({ extension: 'docx' }));
+      expect(docx.renderDOCX).toHaveBeenCalled();
+      expect(cache.renderWithCache).toHaveBeenCalled();
+      // The job waits in the same render queue as the other requests
+      expect(mockRenderQueue.run).toHaveBeenCalledWith(1, expect.any(Function));
+    });
+
+    it('should return 400 for an unknown format', async () => {
+      const response = await request(app)
+        .post('/dmps/11.11111/A1B2C3/narrative/jobs')
+        .set('Cookie', 'dmspt=mock-token')
+        .send({ format: 'xls' });
+
+      expect(response.status).toBe(400);
+      expect(mockJobManager.submit).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for invalid query parameters', async () => {
+      const response = await request(app)
+        .post('/dmps/11.11111/A1B2C3/narrative/jobs?fontSize=99')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toBe('Invalid query parameters');
+    });
+
+    it('should return 404 without creating a job when user lacks permission', async () => {
+      (permissions.checkNarrativeAccess as jest.Mock).mockResolvedValue(denied);
+
+      const response = await request(app)
+        .post('/dmps/11.11111/A1B2C3/narrative/jobs')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(404);
+      expect(mockJobManager.submit).not.toHaveBeenCalled();
+    });
+
+    it('should return 429 with a Retry-After header when the user has too many jobs', async () => {
+      mockJobManager.submit.mockRejectedValue(
+        new renderQueue.RenderQueueFullError('Too many of your documents', 429, 30)
+      );
+
+      const response = await request(app)
+        .post('/dmps/11.11111/A1B2C3/narrative/jobs')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(429);
+      expect(response.headers['retry-after']).toBe('30');
+    });
+
+    it('should report the status of the job', async () => {
+      mockJobManager.get.mockResolvedValue({ ...mockJob, status: 'done' });
+
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative/jobs/job-1')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(200);
+      expect(mockJobManager.get).toHaveBeenCalledWith(mockLogger, 'job-1');
+      expect(response.body.status).toBe('done');
+      expect(response.body.links.download).toBe('/dmps/11.11111/A1B2C3/narrative/jobs/job-1/download');
+    });
+
+    it('should return 500 when the job could not be loaded', async () => {
+      mockJobManager.get.mockRejectedValueOnce(new Error('DynamoDB is down'));
+
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative/jobs/job-1')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(500);
+      expect(response.text).toContain('Unable to retrieve the job');
+    });
+
+    it('should return 404 for a job that belongs to another user or DMP', async () => {
+      mockJobManager.get.mockResolvedValueOnce({ ...mockJob, userId: 2 });
+      const otherUser = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative/jobs/job-1')
+        .set('Cookie', 'dmspt=mock-token');
+
+      const otherDMP = await request(app)
+        .get('/dmps/11.11111/Z9Z9Z9/narrative/jobs/job-1')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(otherUser.status).toBe(404);
+      expect(otherDMP.status).toBe(404);
+    });
+
+    it('should download the document once the job is done', async () => {
+      mockJobManager.get.mockResolvedValue({ ...mockJob, status: 'done' });
+      mockJobManager.download.mockResolvedValue({
+        contentType: 'application/pdf',
+        extension: 'pdf',
+        body: Buffer.from('PDF content'),
+        disposition: 'attachment',
+      });
+
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative/jobs/job-1/download')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('application/pdf');
+      expect(response.headers['content-disposition']).toContain('attachment');
+    });
+
+    it('should return 409 when the job has not finished', async () => {
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative/jobs/job-1/download')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(409);
+      expect(mockJobManager.download).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /narrative{.:ext}', () => {
+    it('should render the uploaded maDMP without touching RDS or DynamoDB', async () => {
+      const response = await request(app)
+        .post('/narrative')
+        .set('Accept', 'text/html')
+        .send(mockMaDMP);
+
+      expect(response.status).toBe(200);
+      expect(response.type).toBe('text/html');
+      expect(response.text).toBe('<html>Test HTML</html>');
+      expect(validation.validateMaDMP).toHaveBeenCalledWith(mockMaDMP);
+      expect(html.renderHTML).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.any(Object),
+        expect.any(Object),
+        mockMaDMP.dmp,
+        null
+      );
+      expect(dataAccess.loadPlan).not.toHaveBeenCalled();
+      expect(dataAccess.loadMaDMPFromDynamo).not.toHaveBeenCalled();
+      expect(dataAccess.handleMissingMaDMP).not.toHaveBeenCalled();
+    });
+
+    it('should detect format from the extension', async () => {
+      const response = await request(app)
+        .post('/narrative.pdf')
+        .send(mockMaDMP);
+
+      expect(response.status).toBe(200);
+      expect(response.header['content-type']).toBe('application/pdf');
+      expect(response.header['content-disposition']).toBe('inline; filename="Test-DMP.pdf"');
+      expect(pdf.renderPDF).toHaveBeenCalled();
+    });
+
+    it('should ignore the version query param', async () => {
+      const response = await request(app)
+        .post('/narrative.pdf?version=2023-06-01T12:00:00Z')
+        .send(mockMaDMP);
+
+      expect(response.header['content-disposition']).toBe('inline; filename="Test-DMP.pdf"');
+    });
+
+    it('should return 400 with the validation errors when the maDMP is invalid', async () => {
+      (validation.validateMaDMP as jest.Mock).mockReturnValue(['instance requires property "dmp"']);
+
+      const response = await request(app)
+        .post('/narrative')
+        .set('Accept', 'text/html')
+        .send({ title: 'Not a maDMP' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({
+        message: 'Invalid maDMP',
+        errors: ['instance requires property "dmp"'],
+        requestId: response.headers['x-request-id'],
+      });
+      expect(html.renderHTML).not.toHaveBeenCalled();
+    });
+
+    it('should return 406 for unsupported format', async () => {
+      const response = await request(app)
+        .post('/narrative')
+        .set('Accept', 'application/unsupported')
+        .send(mockMaDMP);
+
+      expect(response.status).toBe(406);
+      expect(validation.validateMaDMP).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when rendering fails', async () => {
+      (pdf.renderPDF as jest.Mock).mockRejectedValue(new Error('Chromium crashed'));
+
+      const response = await request(app)
+        .post('/narrative.pdf')
+        .send(mockMaDMP);
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe(`Document generation failed (Request ID: ${response.headers['x-request-id']})`);
+    });
+  });
+
+  describe('POST /narrative/batch', () => {
+    const postBatch = (body: object, query = '') => {
+      return request(app)
+        .post(`/narrative/batch${query}`)
+        .set('Cookie', 'dmspt=mock-token')
+        .send(body)
+        .buffer(true)
+        .parse(binaryParser);
+    };
+
+    it('should return a ZIP with one document per DMP and a manifest', async () => {
+      const response = await postBatch({ dmpIds: ['11.11111/A1B2C3', '11.11111/D4E5F6'], format: 'pdf' });
+
+      expect(response.status).toBe(200);
+      expect(response.header['content-type']).toBe('application/zip');
+      expect(response.header['content-disposition']).toBe('attachment; filename="narratives.zip"');
+
+      const zip = await JSZip.loadAsync(response.body);
+      expect(Object.keys(zip.files).sort()).toEqual(['11-11111-A1B2C3.pdf', '11-11111-D4E5F6.pdf', 'manifest.json']);
+      expect(await zip.file('11-11111-A1B2C3.pdf').async('string')).toBe('PDF content');
+
+      const manifest = JSON.parse(await zip.file('manifest.json').async('string'));
+      expect(manifest.format).toBe('application/pdf');
+      expect(manifest.requestId).toBe(response.header['x-request-id']);
+      expect(manifest.results).toEqual([
+        { dmpId: '11.11111/A1B2C3', status: 'success', file: '11-11111-A1B2C3.pdf' },
+        { dmpId: '11.11111/D4E5F6', status: 'success', file: '11-11111-D4E5F6.pdf' },
+      ]);
+      expect((dataAccess.loadPlan as jest.Mock).mock.calls.map((call) => call[1])).toEqual([
+        'test-ezid/11.11111/A1B2C3',
+        'test-ezid/11.11111/D4E5F6',
+      ]);
+    });
+
+    it('should apply the permission rules to each DMP', async () => {
+      (permissions.checkNarrativeAccess as jest.Mock)
+        .mockResolvedValueOnce(granted)
+        .mockResolvedValueOnce(denied);
+
+      const response = await postBatch({ dmpIds: ['11.11111/A1B2C3', '11.11111/D4E5F6'] });
+      const zip = await JSZip.loadAsync(response.body);
+      const manifest = JSON.parse(await zip.file('manifest.json').async('string'));
+
+      expect(zip.file('11-11111-D4E5F6.pdf')).toBeNull();
+      expect(manifest.results[1]).toEqual({ dmpId: '11.11111/D4E5F6', status: 'denied', message: 'DMP not found' });
+    });
+
+    it('should record failures in the manifest and continue', async () => {
+      (pdf.renderPDF as jest.Mock)
+        .mockRejectedValueOnce(new Error('Chromium crashed'))
+        .mockResolvedValueOnce(Buffer.from('PDF content'));
+
+      const response = await postBatch({ dmpIds: ['11.11111/A1B2C3', '11.11111/D4E5F6'] });
+      const zip = await JSZip.loadAsync(response.body);
+      const manifest = JSON.parse(await zip.file('manifest.json').async('string'));
+
+      expect(manifest.results).toEqual([
+        { dmpId: '11.11111/A1B2C3', status: 'failed', message: 'Document generation failed' },
+        { dmpId: '11.11111/D4E5F6', status: 'success', file: '11-11111-D4E5F6.pdf' },
+      ]);
+    });
+
+    it('should strip the EZID base URL and ignore duplicate ids', async () => {
+      const response = await postBatch({ dmpIds: ['test-ezid/11.11111/A1B2C3', '11.11111/A1B2C3'], format: 'csv' });
+      const zip = await JSZip.loadAsync(response.body);
+      const manifest = JSON.parse(await zip.file('manifest.json').async('string'));
+
+      expect(manifest.results).toEqual([
+        { dmpId: '11.11111/A1B2C3', status: 'success', file: '11-11111-A1B2C3.csv' },
+      ]);
+      expect(csv.renderCSV).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give each document a unique file name', async () => {
+      const response = await postBatch({ dmpIds: ['11.11111/A1B2C3', '11.11111-A1B2C3'], format: 'csv' });
+      const zip = await JSZip.loadAsync(response.body);
+      const manifest = JSON.parse(await zip.file('manifest.json').async('string'));
+
+      expect(Object.keys(zip.files).sort()).toEqual(['11-11111-A1B2C3-2.csv', '11-11111-A1B2C3.csv', 'manifest.json']);
+      expect(manifest.results).toEqual([
+        { dmpId: '11.11111/A1B2C3', status: 'success', file: '11-11111-A1B2C3.csv' },
+        { dmpId: '11.11111-A1B2C3', status: 'success', file: '11-11111-A1B2C3-2.csv' },
+      ]);
+    });
+
+    it('should return 400 when no DMP ids are provided', async () => {
+      const response = await postBatch({ dmpIds: [] });
+
+      expect(response.status).toBe(400);
+      expect(dataAccess.loadPlan).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an unsupported format', async () => {
+      const response = await postBatch({ dmpIds: ['11.11111/A1B2C3'], format: 'xyz' });
+
+      expect(response.status).toBe(400);
+      expect(dataAccess.loadPlan).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when too many DMP ids are provided', async () => {
+      const dmpIds = Array.from({ length: 51 }, (_, i) => `11.11111/DMP${i}`);
+      const response = await postBatch({ dmpIds });
+
+      expect(response.status).toBe(400);
+      expect(dataAccess.loadPlan).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getTokenFromRequest', () => {
+    const mockRequest = (headers: Record<string, string>, cookies?: Record<string, string>) => {
+      return { headers, cookies } as unknown as ExpressRequest;
+    };
+
+    it('should read the token from an Authorization Bearer header', () => {
+      const req = mockRequest({ authorization: 'Bearer header-token' });
+      expect(getTokenFromRequest(req)).toBe('header-token');
+    });
+
+    it('should treat the Bearer scheme as case-insensitive', () => {
+      const req = mockRequest({ authorization: 'bearer header-token' });
+      expect(getTokenFromRequest(req)).toBe('header-token');
+    });
+
+    it('should ignore Authorization headers that are not Bearer tokens', () => {
+      const req = mockRequest({ authorization: 'Basic dXNlcjpwYXNz' });
+      expect(getTokenFromRequest(req)).toBeUndefined();
+    });
+
+    it('should read the token from the parsed dmspt cookie', () => {
+      const req = mockRequest({}, { dmspt: 'cookie-token' });
+      expect(getTokenFromRequest(req)).toBe('cookie-token');
+    });
+
+    it('should prefer the Authorization header when both are present', () => {
+      const req = mockRequest({ authorization: 'Bearer header-token' }, { dmspt: 'cookie-token' });
+      expect(getTokenFromRequest(req)).toBe('header-token');
+    });
+
+    it('should fall back to the cookie when the Authorization header is not a Bearer token', () => {
+      const req = mockRequest({ authorization: 'Basic dXNlcjpwYXNz' }, { dmspt: 'cookie-token' });
+      expect(getTokenFromRequest(req)).toBe('cookie-token');
+    });
+
+    it('should find the dmspt cookie in a raw header with multiple cookies', () => {
+      const req = mockRequest({ cookie: 'other=abc; dmspt=raw-token; another=123' });
+      expect(getTokenFromRequest(req)).toBe('raw-token');
+    });
+
+    it('should not match cookies whose names merely contain dmspt', () => {
+      const req = mockRequest({ cookie: 'old_dmspt=abc; dmsptx=def' });
+      expect(getTokenFromRequest(req)).toBeUndefined();
+    });
+
+    it('should return undefined when no token is provided', () => {
+      expect(getTokenFromRequest(mockRequest({}))).toBeUndefined();
+    });
+  });
+
+  describe('GET /narrative/openapi.json', () => {
+    it('should return the OpenAPI document', async () => {
+      const response = await request(app).get('/narrative/openapi.json');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('application/json');
+      expect(response.body.openapi).toBe('3.1.0');
+      expect(response.body.paths['/dmps/{dmpId}/narrative']).toBeDefined();
+    });
+  });
+
+  describe('GET /metrics', () => {
+    beforeEach(() => {
+      (pdf.getBrowserPoolStats as jest.Mock).mockReturnValue({
+        browsers: 1,
+        activePages: 0,
+        idlePages: 1,
+        queued: 0,
+        renders: 5,
+        launches: 1,
+        restarts: 0,
+        crashes: 0,
+      });
+      mockRenderQueue.stats.mockReturnValue({ running: 1, queued: 2, rejected: 0 });
+    });
+
+    it('should expose the Prometheus metrics', async () => {
+      await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative.html')
+        .set('Cookie', 'dmspt=mock-token');
+
+      const response = await request(app).get('/metrics');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/plain');
+      expect(response.text).toContain('narrative_documents_total{format="html"}');
+      expect(response.text).toContain('narrative_stage_duration_seconds_count{stage="loadPlan",outcome="success"}');
+      expect(response.text).toContain('narrative_stage_duration_seconds_count{stage="renderHTML",outcome="success"}');
+      expect(response.text).toContain('narrative_responses_total{status="200"}');
+      expect(response.text).toContain('narrative_madmp_regenerations_total{reason="missingNarrative"}');
+      expect(response.text).toContain('narrative_browser_pool_renders_total 5');
+      expect(response.text).toContain('narrative_render_queue_queued 2');
+    });
+
+    it('should count permission denials', async () => {
+      (permissions.checkNarrativeAccess as jest.Mock).mockResolvedValue(denied);
+      await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative.html')
+        .set('Cookie', 'dmspt=mock-token');
+
+      const response = await request(app).get('/metrics');
+
+      expect(response.text).toMatch(/narrative_permission_denials_total [1-9]/);
+    });
+  });
+
+  describe('GET /narrative-ready', () => {
+    const checks = { ssm: jest.fn(), rds: jest.fn(), dynamodb: jest.fn() };
+
+    beforeEach(() => {
+      (dataAccess.dataSourceReadinessChecks as jest.Mock).mockReturnValue(checks);
+    });
+
+    it('should return 200 when every component is up', async () => {
+      const response = await request(app).get('/narrative-ready');
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe('up');
+      expect(Object.keys(response.body.checks)).toEqual(['ssm', 'rds', 'dynamodb', 'browser']);
+      expect(dataAccess.dataSourceReadinessChecks).toHaveBeenCalledWith(mockLogger, undefined, 'example.com');
+      expect(checks.ssm).toHaveBeenCalled();
+      expect(checks.rds).toHaveBeenCalled();
+      expect(checks.dynamodb).toHaveBeenCalled();
+      expect(pdf.pingBrowserPool).toHaveBeenCalled();
+    });
+
+    it('should return 503 when a component is down', async () => {
+      checks.rds.mockRejectedValueOnce(new Error('Connection refused'));
+
+      const response = await request(app).get('/narrative-ready');
+
+      expect(response.status).toBe(503);
+      expect(response.body.status).toBe('down');
+      expect(response.body.checks.rds).toEqual(expect.objectContaining({ status: 'down', error: 'Check failed' }));
+      expect(response.body.checks.ssm.status).toBe('up');
+    });
+  });
+
+  describe('GET /narrative-health', () => {
+    it('should return ok for health check', async () => {
+      const response = await request(app).get('/narrative-health');
+
+      expect(response.status).toBe(200);
+      expect(response.text).toBe('ok');
+    });
+  });
+
+  describe('request ids', () => {
+    it('should echo the caller\'s request id in the headers and error messages', async () => {
+      (permissions.checkNarrativeAccess as jest.Mock).mockResolvedValueOnce(denied);
+
+      const response = await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative')
+        .set('Accept', 'text/html')
+        .set('X-Request-Id', 'abc-123')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(response.status).toBe(404);
+      expect(response.headers['x-request-id']).toBe('abc-123');
+      expect(response.text).toBe('DMP not found (Request ID: abc-123)');
+    });
+
+    it('should generate a request id when the caller does not send one', async () => {
+      const response = await request(app).get('/narrative-health');
+
+      expect(response.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
+    it('should pass a logger bound to the request id to the data access functions', async () => {
+      const requestLogger = { ...mockLogger } as Logger;
+      (mockLogger.child as jest.Mock).mockReturnValueOnce(requestLogger);
+
+      await request(app)
+        .get('/dmps/11.11111/A1B2C3/narrative')
+        .set('Accept', 'text/html')
+        .set('X-Request-Id', 'abc-123')
+        .set('Cookie', 'dmspt=mock-token');
+
+      expect(mockLogger.child).toHaveBeenCalledWith({ requestId: 'abc-123' });
+      expect(dataAccess.loadPlan).toHaveBeenCalledWith(requestLogger, 'test-ezid/11.11111/A1B2C3', undefined);
+      expect(dataAccess.loadMaDMPFromDynamo).toHaveBeenCalledWith(
+        requestLogger,
+        'example.com',
+        'test-ezid/11.11111/A1B2C3',
+        null
+      );
+      expect(permissions.checkNarrativeAccess).toHaveBeenCalledWith(
+        requestLogger,
+        mockMaDMP,
+        'test-ezid/11.11111/A1B2C3',
+        expect.any(Object),
+        undefined,
+        'text/html'
+      );
+    });
+
+    it('should include the request id when the request body is malformed', async () => {
+      const response = await request(app)
+        .post('/narrative')
+        .set('Content-Type', 'application/json')
+        .set('X-Request-Id', 'abc-123')
+        .send('{"dmp":');
+
+      expect(response.status).toBe(400);
+      expect(response.text).toMatch(/ \(Request ID: abc-123\)$/);
+      expect(mockLogger.warn).toHaveBeenCalledWith(expect.objectContaining({ status: 400 }), expect.any(String));
     });
   });
 });
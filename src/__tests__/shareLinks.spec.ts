@@ -0,0 +1,130 @@
+import { Logger } from "pino";
+import {
+  auditShareLink,
+  createMemoryShareLinkStore,
+  getShareLinkSecret,
+  ShareLink,
+  ShareLinkCreator,
+  signShareLink,
+  verifyShareLink
+} from "../shareLinks";
+
+const link: ShareLink = {
+  id: "link-1",
+  dmpId: "https://doi.org/11.11111/A1B2C3",
+  formats: ["pdf", "docx"],
+  version: null,
+  redaction: "identifiers",
+  expires: 3600,
+  createdBy: 1,
+};
+
+describe("share links", () => {
+  let time: number;
+  const now = () => time;
+
+  beforeEach(() => {
+    time = 0;
+  });
+
+  describe("signShareLink and verifyShareLink", () => {
+    it("verifies a link it signed", () => {
+      const token = signShareLink(link, "secret");
+
+      expect(token).toMatch(/^[\w-]+\.[\w-]+$/);
+      expect(verifyShareLink(token, "secret", now)).toEqual({ link });
+    });
+
+    it("rejects a link signed with another secret", () => {
+      expect(verifyShareLink(signShareLink(link, "other"), "secret", now)).toEqual({ error: "invalid" });
+    });
+
+    it("rejects a link that was changed after it was signed", () => {
+      const [, signature] = signShareLink(link, "secret").split(".");
+      const payload = Buffer.from(JSON.stringify({ ...link, formats: ["json"] })).toString("base64url");
+
+      expect(verifyShareLink(`${payload}.${signature}`, "secret", now)).toEqual({ error: "invalid" });
+    });
+
+    it.each([
+      [""],
+      ["abc"],
+      ["abc.def.ghi"],
+      [undefined],
+    ])("rejects the malformed token %j", (token) => {
+      expect(verifyShareLink(token, "secret", now)).toEqual({ error: "invalid" });
+    });
+
+    it("rejects a link once it has expired", () => {
+      const token = signShareLink(link, "secret");
+
+      time = 3_599_999;
+      expect(verifyShareLink(token, "secret", now).error).toBeUndefined();
+      time = 3_600_000;
+      expect(verifyShareLink(token, "secret", now)).toEqual({ link, error: "expired" });
+    });
+  });
+
+  describe("getShareLinkSecret", () => {
+    const originalEnv = process.env;
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    it("uses the JWT secret unless a share link secret is defined", () => {
+      process.env = { ...originalEnv, JWT_SECRET: "jwt", SHARE_LINK_SECRET: "" };
+      expect(getShareLinkSecret()).toBe("jwt");
+
+      process.env.SHARE_LINK_SECRET = "share";
+      expect(getShareLinkSecret()).toBe("share");
+    });
+  });
+
+  describe("createMemoryShareLinkStore", () => {
+    const creator: ShareLinkCreator = { id: 1, email: "owner@example.com", role: "RESEARCHER", affiliationId: "ror-1" };
+
+    it("records and revokes the links", async () => {
+      const store = createMemoryShareLinkStore(now);
+
+      await store.save(link, creator);
+      await expect(store.load("link-1")).resolves.toEqual({ ...link, revoked: false, creator });
+      await expect(store.revoke("link-1")).resolves.toBe(true);
+
+      await expect(store.load("link-1")).resolves.toEqual({ ...link, revoked: true, creator });
+      await expect(store.revoke("unknown")).resolves.toBe(false);
+      await expect(store.load("unknown")).resolves.toBeUndefined();
+    });
+
+    it("forgets the links once they have expired", async () => {
+      const store = createMemoryShareLinkStore(now);
+      await store.save(link, creator);
+
+      time = 3_600_000;
+
+      await expect(store.load("link-1")).resolves.toBeUndefined();
+      await expect(store.revoke("link-1")).resolves.toBe(false);
+    });
+  });
+
+  describe("auditShareLink", () => {
+    it("logs the event along with the link", () => {
+      const logger = { info: jest.fn() } as unknown as Logger;
+
+      auditShareLink(logger, "used", link, { format: "application/pdf", ip: "127.0.0.1" });
+
+      expect(logger.info).toHaveBeenCalledWith(
+        {
+          audit: "shareLink",
+          event: "used",
+          linkId: "link-1",
+          dmpId: "https://doi.org/11.11111/A1B2C3",
+          createdBy: 1,
+          format: "application/pdf",
+          ip: "127.0.0.1",
+        },
+        "Share link used"
+      );
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import express from "express";
+import { Agent, get, Server } from "http";
+import { AddressInfo } from "net";
+import { createServerDrain, ServerDrain, settledWithin } from "../shutdown";
+
+// Lets a test decide when a response is sent
+const deferred = () => {
+  let resolve: () => void;
+  const promise = new Promise<void>((res) => { resolve = res; });
+  return { promise, resolve };
+};
+
+describe("settledWithin", () => {
+  it("returns true when the promise settles before the timeout", async () => {
+    await expect(settledWithin(Promise.resolve(), 1000)).resolves.toBe(true);
+    await expect(settledWithin(Promise.reject(new Error("Failed")), 1000)).resolves.toBe(true);
+  });
+
+  it("returns false when the timeout passes first", async () => {
+    await expect(settledWithin(new Promise(() => undefined), 10)).resolves.toBe(false);
+  });
+});
+
+describe("createServerDrain", () => {
+  let drain: ServerDrain;
+  let server: Server;
+  let agent: Agent;
+  let respond: ReturnType<typeof deferred>;
+
+  // Send a request over a keep-alive connection and collect the response (or the error)
+  const fetch = (path: string): Promise<string> => new Promise((resolve) => {
+    const { port } = server.address() as AddressInfo;
+    get({ port, path, agent }, (res) => {
+      let body = "";
+      res.on("data", (chunk) => { body += chunk; });
+      res.on("end", () => resolve(body));
+    }).on("error", (err) => resolve(err.message));
+  });
+
+  beforeEach(async () => {
+    drain = createServerDrain();
+    respond = deferred();
+    agent = new Agent({ keepAlive: true });
+
+    const app = express();
+    app.use(drain.track);
+    app.get("/slow", async (_req, res) => {
+      await respond.promise;
+      res.send("done");
+    });
+    app.get("/fast", (_req, res) => { res.send("fast"); });
+    await new Promise<void>((resolve) => { server = app.listen(0, () => resolve()); });
+    server.keepAliveTimeout = 60000;
+  });
+
+  afterEach(() => {
+    agent.destroy();
+    server.closeAllConnections();
+  });
+
+  it("closes right away when there are no requests in progress", async () => {
+    await fetch("/fast");
+    const started = Date.now();
+
+    // The keep-alive connection is closed rather than waiting for it to time out
+    await expect(drain.close(server, 2000)).resolves.toEqual([]);
+    expect(server.listening).toBe(false);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it("waits for the requests in progress to finish", async () => {
+    const response = fetch("/slow");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const started = Date.now();
+    const closed = drain.close(server, 2000);
+    expect(server.listening).toBe(false);
+    respond.resolve();
+
+    await expect(response).resolves.toBe("done");
+    await expect(closed).resolves.toEqual([]);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it("returns the requests that were cut off by the timeout without their query strings", async () => {
+    const response = fetch("/slow?share=secret-token");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const cutOff = await drain.close(server, 50);
+    expect(cutOff).toEqual([{ method: "GET", url: "/slow", started: expect.any(String) }]);
+    await expect(response).resolves.toBe("socket hang up");
+    respond.resolve();
+  });
+});
@@ -0,0 +1,56 @@
+import { createSingleFlight } from "../singleFlight";
+
+// Lets a test decide when the work finishes
+const deferred = () => {
+  let resolve: (value: string) => void;
+  let reject: (err: Error) => void;
+  const promise = new Promise<string>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+};
+
+describe("createSingleFlight", () => {
+  it("shares the result of the work with every concurrent caller for the key", async () => {
+    const group = createSingleFlight<string>();
+    const work = deferred();
+    const fn = jest.fn(() => work.promise);
+
+    const calls = [group.run("a", fn), group.run("a", fn), group.run("a", fn)];
+    expect(group.inFlight()).toBe(1);
+
+    work.resolve("done");
+    await expect(Promise.all(calls)).resolves.toEqual(["done", "done", "done"]);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(group.inFlight()).toBe(0);
+  });
+
+  it("runs the work separately for each key", async () => {
+    const group = createSingleFlight<string>();
+
+    const results = await Promise.all([group.run("a", async () => "a"), group.run("b", async () => "b")]);
+
+    expect(results).toEqual(["a", "b"]);
+  });
+
+  it("starts the work again once the previous call has finished", async () => {
+    const group = createSingleFlight<string>();
+    const fn = jest.fn(async () => "done");
+
+    await group.run("a", fn);
+    await group.run("a", fn);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("shares the error with every concurrent caller and forgets the key", async () => {
+    const group = createSingleFlight<string>();
+    const work = deferred();
+
+    const calls = [group.run("a", () => work.promise), group.run("a", () => work.promise)];
+    work.reject(new Error("Failed"));
+
+    await expect(calls[0]).rejects.toThrow("Failed");
+    await expect(calls[1]).rejects.toThrow("Failed");
+    expect(group.inFlight()).toBe(0);
+    await expect(group.run("a", async () => "retried")).resolves.toBe("retried");
+  });
+});
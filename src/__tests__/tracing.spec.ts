@@ -0,0 +1,137 @@
+import { SpanStatusCode, trace } from "@opentelemetry/api";
+import { InMemorySpanExporter, NodeTracerProvider, SimpleSpanProcessor } from "@opentelemetry/sdk-trace-node";
+import express from "express";
+import { Logger } from "pino";
+import request from "supertest";
+import { setSpanAttributes, traceRequest, withSpan, withTraceContext } from "../tracing";
+
+describe("tracing", () => {
+  const exporter = new InMemorySpanExporter();
+  const provider = new NodeTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+
+  beforeAll(() => {
+    provider.register();
+  });
+
+  afterEach(() => {
+    exporter.reset();
+  });
+
+  afterAll(async () => {
+    await provider.shutdown();
+    trace.disable();
+  });
+
+  describe("withSpan", () => {
+    it("records a span with the attributes and returns the result", async () => {
+      await expect(withSpan("dataAccess.loadPlan", { "dmp.id": "11.11111/A1B2C3" }, async () => "plan"))
+        .resolves.toBe("plan");
+
+      const [span] = exporter.getFinishedSpans();
+      expect(span.name).toBe("dataAccess.loadPlan");
+      expect(span.attributes).toEqual({ "dmp.id": "11.11111/A1B2C3" });
+      expect(span.status.code).toBe(SpanStatusCode.UNSET);
+    });
+
+    it("nests spans and records errors", async () => {
+      await expect(withSpan("renderNarrative", {}, () => withSpan("renderPDF", {}, async () => {
+        throw new Error("Render failed");
+      }))).rejects.toThrow("Render failed");
+
+      const [child, parent] = exporter.getFinishedSpans();
+      expect(child.parentSpanContext?.spanId).toBe(parent.spanContext().spanId);
+      expect(child.status).toEqual({ code: SpanStatusCode.ERROR, message: "Render failed" });
+      expect(child.events[0].name).toBe("exception");
+    });
+  });
+
+  describe("setSpanAttributes", () => {
+    it("adds the attributes to the active span", async () => {
+      await withSpan("loadDMP", {}, async () => {
+        setSpanAttributes({ "narrative.regenerated": true });
+      });
+
+      expect(exporter.getFinishedSpans()[0].attributes).toEqual({ "narrative.regenerated": true });
+    });
+
+    it("does nothing when there is no active span", () => {
+      expect(() => setSpanAttributes({ "narrative.regenerated": true })).not.toThrow();
+    });
+  });
+
+  describe("withTraceContext", () => {
+    const mockLogger = { child: jest.fn().mockReturnValue("child logger") } as unknown as Logger;
+
+    it("adds the trace and span ids to the logger", async () => {
+      let ids: { traceId: string, spanId: string };
+      const logger = await withSpan("request", {}, (span) => {
+        ids = span.spanContext();
+        return withTraceContext(mockLogger);
+      });
+
+      expect(logger).toBe("child logger");
+      expect(mockLogger.child).toHaveBeenCalledWith({ trace_id: ids.traceId, span_id: ids.spanId });
+    });
+
+    it("returns the logger when there is no active span", () => {
+      expect(withTraceContext(mockLogger)).toBe(mockLogger);
+    });
+  });
+
+  describe("traceRequest", () => {
+    const app = express();
+    app.use(traceRequest);
+    app.get("/dmps/{*splat}/narrative", async (_req, res) => {
+      await withSpan("dataAccess.loadPlan", {}, async () => undefined);
+      res.status(404).send("DMP not found");
+    });
+    app.get("/fail", (_req, res) => { res.status(500).send("Failed"); });
+
+    it("records a server span for the route with a child span for each stage", async () => {
+      await request(app).get("/dmps/11.11111/A1B2C3/narrative");
+
+      const [child, server] = exporter.getFinishedSpans();
+      expect(server.name).toBe("GET /dmps/{*splat}/narrative");
+      expect(server.attributes).toEqual(expect.objectContaining({
+        "http.request.method": "GET",
+        "http.route": "/dmps/{*splat}/narrative",
+        "http.response.status_code": 404,
+        "url.path": "/dmps/11.11111/A1B2C3/narrative",
+      }));
+      expect(child.parentSpanContext?.spanId).toBe(server.spanContext().spanId);
+    });
+
+    it("continues the trace from the traceparent header", async () => {
+      const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+      await request(app)
+        .get("/dmps/11.11111/A1B2C3/narrative")
+        .set("traceparent", `00-${traceId}-00f067aa0ba902b7-01`);
+
+      const server = exporter.getFinishedSpans()[1];
+      expect(server.spanContext().traceId).toBe(traceId);
+      expect(server.parentSpanContext?.spanId).toBe("00f067aa0ba902b7");
+    });
+
+    it("keeps the span active in handlers after the body has been parsed", async () => {
+      const jsonApp = express();
+      jsonApp.use(express.json());
+      jsonApp.use(traceRequest);
+      jsonApp.post("/narrative", async (req, res) => {
+        await withSpan("renderHTML", {}, async () => undefined);
+        res.json(req.body);
+      });
+
+      await request(jsonApp).post("/narrative").send({ dmp: { title: "Test" } });
+
+      const [child, server] = exporter.getFinishedSpans();
+      expect(server.name).toBe("POST /narrative");
+      expect(child.parentSpanContext?.spanId).toBe(server.spanContext().spanId);
+    });
+
+    it("marks the span as an error for 5xx responses", async () => {
+      await request(app).get("/fail");
+
+      expect(exporter.getFinishedSpans()[0].status.code).toBe(SpanStatusCode.ERROR);
+    });
+  });
+});
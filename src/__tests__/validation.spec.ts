@@ -0,0 +1,69 @@
+import { validateMaDMP } from "../validation";
+
+describe("validateMaDMP", () => {
+  const validMaDMP = {
+    dmp: {
+      title: "Uploaded DMP",
+      language: "eng",
+      created: "2025-01-01T10:00:00Z",
+      modified: "2025-01-02T10:00:00Z",
+      ethical_issues_exist: "unknown",
+      provenance: "dmptool",
+      dmp_id: { identifier: "https://doi.org/10.1234/abcd", type: "doi" },
+      contact: {
+        name: "Alice",
+        mbox: "alice@example.com",
+        contact_id: { identifier: "https://orcid.org/0000-0001-2345-6789", type: "orcid" }
+      },
+      dataset: [
+        {
+          title: "Dataset",
+          dataset_id: { identifier: "https://doi.org/10.1234/data", type: "doi" },
+          personal_data: "no",
+          sensitive_data: "no"
+        }
+      ]
+    }
+  };
+
+  it("returns no errors for a valid maDMP", () => {
+    expect(validateMaDMP(validMaDMP)).toEqual([]);
+  });
+
+  it("returns an error when the maDMP is not an object", () => {
+    expect(validateMaDMP(undefined)).toEqual(["The maDMP must be a JSON object"]);
+    expect(validateMaDMP("dmp")).toEqual(["The maDMP must be a JSON object"]);
+    expect(validateMaDMP([validMaDMP])).toEqual(["The maDMP must be a JSON object"]);
+  });
+
+  it("returns an error when the dmp property is missing", () => {
+    expect(validateMaDMP({ title: "Not wrapped" })).toEqual(['instance requires property "dmp"']);
+  });
+
+  it("returns an error for each invalid property", () => {
+    const errors = validateMaDMP({ dmp: { ...validMaDMP.dmp, title: 123, language: undefined } });
+
+    expect(errors).toContain("instance.dmp.title is not of a type(s) string");
+    expect(errors).toContain('instance.dmp requires property "language"');
+  });
+
+  it("returns an error for each invalid DMP Tool extension property", () => {
+    const errors = validateMaDMP({ dmp: { ...validMaDMP.dmp, provenance: undefined, privacy: "secret" } });
+
+    expect(errors).toContain("instance.dmp.provenance Invalid input: expected string, received undefined");
+    expect(errors).toContainEqual(expect.stringMatching(/^instance\.dmp\.privacy Invalid option/));
+  });
+
+  it("returns the RDA Common Standard and DMP Tool extension errors together", () => {
+    const errors = validateMaDMP({
+      dmp: {
+        ...validMaDMP.dmp,
+        title: 123,
+        narrative: { template: { id: 1, title: "Template", section: [{ order: 1, title: "Section", question: [] }] } }
+      }
+    });
+
+    expect(errors).toContain("instance.dmp.title is not of a type(s) string");
+    expect(errors).toContain("instance.dmp.narrative.template.section[0].id Invalid input: expected number, received undefined");
+  });
+});
@@ -0,0 +1,172 @@
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client
+} from "@aws-sdk/client-s3";
+import { mkdir, readdir, readFile, rm, stat, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { NarrativeDocument } from "./narrative";
+
+/**
+ * Stores the documents produced by render jobs until they are downloaded
+ */
+export interface ArtifactStore {
+  put(id: string, doc: NarrativeDocument): Promise<void>;
+  // Returns undefined if there is no artifact with the id
+  get(id: string): Promise<NarrativeDocument | undefined>;
+  // Remove the documents that were stored more than `ttlSeconds` ago
+  prune(ttlSeconds: number): Promise<void>;
+}
+
+// Only letters, digits, `_` and `-` are used in the file names and object keys
+const safeId = (id: string): string => id.replace(/[^\w-]/g, "_");
+
+/**
+ * Create an artifact store that keeps each document on the filesystem as a body file
+ * and a metadata file
+ *
+ * @param dir The directory to store the documents in
+ * @returns The artifact store
+ */
+export function createFileSystemArtifactStore(dir: string): ArtifactStore {
+  const pathFor = (id: string): string => join(dir, safeId(id));
+
+  return {
+    async put(id: string, doc: NarrativeDocument): Promise<void> {
+      await mkdir(dir, { recursive: true });
+      await writeFile(`${pathFor(id)}.body`, doc.body);
+      await writeFile(`${pathFor(id)}.json`, JSON.stringify({
+        contentType: doc.contentType,
+        extension: doc.extension,
+        disposition: doc.disposition,
+        isText: typeof doc.body === "string",
+      }));
+    },
+
+    async get(id: string): Promise<NarrativeDocument | undefined> {
+      try {
+        const metadata = JSON.parse(await readFile(`${pathFor(id)}.json`, "utf8"));
+        const body = await readFile(`${pathFor(id)}.body`);
+        return {
+          contentType: metadata.contentType,
+          extension: metadata.extension,
+          body: metadata.isText ? body.toString("utf8") : body,
+          disposition: metadata.disposition,
+        };
+      } catch {
+        return undefined;
+      }
+    },
+
+    async prune(ttlSeconds: number): Promise<void> {
+      const cutoff = Date.now() - (ttlSeconds * 1000);
+      let files: string[];
+      try {
+        files = await readdir(dir);
+      } catch {
+        // Nothing has been stored yet
+        return;
+      }
+
+      for (const file of files) {
+        const path = join(dir, file);
+        const stats = await stat(path).catch(() => undefined);
+        if (stats?.isFile() && stats.mtimeMs <= cutoff) {
+          await rm(path, { force: true });
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Create an artifact store that keeps each document as an object in an S3 bucket so that it can be
+ * downloaded from any instance of the service. The content type and disposition are stored with the
+ * object. A lifecycle rule on the prefix can be used to remove the documents as well as `prune`.
+ *
+ * @param client The S3 client
+ * @param bucket The name of the bucket
+ * @param prefix The prefix of the object keys
+ * @returns The artifact store
+ */
+export function createS3ArtifactStore(client: S3Client, bucket: string, prefix: string): ArtifactStore {
+  const keyFor = (id: string): string => `${prefix}${safeId(id)}`;
+
+  return {
+    async put(id: string, doc: NarrativeDocument): Promise<void> {
+      await client.send(new PutObjectCommand({
+        Bucket: bucket,
+        Key: keyFor(id),
+        Body: doc.body,
+        ContentType: doc.contentType,
+        ContentDisposition: doc.disposition,
+        Metadata: { extension: doc.extension, "is-text": String(typeof doc.body === "string") },
+      }));
+    },
+
+    async get(id: string): Promise<NarrativeDocument | undefined> {
+      try {
+        const object = await client.send(new GetObjectCommand({ Bucket: bucket, Key: keyFor(id) }));
+        const body = Buffer.from(await object.Body.transformToByteArray());
+        return {
+          contentType: object.ContentType,
+          extension: object.Metadata?.extension,
+          body: object.Metadata?.["is-text"] === "true" ? body.toString("utf8") : body,
+          disposition: object.ContentDisposition,
+        };
+      } catch (e) {
+        if (e instanceof NoSuchKey) return undefined;
+        throw e;
+      }
+    },
+
+    async prune(ttlSeconds: number): Promise<void> {
+      const cutoff = Date.now() - (ttlSeconds * 1000);
+      let continuationToken: string | undefined;
+      do {
+        const page = await client.send(new ListObjectsV2Command({
+          Bucket: bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }));
+        const expired = (page.Contents ?? [])
+          .filter((object) => object.LastModified && object.LastModified.getTime() <= cutoff)
+          .map((object) => ({ Key: object.Key }));
+        // A page has at most 1,000 objects, which is also the most that can be deleted at once
+        if (expired.length > 0) {
+          await client.send(new DeleteObjectsCommand({ Bucket: bucket, Delete: { Objects: expired, Quiet: true } }));
+        }
+        continuationToken = page.NextContinuationToken;
+      } while (continuationToken);
+    },
+  };
+}
+
+/**
+ * Create the artifact store defined by the env variables:
+ *   - ARTIFACT_STORE_BUCKET: The S3 bucket used to store the documents (required by the `aws` data
+ *     source so that every instance can return them). The documents are stored on the filesystem if not set.
+ *   - ARTIFACT_STORE_PREFIX: The prefix of the S3 object keys (default `narrative-jobs/`)
+ *   - S3_ENDPOINT: The S3 endpoint (e.g. LocalStack when running locally)
+ *   - ARTIFACT_STORE_DIR: The directory used to store the documents on the filesystem (default is the OS temp dir)
+ *
+ * @returns The artifact store
+ */
+export function createArtifactStore(): ArtifactStore {
+  const bucket = process.env.ARTIFACT_STORE_BUCKET;
+  if (bucket) {
+    const client = new S3Client({
+      region: process.env.AWS_REGION || "us-west-2",
+      endpoint: process.env.S3_ENDPOINT,
+      // LocalStack does not support virtual-hosted-style bucket URLs
+      forcePathStyle: process.env.S3_ENDPOINT !== undefined,
+      maxAttempts: Number(process.env.MAX_ATTEMPTS) || 3,
+    });
+    return createS3ArtifactStore(client, bucket, process.env.ARTIFACT_STORE_PREFIX ?? "narrative-jobs/");
+  }
+  return createFileSystemArtifactStore(process.env.ARTIFACT_STORE_DIR || join(tmpdir(), "narrative-artifacts"));
+}
@@ -0,0 +1,714 @@
+import {
+  ConnectionParams,
+  createDMP,
+  DMP_LATEST_VERSION,
+  DynamoConnectionParams,
+  EnvironmentEnum,
+  getDMPs,
+  getSSMParameter,
+  planToDMPCommonStandard,
+  SsmConnectionParams,
+  updateDMP
+} from "@dmptool/utils";
+import {
+  ConditionalCheckFailedException,
+  DeleteItemCommand,
+  DynamoDBClient,
+  GetItemCommand,
+  PutItemCommand,
+  UpdateItemCommand
+} from "@aws-sdk/client-dynamodb";
+import { randomUUID } from "crypto";
+import { JWTAccessToken } from "./helper";
+import { RenderJob } from "./jobs";
+import { createParameterCache, ParameterCache } from "./parameterCache";
+import { createRDSPool, RDSPool, RDSPoolStats } from "./rdsPool";
+import { NarrativeDataSource, PlanInterface, UserPlanInterface } from "./dataAccess";
+import { ShareLink, ShareLinkCreator, ShareLinkRecord } from "./shareLinks";
+import { withSpan } from "./tracing";
+import { Logger } from "pino";
+import { DMPToolDMPType } from "@dmptool/types";
+
+// The SSM parameters and the RDS pool are created on first use so that the env variables have been loaded
+let ssmParameters: ParameterCache | undefined;
+let rdsPool: RDSPool | undefined;
+
+const getSSMParameterCache = (): ParameterCache => {
+  ssmParameters ??= createParameterCache(Number(process.env.SSM_CACHE_TTL_SECONDS) || 300);
+  return ssmParameters;
+}
+
+const getRDSPool = (): RDSPool => {
+  const connectionLimit = Number(process.env.RDS_POOL_SIZE) || 10;
+  rdsPool ??= createRDSPool({
+    connectionLimit,
+    maxIdle: Number(process.env.RDS_POOL_MAX_IDLE) || connectionLimit,
+    idleTimeoutSeconds: Number(process.env.RDS_POOL_IDLE_TIMEOUT_SECONDS) || 60,
+    queueLimit: Number(process.env.RDS_POOL_QUEUE_LIMIT) || 0,
+    connectTimeoutSeconds: Number(process.env.RDS_CONNECT_TIMEOUT_SECONDS) || 10,
+  });
+  return rdsPool;
+}
+
+/**
+ * The current state of the RDS connection pool (all zeros until the first query)
+ *
+ * @returns The pool's stats
+ */
+export function getRDSPoolStats(): RDSPoolStats {
+  return rdsPool?.stats() ?? { connections: 0, active: 0, idle: 0, queued: 0 };
+}
+
+/**
+ * Returns the SSM connection parameters
+ *
+ * @param logger The logger to use for logging
+ * @returns The SSM connection parameters
+ */
+const getSSMConfig = async (
+  logger: Logger,
+): Promise<SsmConnectionParams | undefined> => {
+  // If running locally, the SSM_ENDPOINT variable will be set
+  return {
+    logger,
+    region: process.env.AWS_REGION || 'us-west-2',
+    endpoint: process.env.SSM_ENDPOINT,
+    useTLS: process.env.SSM_ENDPOINT === undefined
+  };
+}
+
+/**
+ * Helper function to get the DynamoDB connection parameters
+ *
+ * @param logger the logger to use for logging
+ * @returns the DynamoDB connection parameters
+ */
+const getDynamoConfig = (
+  logger: Logger
+): DynamoConnectionParams | undefined => {
+  return {
+    logger,
+    region: process.env.AWS_REGION || 'us-west-2',
+    tableName: process.env.DYNAMODB_TABLE_NAME,
+    endpoint: process.env.DYNAMODB_ENDPOINT,
+    maxAttempts: Number(process.env.MAX_ATTEMPTS) || 3
+  };
+}
+
+/**
+ * Helper function to get the RDS connection parameters. The credentials are cached
+ * for SSM_CACHE_TTL_SECONDS.
+ *
+ * @param ssmConfig the configuration for fetching parameters from SSM
+ * @param env the environment to use for fetching parameters from SSM
+ * @returns the RDS connection parameters
+ */
+const getRDSConfig = async (
+  ssmConfig: SsmConnectionParams,
+  env: EnvironmentEnum = EnvironmentEnum.DEV
+): Promise<ConnectionParams | undefined> => {
+  return withSpan('ssm.getRDSConfig', {}, async () => {
+    const cache = getSSMParameterCache();
+    const [rdsUser, rdsPassword] = await Promise.all([
+      cache.get(`${env}/RdsUsername`, () => getSSMParameter(ssmConfig, 'RdsUsername', env)),
+      cache.get(`${env}/RdsPassword`, () => getSSMParameter(ssmConfig, 'RdsPassword', env)),
+    ]);
+
+    if (!rdsUser) {
+      ssmConfig.logger.fatal('Missing RdsUserName in SSM Parameter Store!');
+      return undefined;
+    }
+    if (!rdsPassword) {
+      ssmConfig.logger.fatal('Missing RdsPassword in SSM Parameter Store!');
+      return undefined;
+    }
+
+    return {
+      logger: ssmConfig.logger,
+      host: process.env.RDS_HOST,
+      port: Number(process.env.RDS_PORT) || 3306,
+      user: rdsUser,
+      password: rdsPassword,
+      database: process.env.RDS_DATABASE || 'dmp'
+    };
+  });
+}
+
+/**
+ * Run something that connects to RDS. If RDS rejects the cached credentials (e.g. the password
+ * was rotated) they are reloaded from the SSM Parameter Store and it is run one more time.
+ *
+ * @param logger the logger to use for logging
+ * @param env the environment to use for fetching parameters from SSM
+ * @param run Connects to RDS with the connection parameters
+ * @returns the result of `run`
+ */
+async function withRDSConfig<T>(
+  logger: Logger,
+  env: EnvironmentEnum,
+  run: (rdsConfig: ConnectionParams) => Promise<T>
+): Promise<T> {
+  const ssmConfig = await getSSMConfig(logger);
+  try {
+    return await run(await getRDSConfig(ssmConfig, env));
+  } catch (e) {
+    if (e?.code !== 'ER_ACCESS_DENIED_ERROR') throw e;
+
+    logger.warn('RDS rejected the cached credentials. Reloading them from the SSM Parameter Store');
+    getSSMParameterCache().clear();
+    return run(await getRDSConfig(ssmConfig, env));
+  }
+}
+
+/**
+ * Run a query on the shared RDS connection pool
+ *
+ * @param logger the logger to use for logging
+ * @param env the environment to use for fetching parameters from SSM
+ * @param sql the query
+ * @param values the values for the query's placeholders
+ * @returns the results from RDS
+ */
+async function queryRDS(
+  logger: Logger,
+  env: EnvironmentEnum,
+  sql: string,
+  values: unknown[]
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ results: any, fields: unknown[] }> {
+  return withRDSConfig(logger, env, (rdsConfig) => {
+    if (!rdsConfig) {
+      throw new Error('Unable to load the RDS credentials');
+    }
+    return getRDSPool().query(rdsConfig, sql, values);
+  });
+}
+
+/**
+ * Load the Plan id and access level from RDS for the user's email and the DMP. If the user is listed
+ * as a collaborator more than once, the most permissive access level (`OWN`, then `EDIT`, then `COMMENT`)
+ * is returned.
+ *
+ * @param logger the logger to use for logging
+ * @param token the user's JWT token
+ * @param dmpId the Plan's dmpId
+ * @param env the environment to use for fetching parameters from SSM
+ * @returns the user's access to the Plan or undefined if they are not a collaborator
+ */
+async function loadPlanAccess(
+  logger: Logger,
+  token: JWTAccessToken,
+  dmpId: string,
+  env: EnvironmentEnum
+): Promise<UserPlanInterface | undefined> {
+  if (!token?.email) return undefined;
+
+  const sql = `
+      SELECT p.id, p.dmpId, pcs.accessLevel
+      FROM plans p
+        INNER JOIN projects prj ON p.projectId = prj.id
+          INNER JOIN projectCollaborators pcs ON prj.id = pcs.projectId
+      WHERE p.dmpId = ? AND pcs.email = ?
+      ORDER BY FIELD(pcs.accessLevel, 'COMMENT', 'EDIT', 'OWN') DESC
+      LIMIT 1;
+    `;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const plans: { results: any[], fields: unknown[] } = await queryRDS(logger, env, sql, [dmpId, token.email]);
+  return Array.isArray(plans.results) && plans.results.length > 0 ? plans.results[0] : undefined;
+}
+
+/**
+ * Load the Plan based on its dmpId from RDS.
+ *
+ * @param logger the logger to use for logging
+ * @param dmpId the Plan's dmpId
+ * @param env the environment to use for fetching parameters from SSM
+ * @returns the results from RDS
+ */
+async function loadPlan(
+  logger: Logger,
+  dmpId: string,
+  env: EnvironmentEnum
+): Promise<PlanInterface | undefined> {
+  // Fetch the list of DMPs the user has access to
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const plans: { results: any[], fields: unknown[] } = await queryRDS(
+    logger,
+    env,
+    'SELECT id, dmpId, modified, visibility FROM plans WHERE dmpId = ?',
+    [dmpId]
+  );
+  return Array.isArray(plans.results) ? plans.results[0] : undefined;
+}
+
+/**
+ * Fetch a version of the maDMP record from the DynamoDB table
+ *
+ * @param logger the logger to use for logging
+ * @param domainName the domain name to use for generating links
+ * @param dmpId the DMP id to fetch
+ * @param version the version (modified timestamp) to fetch. Defaults to the latest version
+ * @returns the results from DynamoDB
+ */
+async function loadMaDMP(
+  logger: Logger,
+  domainName: string,
+  dmpId: string,
+  version: string | null
+): Promise<DMPToolDMPType | undefined> {
+  const dynamoConfig: DynamoConnectionParams = getDynamoConfig(logger);
+  const versionToFetch = version ?? DMP_LATEST_VERSION;
+
+  logger.debug(`Fetching maDMP record for ${dmpId} (version: ${versionToFetch}) from DynamoDB`);
+  // Fetch the requested version of the Plan's maDMP JSON from the DynamoDB Table
+  const data: DMPToolDMPType[] = await getDMPs(
+    dynamoConfig,
+    domainName,
+    dmpId,
+    versionToFetch,
+    true
+  );
+  const hasNarrative = Array.isArray(data) && data[0]?.dmp?.narrative !== undefined;
+  logger.debug(`Fetched maDMP record for ${dmpId} (version: ${versionToFetch}). Has narrative? ${hasNarrative}`);
+  return Array.isArray(data) && data.length > 0 ? data[0] : undefined;
+}
+
+/**
+ * Fetch every version of the maDMP record from the DynamoDB table
+ *
+ * @param logger the logger to use for logging
+ * @param domainName the domain name to use for generating links
+ * @param dmpId the DMP id to fetch
+ * @returns the versions of the maDMP record sorted from newest to oldest
+ */
+async function loadMaDMPVersions(
+  logger: Logger,
+  domainName: string,
+  dmpId: string
+): Promise<DMPToolDMPType[]> {
+  const dynamoConfig: DynamoConnectionParams = getDynamoConfig(logger);
+
+  logger.debug(`Fetching all maDMP versions for ${dmpId} from DynamoDB`);
+  // Passing a null version tells getDMPs to return every version of the DMP
+  const data: DMPToolDMPType[] = await getDMPs(
+    dynamoConfig,
+    domainName,
+    dmpId,
+    null,
+    true
+  );
+  if (!Array.isArray(data)) return [];
+
+  const versions = data.filter((version) => version?.dmp);
+  logger.debug(`Fetched ${versions.length} maDMP versions for ${dmpId}`);
+  return versions.sort((a, b) => (b.dmp.modified ?? "").localeCompare(a.dmp.modified ?? ""));
+}
+
+/**
+ * Helper function to persist the maDMP record in DynamoDB
+ *
+ * @param logger The logger to use for logging
+ * @param domainName The domain name to use for generating links
+ * @param dmpId The DMP id to fetch
+ * @param maDMP The maDMP record to persist
+ * @param wasJustOutdated Whether the record already existed in the DynamoDB table
+ */
+async function persistMaDMPRecord(
+  logger: Logger,
+  domainName: string,
+  dmpId: string,
+  maDMP: DMPToolDMPType,
+  wasJustOutdated = false
+): Promise<void> {
+  return withSpan('dynamo.persistMaDMPRecord', { 'dmp.id': dmpId, 'dmp.was_outdated': wasJustOutdated }, async () => {
+    const dynamoConfig: DynamoConnectionParams = getDynamoConfig(logger);
+
+    // If the DynamoDB did have a maDMP record for the plan, then we need to update it
+    if (wasJustOutdated) {
+      await updateDMP(
+        dynamoConfig,
+        domainName,
+        dmpId,
+        maDMP,
+        100, // Use a short grace period since it was missing
+        false // We don't need the extensions returned
+      );
+
+    // Otherwise, we need to create the initial maDMP record for the plan
+    } else {
+      await createDMP(
+        dynamoConfig,
+        domainName,
+        dmpId,
+        maDMP,
+        DMP_LATEST_VERSION,
+        false // We don't need the extensions returned
+      );
+    }
+  });
+}
+
+/**
+ * Generate the maDMP record from the Plan's data in RDS
+ *
+ * @param logger The logger to use for logging
+ * @param env The environment to use for fetching parameters from SSM
+ * @param applicationName The name of the application
+ * @param domainName The domain name to use for generating links
+ * @param plan The Plan to generate the maDMP record for
+ * @returns The maDMP record generated from the Plan's data'
+ */
+async function generateMaDMP(
+  logger: Logger,
+  env: EnvironmentEnum,
+  applicationName: string,
+  domainName: string,
+  plan: PlanInterface
+): Promise<DMPToolDMPType> {
+  // Generate the maDMP record from the Plan's data. `planToDMPCommonStandard` only accepts the connection
+  // settings, so it opens its own RDS connection for each record (outside of the shared pool and its limits)
+  return withRDSConfig(logger, env, (rdsConfig) => planToDMPCommonStandard(
+    rdsConfig,
+    applicationName,
+    domainName,
+    env,
+    plan.id,
+    true
+  ));
+}
+
+// Created on first use and shared by the locks, the share links and the render jobs
+let dynamoClient: DynamoDBClient | undefined;
+
+const getDynamoClient = (logger: Logger): DynamoDBClient => {
+  const { region, endpoint, maxAttempts } = getDynamoConfig(logger);
+  dynamoClient ??= new DynamoDBClient({ region, endpoint, maxAttempts });
+  return dynamoClient;
+}
+
+/**
+ * The DynamoDB table the regeneration locks are written to. Every task must use the same table,
+ * otherwise several tasks could regenerate (and save a new version of) the same maDMP record at once.
+ *
+ * @returns The name of the table
+ */
+function getLockTableName(): string {
+  const tableName = process.env.DYNAMODB_LOCK_TABLE_NAME;
+  if (!tableName) {
+    throw new Error("Missing required environment variable: DYNAMODB_LOCK_TABLE_NAME");
+  }
+  return tableName;
+}
+
+/**
+ * Lock the DMP so that only one task (across every instance of the service) regenerates its maDMP
+ * record at a time. The lock is an item in the DYNAMODB_LOCK_TABLE_NAME table (partition key `lockId`)
+ * that is written with a conditional put. It expires after REGENERATION_LOCK_TTL_SECONDS so that a task
+ * that crashes while holding it does not block the DMP forever (the table's TTL attribute is `expiresAt`).
+ *
+ * @param logger The logger to use for logging
+ * @param dmpId The DMP id
+ * @returns A function that releases the lock or undefined if another task holds the lock
+ */
+async function lockRegeneration(
+  logger: Logger,
+  dmpId: string
+): Promise<(() => Promise<void>) | undefined> {
+  const tableName = getLockTableName();
+
+  return withSpan('dynamo.lockRegeneration', { 'dmp.id': dmpId }, async () => {
+    const lockClient = getDynamoClient(logger);
+    const lockId = `regenerate#${dmpId}`;
+    const owner = randomUUID();
+    const now = Math.floor(Date.now() / 1000);
+    const ttlSeconds = Number(process.env.REGENERATION_LOCK_TTL_SECONDS) || 60;
+
+    try {
+      await lockClient.send(new PutItemCommand({
+        TableName: tableName,
+        Item: {
+          lockId: { S: lockId },
+          owner: { S: owner },
+          expiresAt: { N: String(now + ttlSeconds) },
+        },
+        // Take the lock if no one holds it or the holder's lock has expired
+        ConditionExpression: "attribute_not_exists(lockId) OR expiresAt < :now",
+        ExpressionAttributeValues: { ":now": { N: String(now) } },
+      }));
+    } catch (e) {
+      if (e instanceof ConditionalCheckFailedException) {
+        logger.debug({ dmpId }, 'Another task is regenerating the maDMP record');
+        return undefined;
+      }
+      throw e;
+    }
+
+    return async () => {
+      try {
+        await lockClient.send(new DeleteItemCommand({
+          TableName: tableName,
+          Key: { lockId: { S: lockId } },
+          // The lock may have expired and been taken by another task
+          ConditionExpression: "#owner = :owner",
+          ExpressionAttributeNames: { "#owner": "owner" },
+          ExpressionAttributeValues: { ":owner": { S: owner } },
+        }));
+      } catch (e) {
+        // The lock expires on its own so there is no need to fail the request
+        if (!(e instanceof ConditionalCheckFailedException)) {
+          logger.warn({ dmpId, err: e }, 'Unable to release the maDMP regeneration lock');
+        }
+      }
+    };
+  });
+}
+
+/**
+ * The DynamoDB table the share links are recorded in. The links must be recorded in a table that every
+ * task can see, otherwise a revoked link would still be accepted by the other tasks (and after a restart).
+ *
+ * @returns The name of the table
+ */
+function getShareLinkTableName(): string {
+  const tableName = process.env.DYNAMODB_SHARE_LINK_TABLE_NAME;
+  if (!tableName) {
+    throw new Error("Missing required environment variable: DYNAMODB_SHARE_LINK_TABLE_NAME");
+  }
+  return tableName;
+}
+
+/**
+ * Record a share link in the DYNAMODB_SHARE_LINK_TABLE_NAME table (partition key `linkId`). The item
+ * is removed by the table's TTL (attribute `expiresAt`) once the link has expired.
+ *
+ * @param logger The logger to use for logging
+ * @param link The share link
+ * @param creator The user who created the link
+ */
+async function saveShareLink(
+  logger: Logger,
+  link: ShareLink,
+  creator: ShareLinkCreator
+): Promise<void> {
+  const tableName = getShareLinkTableName();
+  const client = getDynamoClient(logger);
+  await withSpan('dynamo.saveShareLink', { 'share_link.id': link.id }, () => client.send(new PutItemCommand({
+    TableName: tableName,
+    Item: {
+      linkId: { S: link.id },
+      link: { S: JSON.stringify(link) },
+      creator: { S: JSON.stringify(creator) },
+      revoked: { BOOL: false },
+      expiresAt: { N: String(link.expires) },
+    },
+  })));
+}
+
+/**
+ * Load a share link from the DYNAMODB_SHARE_LINK_TABLE_NAME table
+ *
+ * @param logger The logger to use for logging
+ * @param linkId The id of the share link
+ * @returns The share link or undefined if it was never recorded or has expired
+ */
+async function loadShareLink(
+  logger: Logger,
+  linkId: string
+): Promise<ShareLinkRecord | undefined> {
+  const tableName = getShareLinkTableName();
+  const client = getDynamoClient(logger);
+  const { Item } = await withSpan('dynamo.loadShareLink', { 'share_link.id': linkId }, () => client.send(
+    new GetItemCommand({ TableName: tableName, Key: { linkId: { S: linkId } }, ConsistentRead: true })
+  ));
+  // The TTL can take a while to remove the expired items
+  if (!Item?.link?.S || Number(Item.expiresAt?.N) <= Math.floor(Date.now() / 1000)) return undefined;
+
+  return {
+    ...JSON.parse(Item.link.S),
+    revoked: !!Item.revoked?.BOOL,
+    creator: Item.creator?.S ? JSON.parse(Item.creator.S) : undefined,
+  };
+}
+
+/**
+ * Mark a share link in the DYNAMODB_SHARE_LINK_TABLE_NAME table as revoked
+ *
+ * @param logger The logger to use for logging
+ * @param linkId The id of the share link
+ * @returns false if the link was never recorded or has expired
+ */
+async function revokeShareLink(
+  logger: Logger,
+  linkId: string
+): Promise<boolean> {
+  const tableName = getShareLinkTableName();
+  const client = getDynamoClient(logger);
+  try {
+    await withSpan('dynamo.revokeShareLink', { 'share_link.id': linkId }, () => client.send(
+      new UpdateItemCommand({
+        TableName: tableName,
+        Key: { linkId: { S: linkId } },
+        UpdateExpression: "SET revoked = :revoked",
+        ConditionExpression: "attribute_exists(linkId) AND expiresAt > :now",
+        ExpressionAttributeValues: {
+          ":revoked": { BOOL: true },
+          ":now": { N: String(Math.floor(Date.now() / 1000)) },
+        },
+      })
+    ));
+    return true;
+  } catch (e) {
+    if (e instanceof ConditionalCheckFailedException) return false;
+    throw e;
+  }
+}
+
+/**
+ * The DynamoDB table the render jobs are recorded in. The jobs must be recorded in a table that every
+ * task can see, otherwise a job could only be polled on the task that created it.
+ *
+ * @returns The name of the table
+ */
+function getJobTableName(): string {
+  const tableName = process.env.DYNAMODB_JOB_TABLE_NAME;
+  if (!tableName) {
+    throw new Error("Missing required environment variable: DYNAMODB_JOB_TABLE_NAME");
+  }
+  return tableName;
+}
+
+/**
+ * Record the status of a render job in the DYNAMODB_JOB_TABLE_NAME table (partition key `jobId`).
+ * The item is removed by the table's TTL (attribute `expiresAt`).
+ *
+ * @param logger The logger to use for logging
+ * @param job The render job
+ * @param expires When the item can be removed (seconds since the epoch)
+ */
+async function saveRenderJob(
+  logger: Logger,
+  job: RenderJob,
+  expires: number
+): Promise<void> {
+  const tableName = getJobTableName();
+  const client = getDynamoClient(logger);
+  await withSpan('dynamo.saveRenderJob', { 'job.id': job.id }, () => client.send(new PutItemCommand({
+    TableName: tableName,
+    Item: {
+      jobId: { S: job.id },
+      job: { S: JSON.stringify(job) },
+      expiresAt: { N: String(expires) },
+    },
+  })));
+}
+
+/**
+ * Load a render job from the DYNAMODB_JOB_TABLE_NAME table
+ *
+ * @param logger The logger to use for logging
+ * @param jobId The id of the render job
+ * @returns The render job or undefined if it was never recorded or has expired
+ */
+async function loadRenderJob(
+  logger: Logger,
+  jobId: string
+): Promise<RenderJob | undefined> {
+  const tableName = getJobTableName();
+  const client = getDynamoClient(logger);
+  const { Item } = await withSpan('dynamo.loadRenderJob', { 'job.id': jobId }, () => client.send(
+    new GetItemCommand({ TableName: tableName, Key: { jobId: { S: jobId } }, ConsistentRead: true })
+  ));
+  // The TTL can take a while to remove the expired items
+  if (!Item?.job?.S || Number(Item.expiresAt?.N) <= Math.floor(Date.now() / 1000)) return undefined;
+
+  return JSON.parse(Item.job.S);
+}
+
+// The DMP id used to check that the DynamoDB table can be read (it does not need to exist)
+const READINESS_CHECK_DMP_ID = 'narrative-generator-readiness-check';
+
+/**
+ * Check that the RDS credentials can be read from the SSM Parameter Store
+ *
+ * @param logger The logger to use for logging
+ * @param env The environment to use for fetching parameters from SSM
+ * @throws An error if the parameter could not be read
+ */
+async function checkSSM(
+  logger: Logger,
+  env: EnvironmentEnum
+): Promise<void> {
+  const ssmConfig = await getSSMConfig(logger);
+  const rdsUser = await getSSMParameter(ssmConfig, 'RdsUsername', env);
+  if (!rdsUser) {
+    throw new Error('Unable to read RdsUsername from the SSM Parameter Store');
+  }
+}
+
+/**
+ * Check that RDS can be queried
+ *
+ * @param logger The logger to use for logging
+ * @param env The environment to use for fetching parameters from SSM
+ * @throws An error if the query failed
+ */
+async function checkRDS(
+  logger: Logger,
+  env: EnvironmentEnum
+): Promise<void> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const result: { results: any[], fields: unknown[] } = await queryRDS(logger, env, 'SELECT 1', []);
+  if (!Array.isArray(result?.results)) {
+    throw new Error('Unexpected response from RDS');
+  }
+}
+
+/**
+ * Check that the DynamoDB table can be read
+ *
+ * @param logger The logger to use for logging
+ * @param domainName The domain name to use for generating links
+ * @throws An error if the table could not be read
+ */
+async function checkDynamo(
+  logger: Logger,
+  domainName: string
+): Promise<void> {
+  const dynamoConfig: DynamoConnectionParams = getDynamoConfig(logger);
+  await getDMPs(dynamoConfig, domainName, READINESS_CHECK_DMP_ID, DMP_LATEST_VERSION, false);
+}
+
+/**
+ * Create the data source used by the DMP Tool. The Plans are loaded from RDS (using the
+ * credentials in the SSM Parameter Store) and the maDMP records from DynamoDB.
+ *
+ * @returns The data source
+ */
+export function createAWSDataSource(): NarrativeDataSource {
+  return {
+    loadPlanAccess,
+    loadPlan,
+    loadMaDMP,
+    loadMaDMPVersions,
+    generateMaDMP,
+    saveMaDMP: persistMaDMPRecord,
+    lockRegeneration,
+    saveShareLink,
+    loadShareLink,
+    revokeShareLink,
+    saveRenderJob,
+    loadRenderJob,
+    // Called when the service is stopped
+    async close(): Promise<void> {
+      const pool = rdsPool;
+      rdsPool = undefined;
+      ssmParameters = undefined;
+      await pool?.end();
+    },
+    readinessChecks: (logger: Logger, env: EnvironmentEnum, domainName: string) => ({
+      ssm: () => checkSSM(logger, env),
+      rds: () => checkRDS(logger, env),
+      dynamodb: () => checkDynamo(logger, domainName),
+    }),
+  };
+}
@@ -0,0 +1,276 @@
+import puppeteer, { Browser, BrowserEvent, Page } from "puppeteer";
+
+/**
+ * The settings for a browser pool
+ */
+export interface BrowserPoolOptions {
+  // The number of browsers to keep running
+  size: number,
+  // The maximum number of pages that can be in use at once (across all browsers)
+  maxConcurrentPages: number,
+  // A browser is restarted once it has rendered this many pages
+  maxRendersPerBrowser: number,
+}
+
+/**
+ * The current state of a browser pool
+ */
+export interface BrowserPoolStats {
+  // The number of browsers that are running (including ones waiting to be restarted)
+  browsers: number,
+  activePages: number,
+  idlePages: number,
+  // The number of renders waiting for a page
+  queued: number,
+  renders: number,
+  launches: number,
+  // The number of browsers restarted after reaching `maxRendersPerBrowser`
+  restarts: number,
+  // The number of browsers that crashed or failed to launch
+  crashes: number,
+}
+
+/**
+ * A pool of headless browsers
+ */
+export interface BrowserPool {
+  // Run the function with a page from the pool. The page is returned to the pool afterward.
+  withPage<T>(fn: (page: Page) => Promise<T>): Promise<T>,
+  // Launch the browsers ahead of time so that the first renders are not slowed down
+  warm(): Promise<void>,
+  stats(): BrowserPoolStats,
+  // Check that the browsers respond (a browser is launched if none are running)
+  ping(): Promise<void>,
+  // Wait (up to the timeout) for the active renders to finish and then close the browsers
+  shutdown(timeoutMs?: number): Promise<void>,
+}
+
+/**
+ * A browser in the pool
+ */
+interface BrowserInstance {
+  browser: Promise<Browser>,
+  idlePages: Page[],
+  activePages: number,
+  renders: number,
+  // Set once the browser has been removed from the pool (it is closed once its active pages are done)
+  retired: boolean,
+}
+
+/**
+ * Launch headless Chromium
+ *
+ * @returns The browser
+ */
+export async function launchBrowser(): Promise<Browser> {
+  return puppeteer.launch({
+    // This path is where `apt-get` installs Chromium.
+    executablePath: '/usr/bin/chromium',
+    headless: true,
+    args: ["--no-sandbox", "--disable-setuid-sandbox"],
+  });
+}
+
+/**
+ * Close a page or browser, ignoring any errors (e.g. because the browser already crashed)
+ *
+ * @param target The page or browser to close
+ */
+async function closeQuietly(target: { close(): Promise<void> } | undefined): Promise<void> {
+  try {
+    await target?.close();
+  } catch {
+    // The page or browser is already gone
+  }
+}
+
+/**
+ * Create a pool of headless browsers. Browsers are launched on demand (or ahead of
+ * time via `warm`) and pages are reused between renders.
+ *
+ * @param options The pool settings
+ * @param launch Launches a browser
+ * @returns The browser pool
+ */
+export function createBrowserPool(
+  options: BrowserPoolOptions,
+  launch: () => Promise<Browser> = launchBrowser
+): BrowserPool {
+  const instances: BrowserInstance[] = [];
+  const retiring = new Set<BrowserInstance>();
+  const waiting: { resolve: () => void, reject: (err: Error) => void }[] = [];
+  let drained: (() => void)[] = [];
+  let activePages = 0;
+  let closing = false;
+  const counts = { renders: 0, launches: 0, restarts: 0, crashes: 0 };
+
+  // Remove a browser from the pool so that no new pages are opened in it
+  const retire = (instance: BrowserInstance): void => {
+    if (instance.retired) return;
+    instance.retired = true;
+    instances.splice(instances.indexOf(instance), 1);
+    retiring.add(instance);
+  };
+
+  // Close a retired browser (any renders still using it will fail)
+  const closeInstance = async (instance: BrowserInstance): Promise<void> => {
+    retiring.delete(instance);
+    const pages = instance.idlePages.splice(0);
+    await Promise.all(pages.map((page) => closeQuietly(page)));
+    await closeQuietly(await instance.browser.catch(() => undefined));
+  };
+
+  // Close a retired browser once it has no active pages
+  const closeIfIdle = async (instance: BrowserInstance): Promise<void> => {
+    if (!instance.retired || instance.activePages > 0 || !retiring.has(instance)) return;
+    await closeInstance(instance);
+  };
+
+  const startBrowser = (): BrowserInstance => {
+    counts.launches++;
+    const instance: BrowserInstance = {
+      browser: launch(),
+      idlePages: [],
+      activePages: 0,
+      renders: 0,
+      retired: false,
+    };
+
+    // Browsers that crash or fail to launch are replaced the next time a page is needed
+    const replace = (): void => {
+      // Browsers that we closed ourselves have already been retired
+      if (instance.retired) return;
+      counts.crashes++;
+      instance.idlePages = [];
+      retire(instance);
+      void closeIfIdle(instance);
+    };
+    instance.browser.then((browser) => browser.on(BrowserEvent.Disconnected, replace), replace);
+
+    instances.push(instance);
+    return instance;
+  };
+
+  // Use the browser with the fewest active pages (launching a new one if the pool is not full)
+  const pickInstance = (): BrowserInstance => {
+    if (instances.length < options.size) return startBrowser();
+    return instances.reduce((best, instance) => instance.activePages < best.activePages ? instance : best);
+  };
+
+  const acquireSlot = async (): Promise<void> => {
+    if (activePages < options.maxConcurrentPages) {
+      activePages++;
+      return;
+    }
+    // The slot is handed over directly by `releaseSlot` so `activePages` does not change
+    await new Promise<void>((resolve, reject) => waiting.push({ resolve, reject }));
+  };
+
+  const releaseSlot = (): void => {
+    const next = waiting.shift();
+    if (next) {
+      next.resolve();
+      return;
+    }
+
+    activePages--;
+    if (activePages === 0) {
+      drained.forEach((resolve) => resolve());
+      drained = [];
+    }
+  };
+
+  const withPage = async <T>(fn: (page: Page) => Promise<T>): Promise<T> => {
+    if (closing) throw new Error("The browser pool is shutting down");
+    await acquireSlot();
+
+    const instance = pickInstance();
+    instance.activePages++;
+    let page: Page | undefined;
+    let succeeded = false;
+    try {
+      const browser = await instance.browser;
+      page = instance.idlePages.pop() ?? await browser.newPage();
+      const result = await fn(page);
+      succeeded = true;
+      return result;
+    } finally {
+      instance.activePages--;
+      if (page) {
+        instance.renders++;
+        counts.renders++;
+      }
+
+      // Pages are only reused if the render worked, since a failure may have left the page in a bad state
+      if (succeeded && !instance.retired) {
+        instance.idlePages.push(page);
+      } else {
+        await closeQuietly(page);
+      }
+
+      if (!instance.retired && instance.renders >= options.maxRendersPerBrowser) {
+        counts.restarts++;
+        retire(instance);
+      }
+      await closeIfIdle(instance);
+      releaseSlot();
+    }
+  };
+
+  return {
+    withPage,
+
+    async warm(): Promise<void> {
+      while (instances.length < options.size) {
+        startBrowser();
+      }
+      await Promise.all(instances.map(async (instance) => {
+        const browser = await instance.browser;
+        if (instance.idlePages.length === 0) {
+          instance.idlePages.push(await browser.newPage());
+        }
+      }));
+    },
+
+    stats(): BrowserPoolStats {
+      return {
+        browsers: instances.length + retiring.size,
+        activePages,
+        idlePages: instances.reduce((sum, instance) => sum + instance.idlePages.length, 0),
+        queued: waiting.length,
+        ...counts,
+      };
+    },
+
+    async ping(): Promise<void> {
+      if (closing) throw new Error("The browser pool is shutting down");
+      if (instances.length === 0) startBrowser();
+
+      await Promise.all(instances.map(async (instance) => {
+        const browser = await instance.browser;
+        await browser.version();
+      }));
+    },
+
+    async shutdown(timeoutMs = Infinity): Promise<void> {
+      closing = true;
+      waiting.splice(0).forEach(({ reject }) => reject(new Error("The browser pool is shutting down")));
+
+      if (activePages > 0) {
+        let timer: NodeJS.Timeout | undefined;
+        await Promise.race([
+          new Promise<void>((resolve) => drained.push(resolve)),
+          new Promise<void>((resolve) => {
+            if (timeoutMs !== Infinity) timer = setTimeout(resolve, timeoutMs);
+          }),
+        ]);
+        clearTimeout(timer);
+      }
+      [...instances].forEach(retire);
+      // Renders that have not finished by now are cut off
+      await Promise.all([...retiring].map(closeInstance));
+      // The pool can be used again afterward (new browsers are launched on demand)
+      closing = false;
+    },
+  };
+}
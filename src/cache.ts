@@ -0,0 +1,347 @@
+import { createHash } from "crypto";
+import { mkdir, readdir, readFile, rm, stat, utimes, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { Logger } from "pino";
+import { NarrativeDocument } from "./narrative";
+import { RedactionLevel } from "./permissions";
+import { OptionsInterface } from "./options";
+
+/**
+ * Identifies a rendered narrative in the cache
+ */
+export interface NarrativeCacheKey {
+  dmpId: string,
+  // A hash of the DMP id, maDMP modified timestamp, format and rendering options
+  hash: string,
+}
+
+/**
+ * A store for rendered narratives. Implementations are responsible for enforcing
+ * their own size and TTL limits.
+ */
+export interface NarrativeCache {
+  get(key: NarrativeCacheKey): Promise<NarrativeDocument | undefined>;
+  set(key: NarrativeCacheKey, doc: NarrativeDocument): Promise<void>;
+  // Remove every cached narrative for the DMP
+  invalidate(dmpId: string): Promise<void>;
+}
+
+/**
+ * The limits that apply to a cache
+ */
+export interface NarrativeCacheLimits {
+  maxBytes: number,
+  ttlSeconds: number,
+}
+
+/**
+ * Build the cache key for a rendered narrative
+ *
+ * @param dmpId The full DMP id (including the EZID base URL)
+ * @param modified The modified timestamp of the maDMP record
+ * @param format The media type being rendered
+ * @param options The rendering options from the query params
+ * @param redaction What was removed from the maDMP record (see `redactMaDMP`)
+ * @returns The cache key
+ */
+export function narrativeCacheKey(
+  dmpId: string,
+  modified: string,
+  format: string,
+  options: OptionsInterface,
+  redaction: RedactionLevel = "none"
+): NarrativeCacheKey {
+  const hash = createHash("sha256")
+    .update(JSON.stringify({ dmpId, modified, format, options, redaction }))
+    .digest("base64url");
+  return { dmpId, hash };
+}
+
+/**
+ * Create an in-memory cache that evicts the least recently used narratives once
+ * the total size of the cached documents exceeds the limit
+ *
+ * @param limits The size and TTL limits
+ * @returns The cache
+ */
+export function createMemoryCache(limits: NarrativeCacheLimits): NarrativeCache {
+  // A Map iterates in insertion order, so the first entry is always the least recently used
+  const entries = new Map<string, { dmpId: string, doc: NarrativeDocument, size: number, expires: number }>();
+  let totalBytes = 0;
+
+  const remove = (hash: string): void => {
+    const entry = entries.get(hash);
+    if (entry) {
+      totalBytes -= entry.size;
+      entries.delete(hash);
+    }
+  };
+
+  return {
+    async get(key: NarrativeCacheKey): Promise<NarrativeDocument | undefined> {
+      const entry = entries.get(key.hash);
+      if (!entry) return undefined;
+
+      if (entry.expires <= Date.now()) {
+        remove(key.hash);
+        return undefined;
+      }
+      // Move the entry to the end so that it is the most recently used
+      entries.delete(key.hash);
+      entries.set(key.hash, entry);
+      return entry.doc;
+    },
+
+    async set(key: NarrativeCacheKey, doc: NarrativeDocument): Promise<void> {
+      const size = Buffer.byteLength(doc.body);
+      remove(key.hash);
+      if (size > limits.maxBytes) return;
+
+      entries.set(key.hash, { dmpId: key.dmpId, doc, size, expires: Date.now() + (limits.ttlSeconds * 1000) });
+      totalBytes += size;
+      while (totalBytes > limits.maxBytes) {
+        remove(entries.keys().next().value);
+      }
+    },
+
+    async invalidate(dmpId: string): Promise<void> {
+      for (const [hash, entry] of entries) {
+        if (entry.dmpId === dmpId) remove(hash);
+      }
+    },
+  };
+}
+
+/**
+ * Create a cache that stores the narratives on the filesystem. Each DMP has its own
+ * directory and each narrative is stored as a body file and a metadata file. The least
+ * recently used narratives are removed once the total size exceeds the limit.
+ *
+ * The size of each narrative is kept in memory so that the directory is only read once (when the
+ * first narrative is added). Narratives written by another process using the same directory are not
+ * counted until this one restarts.
+ *
+ * @param dir The directory to store the narratives in
+ * @param limits The size and TTL limits
+ * @returns The cache
+ */
+export function createFileSystemCache(dir: string, limits: NarrativeCacheLimits): NarrativeCache {
+  const dmpDir = (dmpId: string): string => join(dir, createHash("sha256").update(dmpId).digest("base64url"));
+
+  // The size of each cached narrative keyed by its path. A Map iterates in insertion order, so the
+  // first entry is always the least recently used.
+  let index: Promise<Map<string, number>> | undefined;
+  let totalBytes = 0;
+
+  const forget = (entries: Map<string, number>, path: string): void => {
+    const size = entries.get(path);
+    if (size !== undefined) {
+      totalBytes -= size;
+      entries.delete(path);
+    }
+  };
+
+  // Read the narratives left in the directory (e.g. before a restart) from the oldest to the newest
+  const loadIndex = async (): Promise<Map<string, number>> => {
+    const files: { path: string, size: number, mtime: number }[] = [];
+    await mkdir(dir, { recursive: true });
+    for (const dmp of await readdir(dir, { withFileTypes: true })) {
+      if (!dmp.isDirectory()) continue;
+
+      for (const file of await readdir(join(dir, dmp.name))) {
+        if (!file.endsWith(".body")) continue;
+        const path = join(dir, dmp.name, file.slice(0, -".body".length));
+        const stats = await stat(`${path}.body`);
+        files.push({ path, size: stats.size, mtime: stats.mtimeMs });
+      }
+    }
+
+    totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+    return new Map(files.sort((a, b) => a.mtime - b.mtime).map((file) => [file.path, file.size]));
+  };
+
+  const getIndex = (): Promise<Map<string, number>> => {
+    if (!index) {
+      index = loadIndex();
+      // Try again the next time if the directory could not be read
+      index.catch(() => { index = undefined; });
+    }
+    return index;
+  };
+
+  const removeEntry = async (path: string): Promise<void> => {
+    await rm(`${path}.body`, { force: true });
+    await rm(`${path}.json`, { force: true });
+  };
+
+  // Remove the least recently used narratives until the cache is within its size limit
+  const enforceSizeLimit = async (entries: Map<string, number>): Promise<void> => {
+    const evicted: string[] = [];
+    for (const path of entries.keys()) {
+      if (totalBytes <= limits.maxBytes) break;
+      forget(entries, path);
+      evicted.push(path);
+    }
+    for (const path of evicted) {
+      await removeEntry(path);
+    }
+  };
+
+  return {
+    async get(key: NarrativeCacheKey): Promise<NarrativeDocument | undefined> {
+      const path = join(dmpDir(key.dmpId), key.hash);
+      let metadata: { contentType: string, extension: string, disposition?: string, isText: boolean, expires: number };
+      try {
+        metadata = JSON.parse(await readFile(`${path}.json`, "utf8"));
+      } catch {
+        return undefined;
+      }
+
+      if (metadata.expires <= Date.now()) {
+        if (index) forget(await index, path);
+        await removeEntry(path);
+        return undefined;
+      }
+
+      const body = await readFile(`${path}.body`);
+      // Touch the body so that it is treated as the most recently used (the modified time keeps
+      // the order when the index is rebuilt after a restart)
+      const now = new Date();
+      await utimes(`${path}.body`, now, now);
+      if (index) {
+        const entries = await index;
+        const size = entries.get(path);
+        if (size !== undefined) {
+          entries.delete(path);
+          entries.set(path, size);
+        }
+      }
+      return {
+        contentType: metadata.contentType,
+        extension: metadata.extension,
+        body: metadata.isText ? body.toString("utf8") : body,
+        disposition: metadata.disposition,
+      };
+    },
+
+    async set(key: NarrativeCacheKey, doc: NarrativeDocument): Promise<void> {
+      const size = Buffer.byteLength(doc.body);
+      if (size > limits.maxBytes) return;
+
+      const entries = await getIndex();
+      const path = join(dmpDir(key.dmpId), key.hash);
+      await mkdir(dmpDir(key.dmpId), { recursive: true });
+      await writeFile(`${path}.body`, doc.body);
+      await writeFile(`${path}.json`, JSON.stringify({
+        contentType: doc.contentType,
+        extension: doc.extension,
+        disposition: doc.disposition,
+        isText: typeof doc.body === "string",
+        expires: Date.now() + (limits.ttlSeconds * 1000),
+      }));
+      forget(entries, path);
+      entries.set(path, size);
+      totalBytes += size;
+      await enforceSizeLimit(entries);
+    },
+
+    async invalidate(dmpId: string): Promise<void> {
+      const prefix = dmpDir(dmpId);
+      if (index) {
+        const entries = await index;
+        for (const path of [...entries.keys()]) {
+          if (dirname(path) === prefix) forget(entries, path);
+        }
+      }
+      await rm(prefix, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Create the narrative cache defined by the env variables:
+ *   - NARRATIVE_CACHE: `memory` (default), `filesystem` or `none`
+ *   - NARRATIVE_CACHE_MAX_MB: The maximum total size of the cached narratives (default `100`)
+ *   - NARRATIVE_CACHE_TTL_SECONDS: How long a narrative is cached for (default `3600`)
+ *   - NARRATIVE_CACHE_DIR: The directory used by the `filesystem` cache (default is the OS temp dir)
+ *
+ * @returns The cache or null if caching is disabled
+ */
+export function createNarrativeCache(): NarrativeCache | null {
+  const limits: NarrativeCacheLimits = {
+    maxBytes: (Number(process.env.NARRATIVE_CACHE_MAX_MB) || 100) * 1024 * 1024,
+    ttlSeconds: Number(process.env.NARRATIVE_CACHE_TTL_SECONDS) || 3600,
+  };
+
+  switch (process.env.NARRATIVE_CACHE?.trim().toLowerCase()) {
+    case "none":
+      return null;
+    case "filesystem":
+      return createFileSystemCache(process.env.NARRATIVE_CACHE_DIR || join(tmpdir(), "narrative-cache"), limits);
+    default:
+      return createMemoryCache(limits);
+  }
+}
+
+/**
+ * Return the cached narrative if there is one, otherwise render it and add it to the cache.
+ * Problems with the cache are logged but never prevent the narrative from being rendered.
+ *
+ * @param logger The logger to use for logging
+ * @param cache The cache (or null if caching is disabled)
+ * @param key The cache key (see `narrativeCacheKey`)
+ * @param render Renders the narrative
+ * @returns The narrative document
+ */
+export async function renderWithCache(
+  logger: Logger,
+  cache: NarrativeCache | null,
+  key: NarrativeCacheKey,
+  render: () => Promise<NarrativeDocument | undefined>
+): Promise<NarrativeDocument | undefined> {
+  if (!cache) return render();
+
+  try {
+    const cached = await cache.get(key);
+    if (cached) {
+      logger.debug({ dmpId: key.dmpId, cacheKey: key.hash }, "Narrative cache hit");
+      return cached;
+    }
+  } catch (e) {
+    logger.warn({ dmpId: key.dmpId, err: e }, "Unable to read from the narrative cache");
+  }
+
+  logger.debug({ dmpId: key.dmpId, cacheKey: key.hash }, "Narrative cache miss");
+  const doc = await render();
+  if (doc) {
+    try {
+      await cache.set(key, doc);
+    } catch (e) {
+      logger.warn({ dmpId: key.dmpId, err: e }, "Unable to add the narrative to the cache");
+    }
+  }
+  return doc;
+}
+
+/**
+ * Remove every cached narrative for the DMP (e.g. after its maDMP record was regenerated)
+ *
+ * @param logger The logger to use for logging
+ * @param cache The cache (or null if caching is disabled)
+ * @param dmpId The full DMP id (including the EZID base URL)
+ */
+export async function invalidateNarrativeCache(
+  logger: Logger,
+  cache: NarrativeCache | null,
+  dmpId: string
+): Promise<void> {
+  if (!cache) return;
+
+  try {
+    await cache.invalidate(dmpId);
+    logger.debug({ dmpId }, "Invalidated the cached narratives");
+  } catch (e) {
+    logger.warn({ dmpId, err: e }, "Unable to invalidate the cached narratives");
+  }
+}
@@ -5,7 +5,7 @@ import {
   NumberRangeAnswerType,
   TextAreaAnswerType
 } from "@dmptool/types";
-import { DisplayOptionsInterface } from "./server";
+import { DisplayOptionsInterface } from "./options";
 import { formatDate } from "./helper";
 import { stringify } from "csv-stringify/sync";
 import {DMPExtensionNarrative} from "@dmptool/utils";
@@ -1,17 +1,13 @@
-import {
-  ConnectionParams,
-  createDMP,
-  DMP_LATEST_VERSION,
-  DynamoConnectionParams,
-  EnvironmentEnum,
-  getDMPs,
-  getSSMParameter,
-  planToDMPCommonStandard,
-  queryTable,
-  SsmConnectionParams,
-  updateDMP
-} from "@dmptool/utils";
+import { convertMySQLDateTimeToRFC3339, DMP_LATEST_VERSION, EnvironmentEnum } from "@dmptool/utils";
+import { join } from "path";
+import { createAWSDataSource } from "./awsDataSource";
 import { JWTAccessToken } from "./helper";
+import { RenderJob } from "./jobs";
+import { createLocalDataSource } from "./localDataSource";
+import { ReadinessChecks } from "./readiness";
+import { ShareLink, ShareLinkCreator, ShareLinkRecord } from "./shareLinks";
+import { createSingleFlight } from "./singleFlight";
+import { withSpan } from "./tracing";
 import { Logger } from "pino";
 import { DMPToolDMPType } from "@dmptool/types";
 
@@ -35,243 +31,249 @@ export interface PlanInterface {
 }
 
 /**
- * Returns the SSM connection parameters
- *
- * @param logger The logger to use for logging
- * @returns The SSM connection parameters
+ * Where the Plans and their maDMP records are loaded from. The functions in this file
+ * delegate to the data source defined by the DATA_SOURCE env variable (see `createDataSource`).
  */
-const getSSMConfig = async (
-  logger: Logger,
-): Promise<SsmConnectionParams | undefined> => {
-  // If running locally, the SSM_ENDPOINT variable will be set
-  return {
-    logger,
-    region: process.env.AWS_REGION || 'us-west-2',
-    endpoint: process.env.SSM_ENDPOINT,
-    useTLS: process.env.SSM_ENDPOINT === undefined
-  };
+export interface NarrativeDataSource {
+  // The user's (identified by the token's email) access to the Plan or undefined if they are not a collaborator
+  loadPlanAccess(
+    logger: Logger,
+    token: JWTAccessToken,
+    dmpId: string,
+    env: EnvironmentEnum
+  ): Promise<UserPlanInterface | undefined>;
+  loadPlan(logger: Logger, dmpId: string, env: EnvironmentEnum): Promise<PlanInterface | undefined>;
+  // Loads the latest version if no version is specified
+  loadMaDMP(
+    logger: Logger,
+    domainName: string,
+    dmpId: string,
+    version: string | null
+  ): Promise<DMPToolDMPType | undefined>;
+  // Sorted from newest to oldest
+  loadMaDMPVersions(logger: Logger, domainName: string, dmpId: string): Promise<DMPToolDMPType[]>;
+  // Generate the current maDMP record from the Plan's data (without saving it)
+  generateMaDMP(
+    logger: Logger,
+    env: EnvironmentEnum,
+    applicationName: string,
+    domainName: string,
+    plan: PlanInterface
+  ): Promise<DMPToolDMPType>;
+  // Save a generated maDMP record (`wasJustOutdated` if a previous version of the record exists)
+  saveMaDMP(
+    logger: Logger,
+    domainName: string,
+    dmpId: string,
+    maDMP: DMPToolDMPType,
+    wasJustOutdated: boolean
+  ): Promise<void>;
+  // Lock the DMP so that only one task regenerates its maDMP record at a time. Resolves to a
+  // function that releases the lock or to undefined if another task holds the lock.
+  lockRegeneration(logger: Logger, dmpId: string): Promise<(() => Promise<void>) | undefined>;
+  // Record a share link so that it can be revoked (see `shareLinks`)
+  saveShareLink(logger: Logger, link: ShareLink, creator: ShareLinkCreator): Promise<void>;
+  // Undefined if the link was never recorded or has expired
+  loadShareLink(logger: Logger, linkId: string): Promise<ShareLinkRecord | undefined>;
+  // Resolves to false if the link was never recorded or has expired
+  revokeShareLink(logger: Logger, linkId: string): Promise<boolean>;
+  // Record the status of a render job so that every task can see it (see `createJobManager`)
+  saveRenderJob(logger: Logger, job: RenderJob, expires: number): Promise<void>;
+  // Undefined if the job was never recorded or has expired
+  loadRenderJob(logger: Logger, jobId: string): Promise<RenderJob | undefined>;
+  // Close any connections the data source holds open (e.g. when the service is stopped)
+  close(): Promise<void>;
+  // The checks for the services the data source depends on (see `checkReadiness`)
+  readinessChecks(logger: Logger, env: EnvironmentEnum, domainName: string): ReadinessChecks;
 }
 
 /**
- * Helper function to get the DynamoDB connection parameters
+ * Create the data source defined by the env variables:
+ *   - DATA_SOURCE: `aws` (the default) or `local`
+ *   - DATA_FIXTURES_DIR: The directory used by the `local` data source (default is `./fixtures`)
  *
- * @param logger the logger to use for logging
- * @returns the DynamoDB connection parameters
+ * @returns The data source
  */
-const getDynamoConfig = (
-  logger: Logger
-): DynamoConnectionParams | undefined => {
-  return {
-    logger,
-    region: process.env.AWS_REGION || 'us-west-2',
-    tableName: process.env.DYNAMODB_TABLE_NAME,
-    endpoint: process.env.DYNAMODB_ENDPOINT,
-    maxAttempts: Number(process.env.MAX_ATTEMPTS) || 3
-  };
+export function createDataSource(): NarrativeDataSource {
+  switch ((process.env.DATA_SOURCE || "aws").toLowerCase()) {
+    case "local":
+      return createLocalDataSource(process.env.DATA_FIXTURES_DIR || join(process.cwd(), "fixtures"));
+    default:
+      return createAWSDataSource();
+  }
 }
 
-/**
- * Helper function to get the RDS connection parameters
- *
- * @param ssmConfig the configuration for fetching parameters from SSM
- * @param env the environment to use for fetching parameters from SSM
- * @returns the RDS connection parameters
- */
-const getRDSConfig = async (
-  ssmConfig: SsmConnectionParams,
-  env: EnvironmentEnum = EnvironmentEnum.DEV
-): Promise<ConnectionParams | undefined> => {
-  const rdsUser = await getSSMParameter(ssmConfig, 'RdsUsername', env);
-  const rdsPassword = await getSSMParameter(ssmConfig, 'RdsPassword', env);
-
-  if (!rdsUser) {
-    ssmConfig.logger.fatal('Missing RdsUserName in SSM Parameter Store!');
-    return undefined;
-  }
-  if (!rdsPassword) {
-    ssmConfig.logger.fatal('Missing RdsPassword in SSM Parameter Store!');
-    return undefined;
-  }
+// Created on first use so that the env variables have been loaded by then
+let dataSource: NarrativeDataSource | undefined;
 
-  return {
-    logger: ssmConfig.logger,
-    host: process.env.RDS_HOST,
-    port: Number(process.env.RDS_PORT) || 3306,
-    user: rdsUser,
-    password: rdsPassword,
-    database: process.env.RDS_DATABASE || 'dmp'
-  };
+const getDataSource = (): NarrativeDataSource => {
+  dataSource ??= createDataSource();
+  return dataSource;
 }
 
 /**
- * Determines if the user has permission to download the narrative
- *
- * @param data The maDMP record for the DMP
- * @param userDMPs The list of DMPs the user has access to
- * @param token The user's JWT token
- * @returns true if the user has permission to download the narrative
+ * Close the data source's connections. The next call to one of the functions in this file creates
+ * a new data source.
  */
-export function hasPermissionToDownloadNarrative(
-  data: DMPToolDMPType,
-  userDMPs: UserPlanInterface[],
-  token: JWTAccessToken | undefined
-): boolean {
-  // Public plans are always available for download
-  if (data?.dmp?.privacy === "public") return true;
+export async function closeDataSource(): Promise<void> {
+  const current = dataSource;
+  dataSource = undefined;
+  await current?.close();
+}
 
-  // Otherwise a token is required so bail out if it's not present
-  if (!token) return false;
+// The maDMP records being regenerated by this process (keyed by DMP id and whether they are saved)
+const regenerations = createSingleFlight<DMPToolDMPType>();
 
-  // SuperAdmins can always access DMP narratives
-  if (token?.role === "SUPERADMIN") return true;
+// How often to check whether another task has saved the maDMP record it is regenerating
+const REGENERATION_POLL_MS = 500;
 
-  const affiliations = [data.dmp.contact?.affiliation[0]?.affiliation_id?.identifier];
+// Whether the maDMP record is up to date with the Plan (the same check the narrative routes use)
+const isCurrentMaDMP = (maDMP: DMPToolDMPType | undefined, plan: PlanInterface): boolean =>
+  !!maDMP?.dmp?.narrative && maDMP.dmp.modified === convertMySQLDateTimeToRFC3339(plan.modified);
 
-  // Now collect all the contributors
-  if (Array.isArray(data.dmp.contributor)) {
-    affiliations.push(...data.dmp.contributor.map(c => c?.affiliation[0]?.affiliation_id?.identifier));
-  }
+/**
+ * Wait for another task to save the maDMP record it is regenerating
+ *
+ * @param logger The logger to use for logging
+ * @param domainName The domain name to use for generating links
+ * @param plan The Plan whose maDMP record is being regenerated
+ * @returns The saved maDMP record or undefined if it was not saved within REGENERATION_WAIT_SECONDS
+ */
+async function waitForRegeneratedMaDMP(
+  logger: Logger,
+  domainName: string,
+  plan: PlanInterface
+): Promise<DMPToolDMPType | undefined> {
+  const deadline = Date.now() + (Number(process.env.REGENERATION_WAIT_SECONDS) || 10) * 1000;
 
-  // Admins can always access DMP narratives for DMPs that belong to their affiliation
-  return (token?.role === "ADMIN" && affiliations.includes(token?.affiliationId))
-    // Researchers can access the narrative if the DMP is one associated with their token
-    || userDMPs?.some(d => d.dmpId === data?.dmp.dmp_id?.identifier);
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, REGENERATION_POLL_MS));
+    const maDMP = await getDataSource().loadMaDMP(logger, domainName, plan.dmpId, null);
+    if (isCurrentMaDMP(maDMP, plan)) return maDMP;
+  }
+  return undefined;
 }
 
 /**
- * Load all of the Plan ids and access levels from RDS for the user's email.'
+ * Load the user's (identified by their email) Plan id and access level for the DMP.
  *
  * @param logger the logger to use for logging
  * @param token the user's JWT token
+ * @param dmpId the DMP ID (with the protocol and domain)
  * @param env the environment to use for fetching parameters from SSM
- * @returns the results from RDS
+ * @returns the user's access to the Plan or undefined if they are not a collaborator
  */
-export async function loadPlansForUser(
+export async function loadPlanAccess(
   logger: Logger,
   token: JWTAccessToken,
+  dmpId: string,
   env: EnvironmentEnum = EnvironmentEnum.DEV
-): Promise<UserPlanInterface[]> {
-  const ssmConfig = await getSSMConfig(logger);
-  const rdsConfig: ConnectionParams = await getRDSConfig(ssmConfig, env);
-
-  // Fetch the list of DMPs the user has access to
-  const sql = `
-      SELECT DISTINCT p.id, p.dmpId, pcs.accessLevel
-      FROM plans p
-        INNER JOIN projects prj ON p.projectId = prj.id
-          INNER JOIN projectCollaborators pcs ON prj.id = pcs.projectId
-      WHERE pcs.email = ?
-      ORDER BY p.id;
-    `;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const plans: { results: any[], fields: any[] } = await queryTable(
-    rdsConfig,
-    sql,
-    [token?.email || ""]
+): Promise<UserPlanInterface | undefined> {
+  return withSpan(
+    'dataAccess.loadPlanAccess',
+    { 'dmp.id': dmpId },
+    () => getDataSource().loadPlanAccess(logger, token, dmpId, env)
   );
-  return Array.isArray(plans.results) ? plans.results : [];
 }
 
 /**
- * Load the Plan based on its dmpId from RDS.
+ * Load the Plan based on its dmpId.
  *
  * @param logger the logger to use for logging
  * @param dmpId the Plan's dmpId
  * @param env the environment to use for fetching parameters from SSM
- * @returns the results from RDS
+ * @returns the Plan or undefined if it does not exist
  */
 export async function loadPlan(
   logger: Logger,
   dmpId: string,
   env: EnvironmentEnum = EnvironmentEnum.DEV
 ): Promise<PlanInterface | undefined> {
-  const ssmConfig = await getSSMConfig(logger);
-  const rdsConfig: ConnectionParams = await getRDSConfig(ssmConfig, env);
-
-  // Fetch the list of DMPs the user has access to
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const plans: { results: any[], fields: any[] } = await queryTable(
-    rdsConfig,
-    'SELECT id, dmpId, modified, visibility FROM plans WHERE dmpId = ?',
-    [dmpId]
-  );
-  return Array.isArray(plans.results) ? plans.results[0] : undefined;
+  return withSpan('dataAccess.loadPlan', { 'dmp.id': dmpId }, () => getDataSource().loadPlan(logger, dmpId, env));
 }
 
 /**
- * Helper function to fetch a parameter from SSM
+ * Fetch a version of the maDMP record (from the DynamoDB table when using the `aws` data source)
  *
  * @param logger the logger to use for logging
  * @param domainName the domain name to use for generating links
  * @param dmpId the DMP id to fetch
- * @returns the results from DynamoDB
+ * @param version the version (modified timestamp) to fetch. Defaults to the latest version
+ * @returns the maDMP record or undefined if it does not exist
  */
 export async function loadMaDMPFromDynamo(
   logger: Logger,
   domainName: string,
-  dmpId: string
+  dmpId: string,
+  version: string | null = null
 ): Promise<DMPToolDMPType | undefined> {
-  const dynamoConfig: DynamoConnectionParams = getDynamoConfig(logger);
+  return withSpan(
+    'dataAccess.loadMaDMPFromDynamo',
+    { 'dmp.id': dmpId, 'dmp.version': version ?? DMP_LATEST_VERSION },
+    () => getDataSource().loadMaDMP(logger, domainName, dmpId, version)
+  );
+}
 
-  logger.debug(`Fetching maDMP record for ${dmpId} from DynamoDB`);
-  // Fetch the Plan's latest maDMP JSON from the DynamoDB Table
-  const data: DMPToolDMPType[] = await getDMPs(
-    dynamoConfig,
-    domainName,
-    dmpId,
-    DMP_LATEST_VERSION,
-    true
+/**
+ * Fetch every version of the maDMP record (from the DynamoDB table when using the `aws` data source)
+ *
+ * @param logger the logger to use for logging
+ * @param domainName the domain name to use for generating links
+ * @param dmpId the DMP id to fetch
+ * @returns the versions of the maDMP record sorted from newest to oldest
+ */
+export async function loadMaDMPVersionsFromDynamo(
+  logger: Logger,
+  domainName: string,
+  dmpId: string
+): Promise<DMPToolDMPType[]> {
+  return withSpan(
+    'dataAccess.loadMaDMPVersionsFromDynamo',
+    { 'dmp.id': dmpId },
+    () => getDataSource().loadMaDMPVersions(logger, domainName, dmpId)
   );
-  const hasNarrative = Array.isArray(data) && data[0]?.dmp?.narrative !== undefined;
-  logger.debug(`Fetched maDMP record for ${dmpId}. Has narrative? ${hasNarrative}`);
-  return Array.isArray(data) && data.length > 0 ? data[0] : undefined;
 }
 
 /**
- * Helper function to persist the maDMP record in DynamoDB
+ * Save the maDMP record while holding the regeneration lock so that only one task writes it. Nothing
+ * is written if the saved maDMP record is already up to date with the Plan (e.g. another task just saved it).
  *
  * @param logger The logger to use for logging
  * @param domainName The domain name to use for generating links
- * @param dmpId The DMP id to fetch
- * @param maDMP The maDMP record to persist
- * @param wasJustOutdated Whether the record already existed in the DynamoDB table
+ * @param plan The Plan the maDMP record is generated from
+ * @param wasJustOutdated Whether a previous version of the maDMP record exists
+ * @param generate Returns the maDMP record to save (only called once the lock is held)
+ * @returns The saved maDMP record or undefined if another task held the lock for too long
  */
-async function persistMaDMPRecord(
+async function saveWithLock(
   logger: Logger,
   domainName: string,
-  dmpId: string,
-  maDMP: DMPToolDMPType,
-  wasJustOutdated = false
-): Promise<void> {
-  const dynamoConfig: DynamoConnectionParams = getDynamoConfig(logger);
+  plan: PlanInterface,
+  wasJustOutdated: boolean,
+  generate: () => Promise<DMPToolDMPType>
+): Promise<DMPToolDMPType | undefined> {
+  const dataSource = getDataSource();
+  const release = await dataSource.lockRegeneration(logger, plan.dmpId);
+  if (!release) return waitForRegeneratedMaDMP(logger, domainName, plan);
 
-  // If the DynamoDB did have a maDMP record for the plan, then we need to update it
-  if (wasJustOutdated) {
-    await updateDMP(
-      dynamoConfig,
-      domainName,
-      dmpId,
-      maDMP,
-      100, // Use a short grace period since it was missing
-      false // We don't need the extensions returned
-    );
+  try {
+    // Another task may have saved the maDMP record since this request loaded it
+    const latest = await dataSource.loadMaDMP(logger, domainName, plan.dmpId, null);
+    if (isCurrentMaDMP(latest, plan)) return latest;
 
-  // Otherwise, we need to create the initial maDMP record for the plan
-  } else {
-    await createDMP(
-      dynamoConfig,
-      domainName,
-      dmpId,
-      maDMP,
-      DMP_LATEST_VERSION,
-      false // We don't need the extensions returned
-    );
+    const maDMP = await generate();
+    if (maDMP?.dmp) {
+      await dataSource.saveMaDMP(logger, domainName, plan.dmpId, maDMP, wasJustOutdated);
+    }
+    return maDMP;
+  } finally {
+    await release();
   }
 }
 
 /**
- * If the DynamoDB table did not have a maDMP record for the plan OR
- * the Plan's modified timestamp does not match the DynamoDB record's
+ * If the data source did not have a maDMP record for the plan OR
+ * the Plan's modified timestamp does not match the maDMP record's
  * modified timestamp, then we should generate the maDMP record
  *
  * @param logger The logger to use for logging
@@ -280,6 +282,7 @@ async function persistMaDMPRecord(
  * @param domainName The domain name to use for generating links
  * @param plan The Plan to generate the maDMP record for
  * @param wasJustOutdated Whether the Plan was just updated and is now outdated
+ * @param persist Whether to save the generated maDMP record (false in read-only mode)
  * @returns The maDMP record generated from the Plan's data'
  */
 export async function handleMissingMaDMP(
@@ -288,30 +291,152 @@ export async function handleMissingMaDMP(
   applicationName: string,
   domainName: string,
   plan: PlanInterface,
+  wasJustOutdated: boolean,
+  persist = true
+): Promise<DMPToolDMPType> {
+  return withSpan(
+    'dataAccess.handleMissingMaDMP',
+    { 'dmp.id': plan.dmpId, 'dmp.was_outdated': wasJustOutdated, 'dmp.persisted': persist },
+    // Concurrent requests for the same DMP share a single regeneration
+    () => regenerations.run(`${plan.dmpId}#${persist}`, async () => {
+      const generate = () => getDataSource().generateMaDMP(logger, env, applicationName, domainName, plan);
+
+      // Nothing is saved so there is nothing to coordinate with the other tasks
+      if (!persist) return generate();
+
+      const saved = await saveWithLock(logger, domainName, plan, wasJustOutdated, generate);
+      if (saved) return saved;
+
+      logger.warn({ dmpId: plan.dmpId }, 'Timed out waiting for another task to regenerate the maDMP record');
+      return generate();
+    })
+  );
+}
+
+/**
+ * Save a maDMP record that was generated without saving it (e.g. when the narrative is refreshed in
+ * read-only mode). It is saved the same way `handleMissingMaDMP` saves the maDMP records, so it is
+ * not written if it is already up to date and only one task writes it at a time.
+ *
+ * @param logger The logger to use for logging
+ * @param domainName The domain name to use for generating links
+ * @param plan The Plan the maDMP record was generated from
+ * @param maDMP The maDMP record to save
+ * @param wasJustOutdated Whether a previous version of the maDMP record exists
+ * @returns The saved maDMP record (which may have been saved by another task)
+ */
+export async function saveRegeneratedMaDMP(
+  logger: Logger,
+  domainName: string,
+  plan: PlanInterface,
+  maDMP: DMPToolDMPType,
   wasJustOutdated: boolean
 ): Promise<DMPToolDMPType> {
-  const ssmConfig: SsmConnectionParams = await getSSMConfig(logger);
-  const rdsConfig: ConnectionParams = await getRDSConfig(ssmConfig, env);
+  return withSpan(
+    'dataAccess.saveRegeneratedMaDMP',
+    { 'dmp.id': plan.dmpId, 'dmp.was_outdated': wasJustOutdated },
+    // Shares the regeneration of any request that is saving the same maDMP record
+    () => regenerations.run(`${plan.dmpId}#true`, async () => {
+      const saved = await saveWithLock(logger, domainName, plan, wasJustOutdated, async () => maDMP);
+      if (!saved) {
+        throw new Error(`Timed out waiting for another task to regenerate the maDMP record for ${plan.dmpId}`);
+      }
+      return saved;
+    })
+  );
+}
 
-  // Generate the maDMP record from the Plan's data
-  const maDMP = await planToDMPCommonStandard(
-    rdsConfig,
-    applicationName,
-    domainName,
-    env,
-    plan.id,
-    true
+/**
+ * Record a share link so that it can be revoked later
+ *
+ * @param logger The logger to use for logging
+ * @param link The share link
+ * @param creator The user who created the link (their access is checked whenever the link is used)
+ */
+export async function saveShareLink(logger: Logger, link: ShareLink, creator: ShareLinkCreator): Promise<void> {
+  return withSpan(
+    'dataAccess.saveShareLink',
+    { 'dmp.id': link.dmpId, 'share_link.id': link.id },
+    () => getDataSource().saveShareLink(logger, link, creator)
   );
+}
 
-  if (maDMP && maDMP.dmp) {
-    // Persist the maDMP record to the DynamoDB table
-    await persistMaDMPRecord(
-      logger,
-      domainName,
-      plan.dmpId,
-      maDMP,
-      wasJustOutdated,
-    );
-  }
-  return maDMP;
+/**
+ * Load a share link (e.g. to see if it has been revoked)
+ *
+ * @param logger The logger to use for logging
+ * @param linkId The id of the share link
+ * @returns The share link or undefined if it was never recorded or has expired
+ */
+export async function loadShareLink(logger: Logger, linkId: string): Promise<ShareLinkRecord | undefined> {
+  return withSpan(
+    'dataAccess.loadShareLink',
+    { 'share_link.id': linkId },
+    () => getDataSource().loadShareLink(logger, linkId)
+  );
+}
+
+/**
+ * Revoke a share link so that it can no longer be used
+ *
+ * @param logger The logger to use for logging
+ * @param linkId The id of the share link
+ * @returns false if the link was never recorded or has expired
+ */
+export async function revokeShareLink(logger: Logger, linkId: string): Promise<boolean> {
+  return withSpan(
+    'dataAccess.revokeShareLink',
+    { 'share_link.id': linkId },
+    () => getDataSource().revokeShareLink(logger, linkId)
+  );
+}
+
+/**
+ * Record the status of a render job
+ *
+ * @param logger The logger to use for logging
+ * @param job The render job
+ * @param expires When the record can be removed (seconds since the epoch)
+ */
+export async function saveRenderJob(logger: Logger, job: RenderJob, expires: number): Promise<void> {
+  return withSpan(
+    'dataAccess.saveRenderJob',
+    { 'dmp.id': job.dmpId, 'job.id': job.id, 'job.status': job.status },
+    () => getDataSource().saveRenderJob(logger, job, expires)
+  );
+}
+
+/**
+ * Load a render job (e.g. to report its status)
+ *
+ * @param logger The logger to use for logging
+ * @param jobId The id of the render job
+ * @returns The render job or undefined if it was never recorded or has expired
+ */
+export async function loadRenderJob(logger: Logger, jobId: string): Promise<RenderJob | undefined> {
+  return withSpan(
+    'dataAccess.loadRenderJob',
+    { 'job.id': jobId },
+    () => getDataSource().loadRenderJob(logger, jobId)
+  );
+}
+
+/**
+ * The readiness checks for the services the data source depends on (e.g. SSM, RDS and DynamoDB)
+ *
+ * @param logger The logger to use for logging
+ * @param env The environment to use for fetching parameters from SSM
+ * @param domainName The domain name to use for generating links
+ * @returns The checks keyed by component name
+ */
+export function dataSourceReadinessChecks(
+  logger: Logger,
+  env: EnvironmentEnum,
+  domainName: string
+): ReadinessChecks {
+  const checks = getDataSource().readinessChecks(logger, env, domainName);
+  return Object.fromEntries(Object.entries(checks).map(([name, check]) => [
+    name,
+    () => withSpan(`dataAccess.check.${name}`, {}, check),
+  ]));
 }
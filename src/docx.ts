@@ -1,5 +1,5 @@
 import HtmlToDocx from "@turbodocx/html-to-docx";
-import { FontInterface, MarginInterface } from "./server";
+import { FontInterface, MarginInterface } from "./options";
 import { Logger } from "pino";
 
 // Convert millimeters to TWIPs (Twentieth of a Point)
@@ -5,7 +5,7 @@ import {
   DisplayOptionsInterface,
   FontInterface,
   MarginInterface,
-} from "./server";
+} from "./options";
 import {
   AffiliationSearchAnswerType,
   AnswerSchemaMap,
@@ -392,13 +392,15 @@ Handlebars.registerHelper(
  * @param margin The margins to use when rendering the HTML
  * @param font The font to use when rendering the HTML
  * @param data The maDMP record to render
+ * @param version The historical version being rendered (stamped on the cover page)
  * @returns The rendered HTML
  */
 export function renderHTML(
   display: DisplayOptionsInterface,
   margin: MarginInterface,
   font: FontInterface,
-  data: DMPToolDMPType["dmp"]
+  data: DMPToolDMPType["dmp"],
+  version: string | null = null
 ): string {
   const template = Handlebars.compile(`
   <html>
@@ -473,6 +475,11 @@ export function renderHTML(
           <p class="header">
             <em>A Data Management Plan created using the DMP Tool</em>
           </p>
+          {{#if narrativeVersion}}
+            <p>
+              <b>Version:</b> {{narrativeVersion}}
+            </p>
+          {{/if}}
           {{#if registered}}
             <p>
               <b>DMP ID:</b>
@@ -554,5 +561,5 @@ export function renderHTML(
     </body>
   </html>
   `);
-  return template(data);
+  return template({ ...data, narrativeVersion: version });
 }
@@ -0,0 +1,253 @@
+import { randomUUID } from "crypto";
+import { Logger } from "pino";
+import { ArtifactStore } from "./artifactStore";
+import { NarrativeDocument } from "./narrative";
+import { createRenderQueue, RenderQueueFullError } from "./renderQueue";
+
+export type RenderJobStatus = "queued" | "running" | "done" | "failed";
+
+/**
+ * A request to render a narrative in the background
+ */
+export interface RenderJob {
+  id: string,
+  dmpId: string,
+  // The file extension of the requested format
+  format: string,
+  // The id of the user who created the job (undefined for anonymous callers)
+  userId?: string | number,
+  status: RenderJobStatus,
+  created: string,
+  updated: string,
+  error?: string,
+}
+
+/**
+ * Records the render jobs so that every instance of the service can report their status
+ */
+export interface RenderJobStore {
+  // The record can be removed once it expires (seconds since the epoch)
+  save(logger: Logger, job: RenderJob, expires: number): Promise<void>,
+  // Undefined if the job was never recorded or has expired
+  load(logger: Logger, jobId: string): Promise<RenderJob | undefined>,
+}
+
+/**
+ * The settings for the job manager
+ */
+export interface JobManagerOptions {
+  // The number of jobs that can render at once
+  concurrency: number,
+  // The number of jobs that can be queued or running at once
+  maxActive: number,
+  // The number of jobs a single user can have queued or running at once
+  maxActivePerUser: number,
+  // How long finished jobs (and their documents) are kept
+  ttlSeconds: number,
+  // How long callers are told to wait before trying again when the limits are reached
+  retryAfterSeconds: number,
+}
+
+/**
+ * Manages the render jobs
+ */
+export interface JobManager {
+  // Create a job that runs the render in the background. Rejects with a RenderQueueFullError if the limits are reached.
+  submit(
+    logger: Logger,
+    userId: string | number | undefined,
+    dmpId: string,
+    format: string,
+    render: () => Promise<NarrativeDocument | undefined>
+  ): Promise<RenderJob>,
+  // Resolves to undefined if the job does not exist or has expired
+  get(logger: Logger, jobId: string): Promise<RenderJob | undefined>,
+  // Resolves to undefined if the job has not finished (or failed or has expired)
+  download(logger: Logger, jobId: string): Promise<NarrativeDocument | undefined>,
+  // The jobs this instance has queued or running
+  active(): RenderJob[],
+  // Resolves once this instance has no jobs queued or running
+  idle(): Promise<void>,
+  // Mark the jobs this instance has queued or running as failed (e.g. when it is stopped)
+  interrupt(logger: Logger): Promise<void>,
+}
+
+/**
+ * Create a job store that only lives as long as this process (e.g. for the `local` data source)
+ *
+ * @param now Returns the current time in milliseconds (overridden in tests)
+ * @returns The store
+ */
+export function createMemoryRenderJobStore(now: () => number = () => Date.now()): RenderJobStore {
+  const jobs = new Map<string, { job: RenderJob, expires: number }>();
+  const isExpired = (expires: number) => expires * 1000 <= now();
+
+  return {
+    async save(logger: Logger, job: RenderJob, expires: number): Promise<void> {
+      for (const [id, existing] of jobs) {
+        if (isExpired(existing.expires)) jobs.delete(id);
+      }
+      jobs.set(job.id, { job: { ...job }, expires });
+    },
+
+    async load(logger: Logger, jobId: string): Promise<RenderJob | undefined> {
+      const record = jobs.get(jobId);
+      return record && !isExpired(record.expires) ? { ...record.job } : undefined;
+    },
+  };
+}
+
+/**
+ * Create a job manager. The jobs are rendered by the instance they were submitted to, but their
+ * status is recorded in the job store and the documents are kept in the artifact store, so any
+ * instance (that shares those stores) can report on a job or return its document.
+ *
+ * The admission limits apply to the jobs each instance has queued or running.
+ *
+ * @param jobStore Where the jobs are recorded
+ * @param store Where the rendered documents are kept
+ * @param options The job settings
+ * @returns The job manager
+ */
+export function createJobManager(jobStore: RenderJobStore, store: ArtifactStore, options: JobManagerOptions): JobManager {
+  // The jobs queued or running in this process
+  const jobs = new Map<string, RenderJob>();
+  let idleWaiters: (() => void)[] = [];
+  let lastPruned = 0;
+  // The admission limits are checked in `submit`, so the runner itself never turns work away
+  const runner = createRenderQueue({
+    concurrency: options.concurrency,
+    maxQueued: Infinity,
+    maxPerUser: Infinity,
+    retryAfterSeconds: options.retryAfterSeconds,
+  });
+
+  const activeJobs = (): RenderJob[] => [...jobs.values()];
+
+  // Record the job's status. The record expires once the job has been finished for the TTL.
+  const update = async (logger: Logger, job: RenderJob, status: RenderJobStatus, error?: string): Promise<void> => {
+    job.status = status;
+    job.updated = new Date().toISOString();
+    if (error) job.error = error;
+    await jobStore.save(logger, { ...job }, Math.floor(Date.now() / 1000) + options.ttlSeconds);
+  };
+
+  // Remove the documents that are older than the TTL (including any left behind by a restart).
+  // Done when the first job is submitted or looked up and then at most once per TTL.
+  const pruneArtifacts = (logger: Logger): void => {
+    if (Date.now() - lastPruned < options.ttlSeconds * 1000) return;
+
+    lastPruned = Date.now();
+    void store.prune(options.ttlSeconds).catch((e) => {
+      logger.warn({ err: e }, "Unable to remove the expired render job documents");
+    });
+  };
+
+  // The render waits in the service's render queue along with the other PDF/DOCX requests. A job is
+  // not turned away when that queue is full, it goes back to `queued` and tries again after the
+  // Retry-After delay (for up to the TTL).
+  const renderWhenThereIsRoom = async (
+    logger: Logger,
+    job: RenderJob,
+    render: () => Promise<NarrativeDocument | undefined>
+  ): Promise<NarrativeDocument | undefined> => {
+    const deadline = Date.now() + (options.ttlSeconds * 1000);
+    for (;;) {
+      try {
+        return await render();
+      } catch (e) {
+        if (!(e instanceof RenderQueueFullError) || Date.now() >= deadline) throw e;
+
+        logger.debug({ jobId: job.id, dmpId: job.dmpId, retryAfterSeconds: e.retryAfterSeconds }, "Render queue is full");
+        await update(logger, job, "queued");
+        await new Promise((resolve) => setTimeout(resolve, e.retryAfterSeconds * 1000));
+        await update(logger, job, "running");
+      }
+    }
+  };
+
+  const run = async (logger: Logger, job: RenderJob, render: () => Promise<NarrativeDocument | undefined>) => {
+    try {
+      await update(logger, job, "running");
+      const doc = await renderWhenThereIsRoom(logger, job, render);
+      if (!doc) throw new Error(`Unable to render format ${job.format}`);
+
+      await store.put(job.id, doc);
+      await update(logger, job, "done");
+      logger.debug({ jobId: job.id, dmpId: job.dmpId }, "Render job finished");
+    } catch (e) {
+      logger.error({ jobId: job.id, dmpId: job.dmpId, err: e }, "Render job failed");
+      // Pollers see the job as running until its record expires if this fails too
+      await update(logger, job, "failed", "Document generation failed").catch((err) => {
+        logger.error({ jobId: job.id, dmpId: job.dmpId, err }, "Unable to record the failed render job");
+      });
+    }
+
+    jobs.delete(job.id);
+    if (jobs.size === 0) {
+      idleWaiters.forEach((resolve) => resolve());
+      idleWaiters = [];
+    }
+  };
+
+  return {
+    async submit(logger, userId, dmpId, format, render): Promise<RenderJob> {
+      pruneArtifacts(logger);
+
+      const active = activeJobs();
+      if (userId !== undefined && active.filter((job) => job.userId === userId).length >= options.maxActivePerUser) {
+        throw new RenderQueueFullError(
+          "Too many of your documents are being generated. Please try again later.",
+          429,
+          options.retryAfterSeconds
+        );
+      }
+      if (active.length >= options.maxActive) {
+        throw new RenderQueueFullError(
+          "Too many documents are being generated. Please try again later.",
+          503,
+          options.retryAfterSeconds
+        );
+      }
+
+      const now = new Date().toISOString();
+      const job: RenderJob = { id: randomUUID(), dmpId, format, userId, status: "queued", created: now, updated: now };
+      // Reserve the slot before the job is recorded so that concurrent submissions see it
+      jobs.set(job.id, job);
+      try {
+        await update(logger, job, "queued");
+      } catch (e) {
+        jobs.delete(job.id);
+        throw e;
+      }
+
+      void runner.run(userId, () => run(logger, job, render));
+      return { ...job };
+    },
+
+    async get(logger: Logger, jobId: string): Promise<RenderJob | undefined> {
+      pruneArtifacts(logger);
+      return jobStore.load(logger, jobId);
+    },
+
+    async download(logger: Logger, jobId: string): Promise<NarrativeDocument | undefined> {
+      const job = await jobStore.load(logger, jobId);
+      return job?.status === "done" ? store.get(jobId) : undefined;
+    },
+
+    active(): RenderJob[] {
+      return activeJobs().map((job) => ({ ...job }));
+    },
+
+    async idle(): Promise<void> {
+      if (jobs.size === 0) return;
+      await new Promise<void>((resolve) => idleWaiters.push(resolve));
+    },
+
+    async interrupt(logger: Logger): Promise<void> {
+      await Promise.all(activeJobs().map((job) => update(logger, job, "failed", "The service was restarted").catch((e) => {
+        logger.error({ jobId: job.id, dmpId: job.dmpId, err: e }, "Unable to record the interrupted render job");
+      })));
+    },
+  };
+}
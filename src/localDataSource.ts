@@ -0,0 +1,161 @@
+import { DMPToolDMPType } from "@dmptool/types";
+import { EnvironmentEnum } from "@dmptool/utils";
+import { access, readdir, readFile } from "fs/promises";
+import { join } from "path";
+import { Logger } from "pino";
+import { NarrativeDataSource, PlanInterface, UserPlanInterface } from "./dataAccess";
+import { JWTAccessToken } from "./helper";
+import { createMemoryRenderJobStore } from "./jobs";
+import { createMemoryShareLinkStore, ShareLink, ShareLinkCreator } from "./shareLinks";
+
+/**
+ * A collaborator on one of the Plans (an entry in `collaborators.json`)
+ */
+export interface CollaboratorFixture {
+  dmpId: string,
+  email: string,
+  accessLevel: string,
+}
+
+// The collaborator access levels from the least to the most permissive (the same order RDS is queried in)
+const ACCESS_LEVELS = ["COMMENT", "EDIT", "OWN"];
+
+/**
+ * Read a JSON fixture file
+ *
+ * @param path The path to the file
+ * @param fallback Returned if the file does not exist
+ * @returns The parsed contents of the file
+ */
+async function readFixture<T>(path: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(path, "utf8"));
+  } catch (e) {
+    if (e.code === "ENOENT") return fallback;
+    throw e;
+  }
+}
+
+/**
+ * List the files in a fixtures directory
+ *
+ * @param dir The directory
+ * @returns The file names (or an empty list if the directory does not exist)
+ */
+async function readFixtureDir(dir: string): Promise<string[]> {
+  try {
+    return await readdir(dir);
+  } catch (e) {
+    if (e.code === "ENOENT") return [];
+    throw e;
+  }
+}
+
+/**
+ * Read every maDMP record in the `dmps` directory (one version of a DMP per file)
+ *
+ * @param dir The directory containing the maDMP JSON files
+ * @returns The maDMP records
+ */
+async function readMaDMPFixtures(dir: string): Promise<DMPToolDMPType[]> {
+  const files = (await readFixtureDir(dir)).filter((file) => file.endsWith(".json")).sort();
+  const records = await Promise.all(files.map((file) => readFixture<DMPToolDMPType>(join(dir, file), undefined)));
+  return records.filter((record) => record?.dmp);
+}
+
+/**
+ * Create a data source that reads everything from a fixtures directory so that the service
+ * can run without AWS (e.g. on a laptop or in CI). The directory contains:
+ *   - plans.json: A list of Plans (see `PlanInterface`). The `dmpId` includes the EZID base URL.
+ *   - collaborators.json: A list of the Plans' collaborators (see `CollaboratorFixture`)
+ *   - dmps/*.json: The maDMP records. Each file is one version of a DMP (its `modified` timestamp).
+ *
+ * The files are read for every request so that they can be edited while the service is running.
+ * Nothing is ever written to the directory.
+ *
+ * @param dir The fixtures directory
+ * @returns The data source
+ */
+export function createLocalDataSource(dir: string): NarrativeDataSource {
+  const loadPlans = (): Promise<PlanInterface[]> => readFixture(join(dir, "plans.json"), []);
+  const shareLinks = createMemoryShareLinkStore();
+  const renderJobs = createMemoryRenderJobStore();
+
+  const loadMaDMPVersions = async (logger: Logger, domainName: string, dmpId: string): Promise<DMPToolDMPType[]> => {
+    const records = await readMaDMPFixtures(join(dir, "dmps"));
+    const versions = records.filter((record) => record.dmp.dmp_id?.identifier === dmpId);
+    logger.debug(`Loaded ${versions.length} maDMP versions for ${dmpId} from ${dir}`);
+    return versions.sort((a, b) => (b.dmp.modified ?? "").localeCompare(a.dmp.modified ?? ""));
+  };
+
+  return {
+    async loadPlanAccess(logger: Logger, token: JWTAccessToken, dmpId: string): Promise<UserPlanInterface | undefined> {
+      if (!token?.email) return undefined;
+
+      const [plans, collaborators] = await Promise.all([
+        loadPlans(),
+        readFixture<CollaboratorFixture[]>(join(dir, "collaborators.json"), []),
+      ]);
+      // A user listed more than once gets the most permissive access level
+      const collaborator = collaborators
+        .filter((c) => c.email === token.email && c.dmpId === dmpId)
+        .sort((a, b) => ACCESS_LEVELS.indexOf(b.accessLevel) - ACCESS_LEVELS.indexOf(a.accessLevel))[0];
+      const plan = collaborator ? plans.find((p) => p.dmpId === dmpId) : undefined;
+      return plan ? { id: plan.id, dmpId: plan.dmpId, accessLevel: collaborator.accessLevel } : undefined;
+    },
+
+    async loadPlan(logger: Logger, dmpId: string): Promise<PlanInterface | undefined> {
+      return (await loadPlans()).find((plan) => plan.dmpId === dmpId);
+    },
+
+    async loadMaDMP(
+      logger: Logger,
+      domainName: string,
+      dmpId: string,
+      version: string | null
+    ): Promise<DMPToolDMPType | undefined> {
+      const versions = await loadMaDMPVersions(logger, domainName, dmpId);
+      return version ? versions.find((record) => record.dmp.modified === version) : versions[0];
+    },
+
+    loadMaDMPVersions,
+
+    // There is no DMP Tool database to generate the maDMP record from, so the latest
+    // maDMP record in the fixtures is used as is
+    async generateMaDMP(
+      logger: Logger,
+      env: EnvironmentEnum,
+      applicationName: string,
+      domainName: string,
+      plan: PlanInterface
+    ): Promise<DMPToolDMPType> {
+      logger.debug({ dmpId: plan.dmpId }, "Using the latest maDMP fixture in place of a generated maDMP record");
+      const [latest] = await loadMaDMPVersions(logger, domainName, plan.dmpId);
+      return latest;
+    },
+
+    // The fixtures are never modified
+    async saveMaDMP(logger: Logger, domainName: string, dmpId: string): Promise<void> {
+      logger.debug({ dmpId }, "The local data source does not save maDMP records");
+    },
+
+    // The fixtures are only read by this process, so there are no other tasks to coordinate with
+    lockRegeneration: async () => async () => undefined,
+
+    // The share links are only recorded for as long as this process runs
+    saveShareLink: (logger: Logger, link: ShareLink, creator: ShareLinkCreator) => shareLinks.save(link, creator),
+    loadShareLink: (logger: Logger, linkId: string) => shareLinks.load(linkId),
+    revokeShareLink: (logger: Logger, linkId: string) => shareLinks.revoke(linkId),
+
+    // As are the render jobs (the service only runs as a single instance with this data source)
+    saveRenderJob: renderJobs.save,
+    loadRenderJob: renderJobs.load,
+
+    // The files are only open while they are being read
+    close: async () => undefined,
+
+    readinessChecks: () => ({
+      fixtures: () => access(dir),
+    }),
+  };
+}
@@ -0,0 +1,243 @@
+import { NextFunction, Request, Response } from "express";
+import { Counter, Gauge, Histogram, Registry } from "prom-client";
+import { BrowserPoolStats } from "./browserPool";
+import { RDSPoolStats } from "./rdsPool";
+import { RenderQueueStats } from "./renderQueue";
+
+/**
+ * The stages of a request that are timed individually
+ */
+export type MetricsStage =
+  | "loadPlan"
+  | "checkPermission"
+  | "loadMaDMPFromDynamo"
+  | "handleMissingMaDMP"
+  | "renderCSV"
+  | "renderDOCX"
+  | "renderHTML"
+  | "renderPDF"
+  | "renderTXT";
+
+/**
+ * Why the maDMP record had to be regenerated from the Plan in RDS
+ */
+export type RegenerationReason = "missing" | "outdated" | "missingNarrative" | "refresh";
+
+// The metrics are kept in their own registry so that only the metrics defined here are exposed
+export const metricsRegistry = new Registry();
+
+// Most renders finish within a few seconds but large PDFs can take much longer
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const requestDuration = new Histogram({
+  name: "narrative_request_duration_seconds",
+  help: "The total time taken to respond to a request",
+  labelNames: ["method", "route", "status"],
+  buckets: DURATION_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+const stageDuration = new Histogram({
+  name: "narrative_stage_duration_seconds",
+  help: "The time taken by each stage of generating a narrative (loading the data and each renderer)",
+  labelNames: ["stage", "outcome"],
+  buckets: DURATION_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+const responses = new Counter({
+  name: "narrative_responses_total",
+  help: "The number of responses sent by status code",
+  labelNames: ["status"],
+  registers: [metricsRegistry],
+});
+
+const documents = new Counter({
+  name: "narrative_documents_total",
+  help: "The number of narrative documents sent by format",
+  labelNames: ["format"],
+  registers: [metricsRegistry],
+});
+
+const permissionDenials = new Counter({
+  name: "narrative_permission_denials_total",
+  help: "The number of requests for a DMP the caller does not have permission to see",
+  registers: [metricsRegistry],
+});
+
+const regenerations = new Counter({
+  name: "narrative_madmp_regenerations_total",
+  help: "The number of times the maDMP record was regenerated from the Plan in RDS",
+  labelNames: ["reason"],
+  registers: [metricsRegistry],
+});
+
+/**
+ * Express middleware that records the time taken and the status code of each response
+ *
+ * @param req The request
+ * @param res The response
+ * @param next The next middleware
+ */
+export function trackRequestMetrics(req: Request, res: Response, next: NextFunction): void {
+  const end = requestDuration.startTimer({ method: req.method });
+  res.on("finish", () => {
+    // The route pattern (rather than the path) keeps the number of label values small
+    const route = req.route?.path ? `${req.baseUrl}${req.route.path}` : "unmatched";
+    const status = String(res.statusCode);
+    end({ route, status });
+    responses.inc({ status });
+  });
+  next();
+}
+
+/**
+ * Time one of the stages of generating a narrative
+ *
+ * @param stage The name of the stage
+ * @param fn The work done by the stage
+ * @returns The result of the stage
+ */
+export async function timeStage<T>(stage: MetricsStage, fn: () => T | Promise<T>): Promise<T> {
+  const end = stageDuration.startTimer({ stage });
+  try {
+    const result = await fn();
+    end({ outcome: "success" });
+    return result;
+  } catch (e) {
+    end({ outcome: "error" });
+    throw e;
+  }
+}
+
+/**
+ * Record that a narrative document was sent
+ *
+ * @param format The file extension of the document
+ */
+export function recordDocument(format: string): void {
+  documents.inc({ format });
+}
+
+/**
+ * Record that the caller did not have permission to see the DMP
+ */
+export function recordPermissionDenial(): void {
+  permissionDenials.inc();
+}
+
+/**
+ * Record that the maDMP record was regenerated
+ *
+ * @param reason Why the maDMP record was regenerated
+ */
+export function recordRegeneration(reason: RegenerationReason): void {
+  regenerations.inc({ reason });
+}
+
+/**
+ * Expose a count that is kept elsewhere (e.g. by the browser pool) as a counter. The count is read
+ * each time the metrics are collected, so it must only ever go up (until the service restarts).
+ *
+ * @param name The name of the counter (ending in `_total`)
+ * @param help The description of the counter
+ * @param count Returns the current count
+ */
+function registerCollectedCounter(name: string, help: string, count: () => number): void {
+  new Counter({
+    name,
+    help,
+    registers: [metricsRegistry],
+    collect() {
+      this.reset();
+      this.inc(count());
+    },
+  });
+}
+
+/**
+ * Expose the state of the PDF browser pool. The stats are read each time the metrics are collected.
+ *
+ * @param stats Returns the current stats
+ */
+export function registerBrowserPoolMetrics(stats: () => BrowserPoolStats): void {
+  const gauges: [keyof BrowserPoolStats, string, string][] = [
+    ["browsers", "browsers", "The number of browsers that are running"],
+    ["activePages", "active_pages", "The number of pages rendering a PDF"],
+    ["idlePages", "idle_pages", "The number of pages waiting to be reused"],
+    ["queued", "queued_renders", "The number of PDFs waiting for a page"],
+  ];
+  const counters: [keyof BrowserPoolStats, string, string][] = [
+    ["renders", "renders", "The number of PDFs rendered since the service started"],
+    ["launches", "launches", "The number of browsers launched since the service started"],
+    ["restarts", "restarts", "The number of browsers restarted after reaching their render limit since the service started"],
+    ["crashes", "crashes", "The number of browsers that crashed or failed to launch since the service started"],
+  ];
+
+  for (const [stat, name, help] of gauges) {
+    new Gauge({
+      name: `narrative_browser_pool_${name}`,
+      help,
+      registers: [metricsRegistry],
+      collect() {
+        this.set(stats()[stat]);
+      },
+    });
+  }
+  for (const [stat, name, help] of counters) {
+    registerCollectedCounter(`narrative_browser_pool_${name}_total`, help, () => stats()[stat]);
+  }
+}
+
+/**
+ * Expose the state of the PDF/DOCX render queue. The stats are read each time the metrics are collected.
+ *
+ * @param stats Returns the current stats
+ */
+export function registerRenderQueueMetrics(stats: () => RenderQueueStats): void {
+  const gauges: [keyof RenderQueueStats, string][] = [
+    ["running", "The number of PDF/DOCX documents being rendered"],
+    ["queued", "The number of PDF/DOCX documents waiting to be rendered"],
+  ];
+
+  for (const [stat, help] of gauges) {
+    new Gauge({
+      name: `narrative_render_queue_${stat}`,
+      help,
+      registers: [metricsRegistry],
+      collect() {
+        this.set(stats()[stat]);
+      },
+    });
+  }
+  registerCollectedCounter(
+    "narrative_render_queue_rejected_total",
+    "The number of PDF/DOCX renders turned away because the queue was full since the service started",
+    () => stats().rejected
+  );
+}
+
+/**
+ * Expose the state of the RDS connection pool. The stats are read each time the metrics are collected.
+ *
+ * @param stats Returns the current stats
+ */
+export function registerRDSPoolMetrics(stats: () => RDSPoolStats): void {
+  const gauges: [keyof RDSPoolStats, string][] = [
+    ["connections", "The number of open RDS connections"],
+    ["active", "The number of RDS connections running a query"],
+    ["idle", "The number of RDS connections waiting to be reused"],
+    ["queued", "The number of RDS queries waiting for a connection"],
+  ];
+
+  for (const [stat, help] of gauges) {
+    new Gauge({
+      name: `narrative_rds_pool_${stat}`,
+      help,
+      registers: [metricsRegistry],
+      collect() {
+        this.set(stats()[stat]);
+      },
+    });
+  }
+}
@@ -0,0 +1,202 @@
+import { createHash } from "crypto";
+import { Logger } from "pino";
+import { DMPToolDMPType } from "@dmptool/types";
+import { OptionsInterface } from "./options";
+import { renderCSV } from "./csv";
+import { renderHTML } from "./html";
+import { getBrowserPoolStats, renderPDF } from "./pdf";
+import { renderDOCX } from "./docx";
+import { renderTXT } from "./txt";
+import { negotiateMediaType } from "./negotiation";
+import { MetricsStage, timeStage } from "./metrics";
+import { RedactionLevel } from "./permissions";
+import { withSpan } from "./tracing";
+
+export const CSV_TYPE = "text/csv";
+export const DOCX_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+export const HTML_TYPE = "text/html";
+export const JSON_TYPE = "application/json";
+export const TXT_TYPE = "text/plain";
+export const PDF_TYPE = "application/pdf";
+
+// The file extensions that can be used in place of an Accept header
+export const EXTENSION_TYPES: Record<string, string> = {
+  csv: CSV_TYPE,
+  docx: DOCX_TYPE,
+  html: HTML_TYPE,
+  json: JSON_TYPE,
+  pdf: PDF_TYPE,
+  txt: TXT_TYPE,
+};
+
+/**
+ * A rendered narrative document that is ready to be sent to the caller
+ */
+export interface NarrativeDocument {
+  contentType: string,
+  extension: string,
+  body: string | Buffer,
+  // The full Content-Disposition header value (if one should be sent)
+  disposition?: string,
+}
+
+/**
+ * Build the filename for a downloaded narrative
+ *
+ * @param title The title of the DMP
+ * @param version The historical version being rendered (if any)
+ * @param ext The file extension
+ * @returns The filename
+ */
+export function narrativeFilename(title: string, version: string | null, ext: string): string {
+  // Historical versions get the version timestamp appended so that they can be told apart
+  const name = version ? `${title || "document"}-${version}` : (title || "document");
+  return `${name.replace(/\W+/g, "-")}.${ext}`;
+}
+
+// The media types that can be negotiated via the Accept header in order of preference
+export const SUPPORTED_TYPES = [HTML_TYPE, PDF_TYPE, DOCX_TYPE, CSV_TYPE, TXT_TYPE, JSON_TYPE];
+
+/**
+ * Determine the format to use when the caller has no preference (e.g. `Accept: *\/*`)
+ *
+ * This can be set via the DEFAULT_NARRATIVE_FORMAT env variable as either a file
+ * extension (e.g. `pdf`) or a media type (e.g. `application/pdf`).
+ *
+ * @returns The default media type
+ */
+export function defaultFormat(): string {
+  const configured = process.env.DEFAULT_NARRATIVE_FORMAT?.trim().toLowerCase();
+  if (!configured) return HTML_TYPE;
+
+  if (EXTENSION_TYPES[configured]) return EXTENSION_TYPES[configured];
+  return SUPPORTED_TYPES.includes(configured) ? configured : HTML_TYPE;
+}
+
+/**
+ * Determine the format the caller wants the narrative document in from either
+ * the specified file extension OR the Accept header
+ *
+ * @param ext The file extension from the path (if any)
+ * @param accept The Accept header (if any)
+ * @returns The supported media type or undefined if none of the requested types are supported
+ */
+export function selectFormat(ext: string | undefined, accept: string | undefined): string | undefined {
+  if (ext && ext.length > 0) {
+    return EXTENSION_TYPES[ext.toLowerCase()] ?? HTML_TYPE;
+  }
+  return negotiateMediaType(accept, SUPPORTED_TYPES, defaultFormat());
+}
+
+/**
+ * Build the ETag for a rendered narrative
+ *
+ * The ETag is weak because re-rendering the same maDMP does not always produce the
+ * same bytes (e.g. PDFs include their creation date).
+ *
+ * @param modified The modified timestamp of the maDMP record
+ * @param format The media type being rendered
+ * @param options The rendering options from the query params
+ * @param redaction What was removed from the maDMP record (see `redactMaDMP`)
+ * @returns The ETag header value
+ */
+export function narrativeETag(
+  modified: string,
+  format: string,
+  options: OptionsInterface,
+  redaction: RedactionLevel = "none"
+): string {
+  const hash = createHash("sha256")
+    .update(JSON.stringify({ modified, format, options, redaction }))
+    .digest("base64url");
+  return `W/"${hash}"`;
+}
+
+/**
+ * Render the maDMP record in the requested format
+ *
+ * @param logger The logger to use for logging
+ * @param format The media type to render (see `selectFormat`)
+ * @param options The rendering options from the query params
+ * @param data The maDMP record to render
+ * @returns The rendered document or undefined if the format is not supported
+ */
+export async function renderNarrative(
+  logger: Logger,
+  format: string,
+  options: OptionsInterface,
+  data: DMPToolDMPType["dmp"]
+): Promise<NarrativeDocument | undefined> {
+  const { version, display, margin, font } = options;
+
+  // Each of the renderers is timed (see `metrics`) and traced (see `tracing`) separately
+  const renderStage = <T>(stage: MetricsStage, fn: () => T | Promise<T>): Promise<T> => {
+    return withSpan(stage, { "narrative.format": format }, () => timeStage(stage, fn));
+  };
+  const renderHTMLStage = () => renderStage("renderHTML", () => renderHTML(display, margin, font, data, version));
+
+  switch (format) {
+    case CSV_TYPE:
+      logger.debug("Generating CSV");
+      return {
+        contentType: CSV_TYPE,
+        extension: "csv",
+        body: await renderStage("renderCSV", () => renderCSV(display, data)),
+      };
+
+    case DOCX_TYPE: {
+      logger.debug("Generating DOCX");
+      // Render the HTML first. This will be used to generate the DOCX
+      const html = await renderHTMLStage();
+      const docx = await renderStage("renderDOCX", () => renderDOCX(
+        logger,
+        data?.title || "Data management plan",
+        html,
+        margin,
+        font
+      ));
+      return {
+        contentType: DOCX_TYPE,
+        extension: "docx",
+        body: docx,
+        disposition: `attachment; filename="${narrativeFilename(data?.title, version, "docx")}"`,
+      };
+    }
+
+    case HTML_TYPE:
+      logger.debug("Generating HTML");
+      return { contentType: HTML_TYPE, extension: "html", body: await renderHTMLStage() };
+
+    case JSON_TYPE:
+      logger.debug("Generating JSON");
+      return { contentType: JSON_TYPE, extension: "json", body: JSON.stringify(data) };
+
+    case PDF_TYPE: {
+      logger.debug("Generating PDF");
+      // Render the HTML which is then used to render the PDF
+      const html = await renderHTMLStage();
+      const pdf = await renderStage("renderPDF", () => renderPDF(html));
+      logger.debug({ browserPool: getBrowserPoolStats() }, "Generated PDF");
+      return {
+        contentType: PDF_TYPE,
+        extension: "pdf",
+        body: pdf,
+        disposition: `inline; filename="${narrativeFilename(data?.title, version, "pdf")}"`,
+      };
+    }
+
+    case TXT_TYPE: {
+      logger.debug("Generating TXT");
+      // Render the HTML first which is then used to render the TXT
+      const html = await renderHTMLStage();
+      return {
+        contentType: TXT_TYPE,
+        extension: "txt",
+        body: await renderStage("renderTXT", () => renderTXT(html)),
+      };
+    }
+
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * A media range from an Accept header (e.g. `application/*;q=0.8`)
+ */
+export interface MediaRange {
+  type: string,
+  subtype: string,
+  q: number,
+  // The position of the range within the header (used to break ties)
+  index: number,
+}
+
+/**
+ * A supported media type along with how well it matches the Accept header
+ */
+interface Candidate {
+  mediaType: string,
+  q: number,
+  // 2 for an exact match, 1 for a `type/*` match and 0 for a `*/*` match
+  specificity: number,
+  index: number,
+  serverOrder: number,
+}
+
+/**
+ * Parse an Accept header into its media ranges (see RFC 9110 section 12.5.1)
+ *
+ * Parameters other than the `q` weight are ignored. Media ranges that are
+ * malformed or have an invalid weight are skipped.
+ *
+ * @param accept The Accept header
+ * @returns The media ranges in the order they appeared in the header
+ */
+export function parseAccept(accept: string): MediaRange[] {
+  const ranges: MediaRange[] = [];
+
+  accept.split(",").forEach((part, index) => {
+    const [mediaRange, ...params] = part.split(";").map((p) => p.trim());
+    const [type, subtype] = mediaRange.toLowerCase().split("/");
+    if (!type || !subtype || (type === "*" && subtype !== "*")) return;
+
+    let q = 1;
+    for (const param of params) {
+      const [name, value] = param.split("=").map((p) => p.trim());
+      if (name?.toLowerCase() === "q") {
+        q = /^(0(\.\d{0,3})?|1(\.0{0,3})?)$/.test(value ?? "") ? Number(value) : NaN;
+        // Everything after the weight is an extension param (e.g. `*/*;q=0.8;v=b3`)
+        break;
+      }
+    }
+    if (isNaN(q)) return;
+
+    ranges.push({ type, subtype, q, index });
+  });
+  return ranges;
+}
+
+/**
+ * Find the most specific media range that matches the media type
+ *
+ * @param mediaType The media type to match (e.g. `application/pdf`)
+ * @param ranges The media ranges from the Accept header
+ * @returns The matching range and how specific it is or undefined if none match
+ */
+function bestRangeFor(
+  mediaType: string,
+  ranges: MediaRange[]
+): { range: MediaRange, specificity: number } | undefined {
+  const [type, subtype] = mediaType.toLowerCase().split("/");
+  let best: { range: MediaRange, specificity: number } | undefined;
+
+  for (const range of ranges) {
+    let specificity: number;
+    if (range.type === type && range.subtype === subtype) {
+      specificity = 2;
+    } else if (range.type === type && range.subtype === "*") {
+      specificity = 1;
+    } else if (range.type === "*") {
+      specificity = 0;
+    } else {
+      continue;
+    }
+
+    if (!best || specificity > best.specificity) {
+      best = { range, specificity };
+    }
+  }
+  return best;
+}
+
+/**
+ * Choose the supported media type that best matches the caller's Accept header
+ *
+ * The type with the highest weight wins. Ties are broken by how specifically the
+ * type was requested, then in favor of the default type, then by the order of the
+ * media ranges in the header and finally by the order of the supported types.
+ * This means that `*\/*` (or no Accept header at all) results in the default type.
+ *
+ * @param accept The Accept header (if any)
+ * @param supported The supported media types in order of the server's preference
+ * @param defaultType The media type to use when the caller has no preference
+ * @returns The chosen media type or undefined if none of the supported types are acceptable
+ */
+export function negotiateMediaType(
+  accept: string | undefined,
+  supported: string[],
+  defaultType: string
+): string | undefined {
+  if (!accept || accept.trim().length === 0) return defaultType;
+
+  const ranges = parseAccept(accept);
+  const candidates: Candidate[] = [];
+
+  supported.forEach((mediaType, serverOrder) => {
+    const match = bestRangeFor(mediaType, ranges);
+    // A weight of 0 means "not acceptable"
+    if (match && match.range.q > 0) {
+      candidates.push({
+        mediaType,
+        q: match.range.q,
+        specificity: match.specificity,
+        index: match.range.index,
+        serverOrder,
+      });
+    }
+  });
+
+  candidates.sort((a, b) => {
+    return (b.q - a.q)
+      || (b.specificity - a.specificity)
+      || (Number(b.mediaType === defaultType) - Number(a.mediaType === defaultType))
+      || (a.index - b.index)
+      || (a.serverOrder - b.serverOrder);
+  });
+  return candidates[0]?.mediaType;
+}
@@ -0,0 +1,749 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { EXTENSION_TYPES, JSON_TYPE, PDF_TYPE, DOCX_TYPE, SUPPORTED_TYPES } from "./narrative";
+import { BOOLEAN_VALUES, QUERY_PARAMS, QueryParamDefinition, QueryParamValue } from "./options";
+
+// The version of the service from package.json (one level up from both `src` and `dist`)
+export const API_VERSION: string = JSON.parse(readFileSync(join(__dirname, "..", "package.json"), "utf8")).version;
+
+// The media types that are returned as binary files
+const BINARY_TYPES = [DOCX_TYPE, PDF_TYPE];
+
+/**
+ * A JSON Schema (only the keywords used in this document)
+ */
+export interface SchemaObject {
+  $ref?: string,
+  type?: string | string[],
+  format?: string,
+  description?: string,
+  contentMediaType?: string,
+  enum?: string[],
+  pattern?: string,
+  minimum?: number,
+  maximum?: number,
+  minItems?: number,
+  default?: QueryParamValue,
+  required?: string[],
+  properties?: Record<string, SchemaObject>,
+  additionalProperties?: SchemaObject,
+  items?: SchemaObject,
+  oneOf?: SchemaObject[],
+  externalDocs?: { url: string },
+}
+
+/**
+ * The OpenAPI objects used in this document (see https://spec.openapis.org/oas/v3.1.0)
+ */
+export interface ParameterObject {
+  name: string,
+  in: "query" | "path" | "header",
+  required: boolean,
+  description: string,
+  schema: SchemaObject,
+  example?: QueryParamValue,
+}
+
+export interface MediaTypeObject {
+  schema: SchemaObject,
+}
+
+export interface HeaderObject {
+  description: string,
+  schema: SchemaObject,
+}
+
+export interface ResponseObject {
+  description: string,
+  headers?: Record<string, HeaderObject>,
+  content?: Record<string, MediaTypeObject>,
+}
+
+// Keyed by the name of the security scheme (the list of scopes is always empty)
+export type SecurityRequirementObject = Record<string, string[]>;
+
+export interface OperationObject {
+  summary: string,
+  description?: string,
+  operationId: string,
+  security?: SecurityRequirementObject[],
+  parameters?: ParameterObject[],
+  requestBody?: { required: boolean, content: Record<string, MediaTypeObject> },
+  responses: Record<string, ResponseObject>,
+}
+
+export type PathItemObject = Partial<Record<"get" | "post" | "delete", OperationObject>>;
+
+export interface SecuritySchemeObject {
+  type: "http" | "apiKey",
+  description: string,
+  scheme?: string,
+  bearerFormat?: string,
+  in?: "query" | "header" | "cookie",
+  name?: string,
+}
+
+export interface OpenAPIDocument {
+  openapi: string,
+  info: {
+    title: string,
+    description: string,
+    version: string,
+    license: { name: string, identifier: string },
+  },
+  paths: Record<string, PathItemObject>,
+  components: {
+    securitySchemes: Record<string, SecuritySchemeObject>,
+    schemas: Record<string, SchemaObject>,
+  },
+}
+
+/**
+ * Convert a rendering option definition into an OpenAPI query parameter
+ *
+ * @param definition The query param definition (see `QUERY_PARAMS`)
+ * @returns The OpenAPI parameter object
+ */
+function toParameter(definition: QueryParamDefinition): ParameterObject {
+  let schema: SchemaObject;
+  switch (definition.type) {
+    case "boolean":
+      // Booleans are accepted in several forms (e.g. `yes/no`) so they are strings as far as the caller is concerned
+      schema = { type: "string", enum: BOOLEAN_VALUES, default: String(definition.default) };
+      break;
+    case "number":
+      schema = {
+        type: "number",
+        minimum: definition.minimum,
+        maximum: definition.maximum,
+        default: definition.default,
+      };
+      break;
+    default:
+      schema = { type: "string" };
+      if (definition.enum) schema.enum = definition.enum;
+      if (definition.pattern) schema.pattern = definition.pattern;
+      if (definition.default !== undefined) schema.default = definition.default;
+  }
+
+  const parameter: ParameterObject = {
+    name: definition.name,
+    in: "query",
+    required: false,
+    description: definition.description,
+    schema,
+  };
+  if (definition.example !== undefined) parameter.example = definition.example;
+  return parameter;
+}
+
+/**
+ * Build the response content for each of the narrative formats
+ *
+ * @returns The OpenAPI content object keyed by media type
+ */
+function narrativeContent(): Record<string, MediaTypeObject> {
+  const content: Record<string, MediaTypeObject> = {};
+  for (const type of SUPPORTED_TYPES) {
+    if (type === JSON_TYPE) {
+      content[type] = { schema: { $ref: "#/components/schemas/MaDMP" } };
+    } else if (BINARY_TYPES.includes(type)) {
+      content[type] = { schema: { type: "string", contentMediaType: type } };
+    } else {
+      content[type] = { schema: { type: "string" } };
+    }
+  }
+  return content;
+}
+
+// Every response includes the request id (see `assignRequestId`)
+const REQUEST_ID_HEADERS: Record<string, HeaderObject> = {
+  "X-Request-Id": {
+    description: "The id used to identify the request in the logs (the caller's id if one was sent)",
+    schema: { type: "string" },
+  },
+};
+
+/**
+ * Build a plain text error response
+ *
+ * @param description The description of the response
+ * @returns The OpenAPI response object
+ */
+function textResponse(description: string): ResponseObject {
+  return {
+    description,
+    headers: REQUEST_ID_HEADERS,
+    content: { "text/plain": { schema: { type: "string" } } },
+  };
+}
+
+/**
+ * Build a JSON response
+ *
+ * @param description The description of the response
+ * @param schema The name of the schema in `components.schemas`
+ * @returns The OpenAPI response object
+ */
+function jsonResponse(description: string, schema: string): ResponseObject {
+  return {
+    description,
+    headers: REQUEST_ID_HEADERS,
+    content: { [JSON_TYPE]: { schema: { $ref: `#/components/schemas/${schema}` } } },
+  };
+}
+
+/**
+ * Build the OpenAPI 3.1 description of the narrative service
+ *
+ * The rendering options and formats are generated from `QUERY_PARAMS` and the format
+ * constants so that the document always reflects what the service actually accepts.
+ *
+ * @returns The OpenAPI document
+ */
+export function buildOpenAPIDocument(): OpenAPIDocument {
+  const renderingParams = QUERY_PARAMS.map(toParameter);
+  const uploadParams = QUERY_PARAMS.filter((definition) => definition.name !== "version").map(toParameter);
+  // The auth is optional because public DMPs can be rendered by anyone
+  const optionalAuth: SecurityRequirementObject[] = [{}, { bearerAuth: [] }, { cookieAuth: [] }];
+  const requiredAuth: SecurityRequirementObject[] = [{ bearerAuth: [] }, { cookieAuth: [] }];
+
+  const narrativeResponses: Record<string, ResponseObject> = {
+    "200": {
+      description: "The narrative document",
+      headers: {
+        "Content-Disposition": {
+          description: "Included for DOCX (as an attachment) and PDF (inline) documents",
+          schema: { type: "string" },
+        },
+        ...REQUEST_ID_HEADERS,
+      },
+      content: narrativeContent(),
+    },
+    "400": {
+      description: "The DMP id is missing or the query params are invalid",
+      headers: REQUEST_ID_HEADERS,
+      content: {
+        "text/plain": { schema: { type: "string" } },
+        [JSON_TYPE]: { schema: { $ref: "#/components/schemas/InvalidQueryParameters" } },
+      },
+    },
+    "401": textResponse("The token is invalid or has expired"),
+    "403": textResponse(
+      "The caller has access to the DMP but not in the requested format or the share link is not valid for the narrative"
+    ),
+    "404": textResponse("The DMP (or requested version) does not exist or the caller does not have access to it"),
+    "406": jsonResponse("None of the supported formats are acceptable", "NotAcceptable"),
+    "500": textResponse("The narrative could not be generated"),
+  };
+
+  const formatParam: ParameterObject = {
+    name: "ext",
+    in: "path",
+    required: true,
+    description: "The file extension of the format to render (used in place of the Accept header)",
+    schema: { type: "string", enum: Object.keys(EXTENSION_TYPES) },
+  };
+  const dmpIdParam: ParameterObject = {
+    name: "dmpId",
+    in: "path",
+    required: true,
+    description: "The DMP id without the DOI base URL (e.g. `11.11111/A1B2C3`). The `/` should not be encoded.",
+    schema: { type: "string" },
+  };
+
+  const getNarrative = (operationId: string, params: ParameterObject[]): OperationObject => ({
+    summary: "Render the narrative for a DMP",
+    description: "The format is taken from the file extension or negotiated from the Accept header. "
+      + "The formats the caller can download and the details that are redacted depend on their access to the DMP "
+      + "(or on the share link).",
+    operationId,
+    security: [...optionalAuth, { shareLink: [] }],
+    parameters: [...params, ...renderingParams],
+    responses: narrativeResponses,
+  });
+
+  const postNarrative = (operationId: string, params: ParameterObject[]): OperationObject => ({
+    summary: "Render the narrative for an uploaded maDMP",
+    description: "The maDMP is validated against the RDA Common Standard. Nothing is loaded from or saved to the DMP Tool.",
+    operationId,
+    parameters: [...params, ...uploadParams],
+    requestBody: {
+      required: true,
+      content: { [JSON_TYPE]: { schema: { $ref: "#/components/schemas/MaDMP" } } },
+    },
+    responses: {
+      "200": narrativeResponses["200"],
+      "400": {
+        description: "The maDMP or the query params are invalid",
+        headers: REQUEST_ID_HEADERS,
+        content: {
+          [JSON_TYPE]: {
+            schema: {
+              oneOf: [
+                { $ref: "#/components/schemas/InvalidMaDMP" },
+                { $ref: "#/components/schemas/InvalidQueryParameters" },
+              ],
+            },
+          },
+        },
+      },
+      "406": narrativeResponses["406"],
+      "500": narrativeResponses["500"],
+    },
+  });
+
+  const jobIdParam: ParameterObject = {
+    name: "jobId",
+    in: "path",
+    required: true,
+    description: "The id returned when the render job was created",
+    schema: { type: "string" },
+  };
+  const busyResponse = (description: string): ResponseObject => ({
+    description,
+    headers: {
+      "Retry-After": { description: "The number of seconds to wait before trying again", schema: { type: "integer" } },
+      ...REQUEST_ID_HEADERS,
+    },
+    content: { "text/plain": { schema: { type: "string" } } },
+  });
+
+  const linkIdParam: ParameterObject = {
+    name: "linkId",
+    in: "path",
+    required: true,
+    description: "The id returned when the share link was created",
+    schema: { type: "string" },
+  };
+
+  const requestIdParam: ParameterObject = {
+    name: "X-Request-Id",
+    in: "header",
+    required: false,
+    description: "Used to identify the request in the logs (up to 128 letters, digits, `.`, `_`, `:` or `-`). Generated if not provided.",
+    schema: { type: "string", pattern: "^[A-Za-z0-9._:-]{1,128}$" },
+  };
+
+  const doc: OpenAPIDocument = {
+    openapi: "3.1.0",
+    info: {
+      title: "DMP Tool narrative generator",
+      description: "Renders DMP narratives as CSV, DOCX, HTML, JSON, PDF or TXT documents. "
+        + "Error messages include the request id (see the `X-Request-Id` header) to quote when reporting a problem.",
+      version: API_VERSION,
+      license: { name: "MIT", identifier: "MIT" },
+    },
+    paths: {
+      "/dmps/{dmpId}/narrative": {
+        get: getNarrative("getNarrative", [dmpIdParam]),
+      },
+      "/dmps/{dmpId}/narrative.{ext}": {
+        get: getNarrative("getNarrativeWithExtension", [dmpIdParam, formatParam]),
+      },
+      "/dmps/{dmpId}/narrative/versions": {
+        get: {
+          summary: "List the available versions of a DMP",
+          operationId: "getNarrativeVersions",
+          security: optionalAuth,
+          parameters: [dmpIdParam],
+          responses: {
+            "200": jsonResponse("The versions of the DMP (newest first)", "Versions"),
+            "400": textResponse("The DMP id is missing"),
+            "401": narrativeResponses["401"],
+            "404": textResponse("The DMP does not exist or the caller does not have access to it"),
+            "500": textResponse("The versions could not be retrieved"),
+          },
+        },
+      },
+      "/dmps/{dmpId}/narrative/refresh": {
+        post: {
+          summary: "Regenerate and save the maDMP record for a DMP",
+          description: "Regenerates the maDMP record from the DMP Tool and saves it. "
+            + "Nothing is saved if the maDMP record is already up to date. "
+            + "This is the only way to save it when the service is in read-only mode.",
+          operationId: "refreshNarrative",
+          security: requiredAuth,
+          parameters: [dmpIdParam],
+          responses: {
+            "200": jsonResponse("The maDMP record was saved (or was already up to date)", "RefreshedMaDMP"),
+            "400": textResponse("The DMP id is missing"),
+            "401": textResponse("No token was provided or the token is invalid or has expired"),
+            "404": textResponse("The DMP does not exist or the caller does not have access to it"),
+            "500": textResponse("The maDMP record could not be regenerated"),
+          },
+        },
+      },
+      "/dmps/{dmpId}/narrative/share": {
+        post: {
+          summary: "Create a signed link to the narrative for a DMP",
+          description: "Lets anyone with the link download the narrative (e.g. someone without an account) until it "
+            + "expires, is revoked or the caller loses access to the DMP. The link can only be created for the formats "
+            + "the caller can download and redacts whatever is redacted for the caller.",
+          operationId: "createNarrativeShareLink",
+          security: requiredAuth,
+          parameters: [dmpIdParam],
+          requestBody: {
+            required: true,
+            content: { [JSON_TYPE]: { schema: { $ref: "#/components/schemas/ShareLinkRequest" } } },
+          },
+          responses: {
+            "201": jsonResponse("The share link was created", "ShareLink"),
+            "400": textResponse("The DMP id is missing or the request is invalid"),
+            "401": narrativeResponses["401"],
+            "403": textResponse("The caller cannot download the narrative in one of the formats"),
+            "404": narrativeResponses["404"],
+            "500": textResponse("The share link could not be created"),
+          },
+        },
+      },
+      "/dmps/{dmpId}/narrative/share/{linkId}": {
+        delete: {
+          summary: "Revoke a share link",
+          description: "Only the user who created the link (or a super admin) can revoke it.",
+          operationId: "revokeNarrativeShareLink",
+          security: requiredAuth,
+          parameters: [dmpIdParam, linkIdParam],
+          responses: {
+            "204": { description: "The share link was revoked", headers: REQUEST_ID_HEADERS },
+            "401": narrativeResponses["401"],
+            "404": textResponse("The share link does not exist, has expired or was created by someone else"),
+            "500": textResponse("The share link could not be revoked"),
+          },
+        },
+      },
+      "/dmps/{dmpId}/narrative/jobs": {
+        post: {
+          summary: "Render the narrative for a DMP in the background",
+          description: "For large narratives. Poll the job (see the `Location` header) and download the document once it is done.",
+          operationId: "createNarrativeJob",
+          security: optionalAuth,
+          parameters: [dmpIdParam, ...renderingParams],
+          requestBody: {
+            required: false,
+            content: { [JSON_TYPE]: { schema: { $ref: "#/components/schemas/RenderJobRequest" } } },
+          },
+          responses: {
+            "202": {
+              description: "The job was created",
+              headers: { Location: { description: "The URL of the job", schema: { type: "string" } } },
+              content: { [JSON_TYPE]: { schema: { $ref: "#/components/schemas/RenderJob" } } },
+            },
+            "400": narrativeResponses["400"],
+            "401": narrativeResponses["401"],
+            "403": narrativeResponses["403"],
+            "404": narrativeResponses["404"],
+            "429": busyResponse("The caller already has the maximum number of jobs in progress"),
+            "500": textResponse("The job could not be created"),
+            "503": busyResponse("There are too many jobs in progress"),
+          },
+        },
+      },
+      "/dmps/{dmpId}/narrative/jobs/{jobId}": {
+        get: {
+          summary: "Check the status of a render job",
+          operationId: "getNarrativeJob",
+          security: optionalAuth,
+          parameters: [dmpIdParam, jobIdParam],
+          responses: {
+            "200": jsonResponse("The job", "RenderJob"),
+            "401": narrativeResponses["401"],
+            "404": textResponse("The job does not exist, has expired or belongs to someone else"),
+          },
+        },
+      },
+      "/dmps/{dmpId}/narrative/jobs/{jobId}/download": {
+        get: {
+          summary: "Download the narrative produced by a render job",
+          operationId: "downloadNarrativeJob",
+          security: optionalAuth,
+          parameters: [dmpIdParam, jobIdParam],
+          responses: {
+            "200": narrativeResponses["200"],
+            "401": narrativeResponses["401"],
+            "404": textResponse("The job does not exist, has expired or belongs to someone else"),
+            "409": textResponse("The job has not finished (or failed)"),
+            "500": textResponse("The document could not be retrieved"),
+          },
+        },
+      },
+      "/narrative": {
+        post: postNarrative("renderNarrative", []),
+      },
+      "/narrative.{ext}": {
+        post: postNarrative("renderNarrativeWithExtension", [formatParam]),
+      },
+      "/narrative/batch": {
+        post: {
+          summary: "Export the narratives for several DMPs as a ZIP archive",
+          description: "The archive contains a document for each DMP and a `manifest.json` (see `BatchManifest`).",
+          operationId: "exportNarratives",
+          security: optionalAuth,
+          parameters: uploadParams,
+          requestBody: {
+            required: true,
+            content: { [JSON_TYPE]: { schema: { $ref: "#/components/schemas/BatchRequest" } } },
+          },
+          responses: {
+            "200": {
+              description: "The ZIP archive",
+              content: { "application/zip": { schema: { type: "string", contentMediaType: "application/zip" } } },
+            },
+            "400": narrativeResponses["400"],
+            "401": narrativeResponses["401"],
+          },
+        },
+      },
+      "/narrative/openapi.json": {
+        get: {
+          summary: "This OpenAPI document",
+          operationId: "getOpenAPIDocument",
+          responses: {
+            "200": { description: "The OpenAPI document", content: { [JSON_TYPE]: { schema: { type: "object" } } } },
+          },
+        },
+      },
+      "/narrative-health": {
+        get: {
+          summary: "Health check",
+          operationId: "getHealth",
+          responses: { "200": textResponse("The service is running") },
+        },
+      },
+      "/metrics": {
+        get: {
+          summary: "Prometheus metrics",
+          operationId: "getMetrics",
+          responses: {
+            "200": {
+              description: "The metrics in the Prometheus text format",
+              content: { "text/plain": { schema: { type: "string" } } },
+            },
+          },
+        },
+      },
+      "/narrative-ready": {
+        get: {
+          summary: "Readiness check",
+          description: "Checks that SSM, RDS, DynamoDB and the PDF browsers can be reached.",
+          operationId: "getReadiness",
+          responses: {
+            "200": jsonResponse("Every component is up", "Readiness"),
+            "503": jsonResponse("At least one component is down", "Readiness"),
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          bearerFormat: "JWT",
+          description: "The DMP Tool access token (takes precedence over the cookie)",
+        },
+        cookieAuth: {
+          type: "apiKey",
+          in: "cookie",
+          name: "dmspt",
+          description: "The DMP Tool access token cookie set when signing in to the DMP Tool",
+        },
+        shareLink: {
+          type: "apiKey",
+          in: "query",
+          name: "share",
+          description: "A signed share link (see `createNarrativeShareLink`). Used in place of the caller's token.",
+        },
+      },
+      schemas: {
+        MaDMP: {
+          type: "object",
+          description: "A maDMP record that conforms to the RDA Common Standard",
+          required: ["dmp"],
+          properties: { dmp: { type: "object" } },
+          externalDocs: { url: "https://github.com/RDA-DMP-Common/RDA-DMP-Common-Standard" },
+        },
+        NotAcceptable: {
+          type: "object",
+          required: ["message", "supportedTypes"],
+          properties: {
+            message: { type: "string" },
+            requestId: { type: "string" },
+            supportedTypes: { type: "array", items: { type: "string", enum: SUPPORTED_TYPES } },
+          },
+        },
+        InvalidQueryParameters: {
+          type: "object",
+          required: ["message", "errors"],
+          properties: {
+            message: { type: "string" },
+            requestId: { type: "string" },
+            errors: {
+              type: "array",
+              items: {
+                type: "object",
+                required: ["param", "message"],
+                properties: {
+                  param: { type: "string", enum: QUERY_PARAMS.map((definition) => definition.name) },
+                  message: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        InvalidMaDMP: {
+          type: "object",
+          required: ["message", "errors"],
+          properties: {
+            message: { type: "string" },
+            requestId: { type: "string" },
+            errors: { type: "array", items: { type: "string" } },
+          },
+        },
+        Versions: {
+          type: "object",
+          required: ["dmpId", "versions"],
+          properties: {
+            dmpId: { type: "string" },
+            versions: {
+              type: "array",
+              items: {
+                type: "object",
+                required: ["modified", "registered", "title", "links"],
+                properties: {
+                  modified: { type: "string", format: "date-time" },
+                  registered: { type: "boolean" },
+                  title: { type: "string" },
+                  links: {
+                    type: "object",
+                    properties: Object.fromEntries(
+                      Object.keys(EXTENSION_TYPES).map((ext) => [ext, { type: "string" }])
+                    ),
+                  },
+                },
+              },
+            },
+          },
+        },
+        RefreshedMaDMP: {
+          type: "object",
+          required: ["dmpId", "modified"],
+          properties: {
+            dmpId: { type: "string" },
+            modified: { type: "string", format: "date-time" },
+          },
+        },
+        BatchRequest: {
+          type: "object",
+          required: ["dmpIds"],
+          properties: {
+            dmpIds: { type: "array", minItems: 1, items: { type: "string" } },
+            format: { type: "string", enum: Object.keys(EXTENSION_TYPES), default: "pdf" },
+          },
+        },
+        ShareLinkRequest: {
+          type: "object",
+          required: ["formats"],
+          properties: {
+            formats: { type: "array", minItems: 1, items: { type: "string", enum: Object.keys(EXTENSION_TYPES) } },
+            version: { type: "string", format: "date-time", description: "The latest version is shared if omitted" },
+            expiresInSeconds: { type: "integer", minimum: 1, description: "Defaults to 7 days (see `SHARE_LINK_TTL_SECONDS`)" },
+          },
+        },
+        ShareLink: {
+          type: "object",
+          required: ["linkId", "dmpId", "formats", "version", "redaction", "expires", "links"],
+          properties: {
+            linkId: { type: "string" },
+            dmpId: { type: "string" },
+            formats: { type: "array", items: { type: "string", enum: Object.keys(EXTENSION_TYPES) } },
+            version: { type: ["string", "null"], format: "date-time" },
+            // See `REDACTION_LEVELS` (not imported so that the document can be built without the data sources)
+            redaction: { type: "string", enum: ["none", "identifiers", "contributors"] },
+            expires: { type: "string", format: "date-time" },
+            links: {
+              type: "object",
+              description: "The URL of the narrative in each format (including the signed `share` query param)",
+              additionalProperties: { type: "string" },
+            },
+          },
+        },
+        RenderJobRequest: {
+          type: "object",
+          properties: {
+            format: { type: "string", enum: Object.keys(EXTENSION_TYPES), default: "pdf" },
+          },
+        },
+        RenderJob: {
+          type: "object",
+          required: ["jobId", "dmpId", "format", "status", "created", "updated", "links"],
+          properties: {
+            jobId: { type: "string" },
+            dmpId: { type: "string" },
+            format: { type: "string", enum: Object.keys(EXTENSION_TYPES) },
+            status: { type: "string", enum: ["queued", "running", "done", "failed"] },
+            created: { type: "string", format: "date-time" },
+            updated: { type: "string", format: "date-time" },
+            error: { type: "string" },
+            links: {
+              type: "object",
+              required: ["self"],
+              properties: {
+                self: { type: "string" },
+                download: { type: "string", description: "Only included once the job is done" },
+              },
+            },
+          },
+        },
+        Readiness: {
+          type: "object",
+          required: ["status", "checks"],
+          properties: {
+            status: { type: "string", enum: ["up", "down"] },
+            checks: {
+              type: "object",
+              additionalProperties: {
+                type: "object",
+                required: ["status", "durationMs"],
+                properties: {
+                  status: { type: "string", enum: ["up", "down"] },
+                  durationMs: { type: "integer" },
+                  error: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        BatchManifest: {
+          type: "object",
+          properties: {
+            format: { type: "string" },
+            generated: { type: "string", format: "date-time" },
+            requestId: { type: "string" },
+            results: {
+              type: "array",
+              items: {
+                type: "object",
+                required: ["dmpId", "status"],
+                properties: {
+                  dmpId: { type: "string" },
+                  status: { type: "string", enum: ["success", "denied", "failed"] },
+                  file: { type: "string" },
+                  message: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+
+  // Every operation accepts the caller's request id
+  for (const operations of Object.values(doc.paths)) {
+    for (const operation of Object.values(operations)) {
+      operation.parameters = [...(operation.parameters ?? []), requestIdParam];
+    }
+  }
+  return doc;
+}
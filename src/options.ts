@@ -0,0 +1,273 @@
+import { getFontFamily, pointsToFontSize, safeBoolean } from "./helper";
+
+// The options that control how a narrative is rendered (see `parseOptions`)
+export interface MarginInterface {
+  marginTop: number;
+  marginRight: number;
+  marginBottom: number;
+  marginLeft: number;
+}
+
+export interface FontInterface {
+  fontFamily: string;
+  fontSize: string;
+  lineHeight: number;
+}
+
+export interface DisplayOptionsInterface {
+  includeCoverPage: boolean;
+  includeSectionHeadings: boolean;
+  includeQuestionText: boolean;
+  includeUnansweredQuestions: boolean;
+  includeResearchOutputs: boolean;
+  includeRelatedWorks: boolean;
+}
+
+export interface OptionsInterface {
+  version: string | null;
+  display: DisplayOptionsInterface;
+  margin: MarginInterface;
+  font: FontInterface;
+}
+
+export type QueryParamValue = boolean | number | string;
+
+/**
+ * Describes one of the query params that control how a narrative is rendered.
+ * These definitions drive both the validation of incoming requests and the API docs.
+ */
+export interface QueryParamDefinition {
+  name: string,
+  type: "boolean" | "number" | "string",
+  description: string,
+  default?: QueryParamValue,
+  // The inclusive range allowed for numbers
+  minimum?: number,
+  maximum?: number,
+  // The allowed values for strings (case-insensitive)
+  enum?: string[],
+  // A regular expression that strings must match
+  pattern?: string,
+  example?: QueryParamValue,
+}
+
+/**
+ * An invalid query param
+ */
+export interface QueryParamError {
+  param: string,
+  message: string,
+}
+
+// The values accepted for boolean query params (see `safeBoolean`)
+export const BOOLEAN_VALUES = ["true", "false", "yes", "no", "1", "0", "on", "off"];
+
+export const QUERY_PARAMS: QueryParamDefinition[] = [
+  {
+    name: "version",
+    type: "string",
+    description: "The UTC timestamp of a historical version of the DMP (the latest version is used if omitted)",
+    pattern: "^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?Z$",
+    example: "2025-08-26T10:43:12Z",
+  },
+  {
+    name: "includeCoverPage",
+    type: "boolean",
+    description: "Whether the overview page should be included (N/A for CSV)",
+    default: true,
+  },
+  {
+    name: "includeSectionHeadings",
+    type: "boolean",
+    description: "Whether the template section titles and descriptions should be included",
+    default: true,
+  },
+  {
+    name: "includeQuestionText",
+    type: "boolean",
+    description: "Whether the question text should be included",
+    default: true,
+  },
+  {
+    name: "includeUnansweredQuestions",
+    type: "boolean",
+    description: "Whether unanswered questions should be included",
+    default: true,
+  },
+  {
+    name: "includeResearchOutputs",
+    type: "boolean",
+    description: "Whether the research outputs should appear as an appendix page",
+    default: true,
+  },
+  {
+    name: "includeRelatedWorks",
+    type: "boolean",
+    description: "Whether the related works should be included as an appendix page",
+    default: true,
+  },
+  {
+    name: "fontFamily",
+    type: "string",
+    description: "The font family to use",
+    enum: ["tinos", "roboto"],
+    default: "tinos",
+  },
+  {
+    name: "fontSize",
+    type: "number",
+    description: "The size of the font in points",
+    minimum: 8,
+    maximum: 14,
+    default: 11,
+  },
+  {
+    name: "lineHeight",
+    type: "number",
+    description: "The height of a standard line as a percentage of the font size",
+    minimum: 100,
+    maximum: 200,
+    default: 120,
+  },
+  {
+    name: "marginTop",
+    type: "number",
+    description: "The top page margin in pixels",
+    minimum: 0,
+    maximum: 200,
+    default: 76,
+  },
+  {
+    name: "marginRight",
+    type: "number",
+    description: "The right page margin in pixels",
+    minimum: 0,
+    maximum: 200,
+    default: 96,
+  },
+  {
+    name: "marginBottom",
+    type: "number",
+    description: "The bottom page margin in pixels",
+    minimum: 0,
+    maximum: 200,
+    default: 76,
+  },
+  {
+    name: "marginLeft",
+    type: "number",
+    description: "The left page margin in pixels",
+    minimum: 0,
+    maximum: 200,
+    default: 96,
+  },
+];
+
+/**
+ * Describe the values allowed for a query param (used in error messages)
+ *
+ * @param definition The query param definition
+ * @returns A human-readable description of the allowed values
+ */
+function describeAllowed(definition: QueryParamDefinition): string {
+  switch (definition.type) {
+    case "boolean":
+      return `must be one of ${BOOLEAN_VALUES.join(", ")}`;
+    case "number":
+      return `must be a number from ${definition.minimum} to ${definition.maximum}`;
+    default:
+      if (definition.enum) return `must be one of ${definition.enum.join(", ")}`;
+      return `must be formatted like ${definition.example}`;
+  }
+}
+
+/**
+ * Validate a single query param value
+ *
+ * @param definition The query param definition
+ * @param raw The value from the query string
+ * @returns The converted value (undefined if none was provided) or an error message
+ */
+function validateParam(
+  definition: QueryParamDefinition,
+  raw: unknown
+): { value?: QueryParamValue, error?: string } {
+  if (raw === undefined || (typeof raw === "string" && raw.trim().length === 0)) {
+    return {};
+  }
+  if (typeof raw !== "string") {
+    // e.g. `?fontSize=10&fontSize=12`
+    return { error: `${definition.name} must only be specified once` };
+  }
+
+  const value = raw.trim();
+  switch (definition.type) {
+    case "boolean":
+      return BOOLEAN_VALUES.includes(value.toLowerCase())
+        ? { value: safeBoolean(value, definition.default as boolean) }
+        : { error: `${definition.name} ${describeAllowed(definition)}` };
+
+    case "number": {
+      const num = Number(value);
+      const inRange = !isNaN(num) && num >= definition.minimum && num <= definition.maximum;
+      return inRange ? { value: num } : { error: `${definition.name} ${describeAllowed(definition)}` };
+    }
+
+    default: {
+      // Font names may be quoted (e.g. `fontFamily="Roboto"`)
+      const normalized = definition.enum ? value.toLowerCase().replace(/['"]/g, "") : value;
+      const valid = definition.enum
+        ? definition.enum.includes(normalized)
+        : new RegExp(definition.pattern).test(normalized);
+      return valid ? { value: normalized } : { error: `${definition.name} ${describeAllowed(definition)}` };
+    }
+  }
+}
+
+/**
+ * Convert the query params into rendering options, validating each one against `QUERY_PARAMS`
+ *
+ * Query params that are not rendering options are ignored.
+ *
+ * @param params The query params from the request
+ * @returns The rendering options (defaults are used for any missing or invalid params)
+ * and a list of the invalid params (empty if they are all valid)
+ */
+export function parseOptions(
+  params: Record<string, unknown> | undefined
+): { options: OptionsInterface, errors: QueryParamError[] } {
+  const values: Record<string, QueryParamValue> = {};
+  const errors: QueryParamError[] = [];
+
+  for (const definition of QUERY_PARAMS) {
+    const { value, error } = validateParam(definition, params?.[definition.name]);
+    if (error) {
+      errors.push({ param: definition.name, message: error });
+    }
+    values[definition.name] = value ?? definition.default;
+  }
+
+  const options: OptionsInterface = {
+    version: (values.version as string) ?? null,
+    display: {
+      includeCoverPage: values.includeCoverPage as boolean,
+      includeSectionHeadings: values.includeSectionHeadings as boolean,
+      includeQuestionText: values.includeQuestionText as boolean,
+      includeUnansweredQuestions: values.includeUnansweredQuestions as boolean,
+      includeResearchOutputs: values.includeResearchOutputs as boolean,
+      includeRelatedWorks: values.includeRelatedWorks as boolean,
+    },
+    margin: {
+      marginTop: values.marginTop as number,
+      marginRight: values.marginRight as number,
+      marginBottom: values.marginBottom as number,
+      marginLeft: values.marginLeft as number,
+    },
+    font: {
+      fontFamily: getFontFamily(values.fontFamily as string),
+      fontSize: pointsToFontSize(values.fontSize as number),
+      lineHeight: values.lineHeight as number,
+    },
+  };
+  return { options, errors };
+}
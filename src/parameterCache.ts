@@ -0,0 +1,46 @@
+/**
+ * A cache for values that are expensive to look up but rarely change (e.g. SSM parameters)
+ */
+export interface ParameterCache {
+  // Return the cached value or load it. Concurrent loads of the same key share a single lookup.
+  get(key: string, load: () => Promise<string | undefined>): Promise<string | undefined>,
+  // Forget every cached value (e.g. after the credentials were rejected)
+  clear(): void,
+}
+
+/**
+ * Create a cache that keeps each value for `ttlSeconds`. Values that could not be found
+ * (undefined) and failed lookups are not cached so that they are retried on the next call.
+ *
+ * @param ttlSeconds How long a value is kept
+ * @param now Returns the current time in milliseconds (for testing)
+ * @returns The cache
+ */
+export function createParameterCache(ttlSeconds: number, now: () => number = Date.now): ParameterCache {
+  const entries = new Map<string, { value: Promise<string | undefined>, expiresAt: number }>();
+
+  return {
+    get(key: string, load: () => Promise<string | undefined>): Promise<string | undefined> {
+      const entry = entries.get(key);
+      if (entry && entry.expiresAt > now()) return entry.value;
+
+      // Only remove the entry if it has not been replaced (e.g. after the cache was cleared)
+      const forget = () => {
+        if (entries.get(key)?.value === value) entries.delete(key);
+      };
+      const value = load().then((result) => {
+        if (result === undefined) forget();
+        return result;
+      }, (e) => {
+        forget();
+        throw e;
+      });
+      entries.set(key, { value, expiresAt: now() + (ttlSeconds * 1000) });
+      return value;
+    },
+
+    clear(): void {
+      entries.clear();
+    },
+  };
+}
@@ -1,32 +1,42 @@
-import puppeteer, { Browser, Page } from "puppeteer";
+import { Page } from "puppeteer";
+import { BrowserPoolStats, createBrowserPool } from "./browserPool";
 
-export async function renderPDF(html: string): Promise<Buffer> {
-  // Launch headless chrome so we can convert the HTML into a PDF doc
-  const browser: Browser = await puppeteer.launch({
-    // This path is where `apt-get` installs Chromium.
-    executablePath: '/usr/bin/chromium',
-    headless: true,
-    args: ["--no-sandbox", "--disable-setuid-sandbox"],
-  });
+// The browsers used to render PDFs are shared between requests
+const pool = createBrowserPool({
+  size: Number(process.env.PDF_BROWSER_POOL_SIZE) || 1,
+  maxConcurrentPages: Number(process.env.PDF_MAX_CONCURRENT_PAGES) || 4,
+  maxRendersPerBrowser: Number(process.env.PDF_MAX_RENDERS_PER_BROWSER) || 100,
+});
 
-  try {
-    const page: Page = await browser.newPage();
+export async function renderPDF(html: string): Promise<Buffer> {
+  return pool.withPage(async (page: Page) => {
     await page.setContent(html, {waitUntil: "networkidle0"});
 
     const pdf: Uint8Array = await page.pdf({
       format: "Letter",
       printBackground: false
     });
-    // Close the browser
-    await browser.close();
 
     // wrap Puppeteer Uint8Array into Node Buffer and return
     return Buffer.from(pdf);
-  } catch (e) {
-    if (browser) {
-      // Close the browser
-      await browser.close();
-    }
-    throw e;
-  }
+  });
+}
+
+// Launch the browsers ahead of time so that the first PDF is not slowed down
+export async function warmBrowserPool(): Promise<void> {
+  await pool.warm();
+}
+
+// Check that the browsers used to render PDFs respond
+export async function pingBrowserPool(): Promise<void> {
+  await pool.ping();
+}
+
+// Wait (up to the timeout) for any PDFs that are being rendered and then close the browsers
+export async function shutdownBrowserPool(timeoutMs?: number): Promise<void> {
+  await pool.shutdown(timeoutMs);
+}
+
+export function getBrowserPoolStats(): BrowserPoolStats {
+  return pool.stats();
 }
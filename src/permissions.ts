@@ -0,0 +1,312 @@
+import { DMPToolDMPType } from "@dmptool/types";
+import { EnvironmentEnum } from "@dmptool/utils";
+import { Logger } from "pino";
+import { loadPlanAccess, UserPlanInterface } from "./dataAccess";
+import { JWTAccessToken } from "./helper";
+import { EXTENSION_TYPES } from "./narrative";
+
+// What is removed from the maDMP record before it is rendered (from least to most)
+//   - none: Nothing
+//   - identifiers: The email addresses and identifiers (e.g. ORCIDs) of the contact and contributors
+//   - contributors: The identifiers along with the list of contributors
+export const REDACTION_LEVELS = ["none", "identifiers", "contributors"] as const;
+export type RedactionLevel = typeof REDACTION_LEVELS[number];
+
+/**
+ * What a rule allows the caller to download
+ */
+export interface AccessRule {
+  // The file extensions (see `EXTENSION_TYPES`) that can be downloaded or `*` for all of them
+  formats: string[],
+  redaction: RedactionLevel,
+}
+
+/**
+ * A rule for a role from the JWT
+ */
+export interface RoleRule extends AccessRule {
+  // `all` DMPs or only the DMPs with a contact or contributor from the user's affiliation
+  scope: "all" | "affiliation",
+}
+
+/**
+ * Who can download a narrative and how much of it they see
+ */
+export interface AccessPolicy {
+  // Anyone (including anonymous callers) for public DMPs
+  public: AccessRule,
+  // Keyed by the role in the JWT (e.g. `SUPERADMIN`)
+  roles: Record<string, RoleRule>,
+  // Keyed by the collaborator's access level from `projectCollaborators` (e.g. `OWN`). The `*` rule
+  // applies to the access levels that do not have their own rule.
+  accessLevels: Record<string, AccessRule>,
+}
+
+/**
+ * The outcome of applying the policy to a request
+ */
+export interface AccessDecision {
+  allowed: boolean,
+  // The rule that granted access (e.g. `role:SUPERADMIN` or `accessLevel:EDIT`)
+  rule?: string,
+  redaction: RedactionLevel,
+  // The caller has access to the DMP but not in the requested format
+  formatNotAllowed?: boolean,
+}
+
+const ALL_FORMATS = ["*"];
+
+// The rule for the access levels that do not have their own rule
+const OTHER_ACCESS_LEVELS = "*";
+
+// Every collaborator (whatever their access level) can download the whole narrative in any format.
+// Deployments can tighten this with NARRATIVE_ACCESS_POLICY (see `loadAccessPolicy`).
+export const DEFAULT_ACCESS_POLICY: AccessPolicy = {
+  public: { formats: ALL_FORMATS, redaction: "none" },
+  roles: {
+    SUPERADMIN: { scope: "all", formats: ALL_FORMATS, redaction: "none" },
+    ADMIN: { scope: "affiliation", formats: ALL_FORMATS, redaction: "none" },
+  },
+  accessLevels: {
+    [OTHER_ACCESS_LEVELS]: { formats: ALL_FORMATS, redaction: "none" },
+  },
+};
+
+/**
+ * Verify that the rule only refers to known formats, redaction levels and scopes
+ *
+ * @param name The name of the rule (for the error message)
+ * @param rule The rule
+ * @param isRole Whether the rule is for a role (and needs a scope)
+ */
+function validateRule(name: string, rule: Partial<RoleRule>, isRole: boolean): void {
+  const formats = rule?.formats;
+  if (!Array.isArray(formats) || formats.some((f) => f !== "*" && !EXTENSION_TYPES[f])) {
+    throw new Error(`Invalid NARRATIVE_ACCESS_POLICY: ${name} must have a list of formats (${Object.keys(EXTENSION_TYPES).join(", ")} or *)`);
+  }
+  if (!REDACTION_LEVELS.includes(rule.redaction)) {
+    throw new Error(`Invalid NARRATIVE_ACCESS_POLICY: ${name} must have a redaction of ${REDACTION_LEVELS.join(", ")}`);
+  }
+  if (isRole && rule.scope !== "all" && rule.scope !== "affiliation") {
+    throw new Error(`Invalid NARRATIVE_ACCESS_POLICY: ${name} must have a scope of all or affiliation`);
+  }
+}
+
+/**
+ * Parse the JSON in the NARRATIVE_ACCESS_POLICY env variable
+ *
+ * @param json The JSON
+ * @returns The changes to the default policy or the reason the JSON could not be parsed
+ */
+function parsePolicyJSON(json: string): { overrides?: Partial<AccessPolicy>, error?: string } {
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(json);
+  } catch (e) {
+    return { error: e.message };
+  }
+
+  const isObject = (value: unknown): boolean => typeof value === "object" && value !== null && !Array.isArray(value);
+  if (!isObject(overrides)) {
+    return { error: "must be a JSON object" };
+  }
+  for (const key of ["roles", "accessLevels"]) {
+    const rules = (overrides as Record<string, unknown>)[key];
+    if (rules !== undefined && !isObject(rules)) {
+      return { error: `${key} must be a JSON object` };
+    }
+  }
+  return { overrides: overrides as Partial<AccessPolicy> };
+}
+
+/**
+ * Build the access policy from the JSON in the NARRATIVE_ACCESS_POLICY env variable. The rules
+ * are merged over the `DEFAULT_ACCESS_POLICY` so only the changes need to be defined, e.g.
+ *   {"accessLevels": {"COMMENT": {"formats": ["pdf"], "redaction": "contributors"}}}
+ * A rule set to null is removed (e.g. `"*": null` so that only the listed access levels grant access).
+ *
+ * @param json The JSON (the default policy is used if it is empty)
+ * @returns The access policy
+ */
+export function loadAccessPolicy(json: string | undefined): AccessPolicy {
+  if (!json?.trim()) return DEFAULT_ACCESS_POLICY;
+
+  const { overrides, error } = parsePolicyJSON(json);
+  if (error) {
+    throw new Error(`Invalid NARRATIVE_ACCESS_POLICY: ${error}`);
+  }
+
+  // Roles and access levels are matched case-insensitively
+  const upperKeys = <T>(rules: Record<string, T> = {}): Record<string, T> => Object.fromEntries(
+    Object.entries(rules).map(([key, rule]) => [key.toUpperCase(), rule])
+  );
+  const merge = <T>(defaults: Record<string, T>, rules: Record<string, T> | undefined): Record<string, T> => Object.fromEntries(
+    Object.entries({ ...defaults, ...upperKeys(rules) }).filter(([, rule]) => rule !== null)
+  );
+  const policy: AccessPolicy = {
+    public: overrides.public ?? DEFAULT_ACCESS_POLICY.public,
+    roles: merge(DEFAULT_ACCESS_POLICY.roles, overrides.roles),
+    accessLevels: merge(DEFAULT_ACCESS_POLICY.accessLevels, overrides.accessLevels),
+  };
+
+  validateRule("public", policy.public, false);
+  Object.entries(policy.roles).forEach(([role, rule]) => validateRule(`roles.${role}`, rule, true));
+  Object.entries(policy.accessLevels).forEach(([level, rule]) => validateRule(`accessLevels.${level}`, rule, false));
+  return policy;
+}
+
+let accessPolicy: AccessPolicy | undefined;
+
+/**
+ * The access policy defined by the NARRATIVE_ACCESS_POLICY env variable (see `loadAccessPolicy`)
+ *
+ * @returns The access policy
+ */
+export function getAccessPolicy(): AccessPolicy {
+  if (!accessPolicy) {
+    accessPolicy = loadAccessPolicy(process.env.NARRATIVE_ACCESS_POLICY);
+  }
+  return accessPolicy;
+}
+
+/**
+ * Collect the ids of every affiliation of the DMP's contact and contributors
+ *
+ * @param data The maDMP record
+ * @returns The affiliation ids
+ */
+export function dmpAffiliationIds(data: DMPToolDMPType): string[] {
+  const people = [data?.dmp?.contact, ...(Array.isArray(data?.dmp?.contributor) ? data.dmp.contributor : [])];
+  return people
+    .flatMap((person) => (Array.isArray(person?.affiliation) ? person.affiliation : []))
+    .map((affiliation) => affiliation?.affiliation_id?.identifier)
+    .filter((id) => !!id);
+}
+
+/**
+ * Determine if the rule allows the format
+ *
+ * @param rule The rule
+ * @param format The media type being rendered
+ * @returns true if the format can be downloaded
+ */
+function allowsFormat(rule: AccessRule, format: string): boolean {
+  return rule.formats.some((ext) => ext === "*" || EXTENSION_TYPES[ext] === format);
+}
+
+/**
+ * Apply the policy to the request. If several rules apply, the one with the least redaction
+ * wins (roles first, then the access level and then the public rule).
+ *
+ * @param policy The access policy
+ * @param data The maDMP record for the DMP
+ * @param planAccess The user's access to the Plan (undefined if they are not a collaborator)
+ * @param token The user's JWT token
+ * @param format The media type being rendered (any format if undefined)
+ * @returns The decision
+ */
+export function evaluateAccess(
+  policy: AccessPolicy,
+  data: DMPToolDMPType,
+  planAccess: UserPlanInterface | undefined,
+  token: JWTAccessToken | undefined,
+  format?: string
+): AccessDecision {
+  const candidates: [string, AccessRule][] = [];
+
+  if (token?.role) {
+    const role = token.role.toUpperCase();
+    const rule = policy.roles[role];
+    if (rule && (rule.scope === "all" || dmpAffiliationIds(data).includes(token.affiliationId))) {
+      candidates.push([`role:${role}`, rule]);
+    }
+  }
+
+  // The access level only counts if it is for this DMP
+  if (planAccess?.accessLevel && planAccess.dmpId === data?.dmp?.dmp_id?.identifier) {
+    const level = planAccess.accessLevel.toUpperCase();
+    const rule = policy.accessLevels[level] ?? policy.accessLevels[OTHER_ACCESS_LEVELS];
+    if (rule) candidates.push([`accessLevel:${level}`, rule]);
+  }
+
+  if (data?.dmp?.privacy === "public") {
+    candidates.push(["public", policy.public]);
+  }
+
+  const allowed = format ? candidates.filter(([, rule]) => allowsFormat(rule, format)) : candidates;
+  if (allowed.length === 0) {
+    return { allowed: false, redaction: "none", formatNotAllowed: candidates.length > 0 };
+  }
+
+  const [name, rule] = allowed.reduce((best, candidate) => (
+    REDACTION_LEVELS.indexOf(candidate[1].redaction) < REDACTION_LEVELS.indexOf(best[1].redaction) ? candidate : best
+  ));
+  return { allowed: true, rule: name, redaction: rule.redaction };
+}
+
+/**
+ * Determines if the user has permission to download the narrative (see `NARRATIVE_ACCESS_POLICY`)
+ * and which parts of it they can see. The user's access to the Plan is only looked up if the
+ * other rules do not already grant full access (e.g. the DMP is public or the user is an Admin for it).
+ *
+ * @param logger the logger to use for logging
+ * @param data The maDMP record for the DMP
+ * @param dmpId The DMP ID (with the protocol and domain)
+ * @param token The user's JWT token
+ * @param env the environment to use for fetching parameters from SSM
+ * @param format The media type being rendered (any format if undefined)
+ * @returns The access decision
+ */
+export async function checkNarrativeAccess(
+  logger: Logger,
+  data: DMPToolDMPType,
+  dmpId: string,
+  token: JWTAccessToken | undefined,
+  env: EnvironmentEnum = EnvironmentEnum.DEV,
+  format?: string
+): Promise<AccessDecision> {
+  const policy = getAccessPolicy();
+  let decision = evaluateAccess(policy, data, undefined, token, format);
+
+  // Only collaborators (identified by their email) can improve on the decision
+  if ((!decision.allowed || decision.redaction !== "none") && token?.email) {
+    const planAccess = await loadPlanAccess(logger, token, dmpId, env);
+    if (planAccess) {
+      decision = evaluateAccess(policy, data, planAccess, token, format);
+    }
+  }
+
+  if (decision.allowed) {
+    logger.info(
+      { dmpId, userId: token?.id, jti: token?.jti, format, rule: decision.rule, redaction: decision.redaction },
+      "Granted access to the narrative"
+    );
+  }
+  return decision;
+}
+
+/**
+ * Remove the parts of the maDMP record that the caller is not allowed to see
+ *
+ * @param data The maDMP record
+ * @param redaction The redaction level (see `REDACTION_LEVELS`)
+ * @returns A redacted copy of the maDMP record (or the record itself if nothing is removed)
+ */
+export function redactMaDMP(data: DMPToolDMPType["dmp"], redaction: RedactionLevel): DMPToolDMPType["dmp"] {
+  if (redaction === "none") return data;
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { mbox, contact_id, ...contact } = data.contact ?? {} as DMPToolDMPType["dmp"]["contact"];
+  const redacted = { ...data, contact: data.contact ? contact : undefined } as DMPToolDMPType["dmp"];
+
+  if (redaction === "contributors") {
+    delete redacted.contributor;
+  } else if (Array.isArray(data.contributor)) {
+    redacted.contributor = data.contributor.map((contributor) => {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { mbox, contributor_id, ...rest } = contributor;
+      return rest;
+    }) as DMPToolDMPType["dmp"]["contributor"];
+  }
+  return redacted;
+}
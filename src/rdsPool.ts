@@ -0,0 +1,113 @@
+import { ConnectionParams } from "@dmptool/utils";
+import { createPool, FieldPacket, Pool } from "mysql2/promise";
+
+/**
+ * The settings for the RDS connection pool
+ */
+export interface RDSPoolOptions {
+  // The maximum number of connections
+  connectionLimit: number,
+  // The maximum number of idle connections to keep open
+  maxIdle: number,
+  // How long an idle connection is kept open
+  idleTimeoutSeconds: number,
+  // The number of queries that can wait for a connection (0 for no limit)
+  queueLimit: number,
+  // How long to wait for a new connection to be established
+  connectTimeoutSeconds: number,
+}
+
+/**
+ * The current state of the RDS connection pool
+ */
+export interface RDSPoolStats {
+  connections: number,
+  active: number,
+  idle: number,
+  // The number of queries waiting for a connection
+  queued: number,
+}
+
+/**
+ * A pool of RDS connections shared by every request
+ */
+export interface RDSPool {
+  // Run the query on one of the pool's connections (the same result as `queryTable` in `@dmptool/utils`)
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  query(config: ConnectionParams, sql: string, values: unknown[]): Promise<{ results: any, fields: FieldPacket[] }>,
+  stats(): RDSPoolStats,
+  // Close every connection. The next query opens a new pool.
+  end(): Promise<void>,
+}
+
+// The pool's internal queues. They are not part of the mysql2 typings but are the only way to
+// see how many connections are open and how many queries are waiting.
+interface CorePoolQueues {
+  _allConnections?: { length: number },
+  _freeConnections?: { length: number },
+  _connectionQueue?: { length: number },
+}
+
+/**
+ * Create a connection pool for RDS. The pool is opened on the first query. If the credentials
+ * change (e.g. the password was rotated) the pool is replaced and the old connections are closed
+ * once their queries have finished.
+ *
+ * @param options The pool settings
+ * @returns The pool
+ */
+export function createRDSPool(options: RDSPoolOptions): RDSPool {
+  let pool: Pool | undefined;
+  let poolKey: string | undefined;
+
+  const getPool = (config: ConnectionParams): Pool => {
+    const key = JSON.stringify([config.host, config.port, config.user, config.password, config.database]);
+    if (pool && poolKey === key) return pool;
+
+    if (pool) {
+      const previous = pool;
+      previous.end().catch((e) => config.logger?.warn({ err: e }, 'Unable to close the previous RDS pool'));
+    }
+    pool = createPool({
+      host: config.host,
+      port: config.port,
+      user: config.user,
+      password: config.password,
+      database: config.database,
+      waitForConnections: true,
+      connectionLimit: options.connectionLimit,
+      maxIdle: options.maxIdle,
+      idleTimeout: options.idleTimeoutSeconds * 1000,
+      queueLimit: options.queueLimit,
+      connectTimeout: options.connectTimeoutSeconds * 1000,
+    });
+    poolKey = key;
+    return pool;
+  };
+
+  return {
+    async query(config: ConnectionParams, sql: string, values: unknown[]) {
+      const [results, fields] = await getPool(config).query(sql, values);
+      return { results, fields };
+    },
+
+    stats(): RDSPoolStats {
+      const queues = (pool?.pool ?? {}) as CorePoolQueues;
+      const connections = queues._allConnections?.length ?? 0;
+      const idle = queues._freeConnections?.length ?? 0;
+      return {
+        connections,
+        active: connections - idle,
+        idle,
+        queued: queues._connectionQueue?.length ?? 0,
+      };
+    },
+
+    async end(): Promise<void> {
+      const current = pool;
+      pool = undefined;
+      poolKey = undefined;
+      await current?.end();
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import { Logger } from "pino";
+
+/**
+ * The result of checking one of the services the narratives depend on
+ */
+export interface ComponentStatus {
+  status: "up" | "down",
+  durationMs: number,
+  // Only included when the component is down. The details are logged rather than returned.
+  error?: string,
+}
+
+/**
+ * The result of checking each of the services the narratives depend on
+ */
+export interface ReadinessReport {
+  // "down" if any of the components are down
+  status: "up" | "down",
+  checks: Record<string, ComponentStatus>,
+}
+
+/**
+ * The checks to run, keyed by component name. Each check throws if the component is down.
+ */
+export type ReadinessChecks = Record<string, () => Promise<void>>;
+
+/**
+ * Run a single check, treating it as down if it fails or does not finish in time
+ *
+ * @param logger The logger to use for logging
+ * @param name The name of the component
+ * @param check The check to run
+ * @param timeoutMs How long the check has to finish
+ * @returns The status of the component
+ */
+async function runCheck(
+  logger: Logger,
+  name: string,
+  check: () => Promise<void>,
+  timeoutMs: number
+): Promise<ComponentStatus> {
+  const started = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+
+  try {
+    await Promise.race([check(), timeout]);
+    return { status: "up", durationMs: Date.now() - started };
+  } catch (e) {
+    const timedOut = e.message?.startsWith("Timed out");
+    logger.warn({ component: name, err: e }, "Readiness check failed");
+    return {
+      status: "down",
+      durationMs: Date.now() - started,
+      error: timedOut ? e.message : "Check failed",
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run the readiness checks at the same time
+ *
+ * @param logger The logger to use for logging
+ * @param checks The checks to run
+ * @param timeoutMs How long each check has to finish
+ * @returns The status of each component
+ */
+export async function checkReadiness(
+  logger: Logger,
+  checks: ReadinessChecks,
+  timeoutMs: number
+): Promise<ReadinessReport> {
+  const names = Object.keys(checks);
+  const results = await Promise.all(names.map((name) => runCheck(logger, name, checks[name], timeoutMs)));
+
+  return {
+    status: results.every((result) => result.status === "up") ? "up" : "down",
+    checks: Object.fromEntries(names.map((name, idx) => [name, results[idx]])),
+  };
+}
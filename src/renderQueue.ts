@@ -0,0 +1,124 @@
+/**
+ * The settings for a render queue
+ */
+export interface RenderQueueOptions {
+  // The number of renders that can run at once
+  concurrency: number,
+  // The number of renders that can wait for one of the running renders to finish
+  maxQueued: number,
+  // The number of renders (running or waiting) a single user can have at once
+  maxPerUser: number,
+  // How long callers are told to wait before trying again
+  retryAfterSeconds: number,
+}
+
+/**
+ * The current state of a render queue
+ */
+export interface RenderQueueStats {
+  running: number,
+  queued: number,
+  // The number of renders turned away because the queue or the user's limit was full
+  rejected: number,
+}
+
+/**
+ * A bounded queue for expensive renders
+ */
+export interface RenderQueue {
+  // Run the render once there is capacity. Throws a RenderQueueFullError if there is no room to wait.
+  run<T>(userId: string | number | undefined, render: () => Promise<T>): Promise<T>,
+  stats(): RenderQueueStats,
+}
+
+/**
+ * Thrown when a render cannot be accepted. The status is `503` when the queue is full
+ * and `429` when the user already has the maximum number of renders in progress.
+ */
+export class RenderQueueFullError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 429 | 503,
+    public readonly retryAfterSeconds: number
+  ) {
+    super(message);
+    this.name = "RenderQueueFullError";
+  }
+}
+
+/**
+ * Create a queue that limits the number of renders running at once. Renders run in the
+ * order they were received.
+ *
+ * Renders for anonymous callers (no user id) are only subject to the overall limits.
+ *
+ * @param options The queue settings
+ * @returns The render queue
+ */
+export function createRenderQueue(options: RenderQueueOptions): RenderQueue {
+  const waiting: (() => void)[] = [];
+  const perUser = new Map<string, number>();
+  let running = 0;
+  let rejected = 0;
+
+  // Hand the slot over to the next waiting render (if any)
+  const releaseSlot = (): void => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      running--;
+    }
+  };
+
+  return {
+    async run<T>(userId: string | number | undefined, render: () => Promise<T>): Promise<T> {
+      const user = userId === undefined || userId === null ? undefined : String(userId);
+
+      if (user && (perUser.get(user) ?? 0) >= options.maxPerUser) {
+        rejected++;
+        throw new RenderQueueFullError(
+          "Too many of your documents are being generated. Please try again later.",
+          429,
+          options.retryAfterSeconds
+        );
+      }
+      if (running >= options.concurrency && waiting.length >= options.maxQueued) {
+        rejected++;
+        throw new RenderQueueFullError(
+          "Too many documents are being generated. Please try again later.",
+          503,
+          options.retryAfterSeconds
+        );
+      }
+
+      if (user) perUser.set(user, (perUser.get(user) ?? 0) + 1);
+      try {
+        if (running < options.concurrency) {
+          running++;
+        } else {
+          await new Promise<void>((resolve) => waiting.push(resolve));
+        }
+
+        try {
+          return await render();
+        } finally {
+          releaseSlot();
+        }
+      } finally {
+        if (user) {
+          const remaining = perUser.get(user) - 1;
+          if (remaining > 0) {
+            perUser.set(user, remaining);
+          } else {
+            perUser.delete(user);
+          }
+        }
+      }
+    },
+
+    stats(): RenderQueueStats {
+      return { running, queued: waiting.length, rejected };
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import { randomUUID } from "crypto";
+import { NextFunction, Request, Response } from "express";
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+// Ids sent by the caller are only used if they are reasonably short and can't be used to
+// inject anything into the logs (e.g. new lines). Otherwise a new id is generated.
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Express middleware that uses the caller's `X-Request-Id` header (or generates a new id) to
+ * identify the request. The id is echoed in the response headers so that a failed request can
+ * be matched to the logs.
+ *
+ * @param req The request
+ * @param res The response
+ * @param next The next middleware
+ */
+export function assignRequestId(req: Request, res: Response, next: NextFunction): void {
+  const requested = req.get(REQUEST_ID_HEADER);
+  const requestId = requested && VALID_REQUEST_ID.test(requested) ? requested : randomUUID();
+
+  res.locals.requestId = requestId;
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+  next();
+}
+
+/**
+ * Get the id assigned to the request by `assignRequestId`
+ *
+ * @param res The response
+ * @returns The request id
+ */
+export function getRequestId(res: Response): string | undefined {
+  return res.locals?.requestId;
+}
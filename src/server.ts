@@ -1,19 +1,61 @@
 import * as dotenv from 'dotenv';
 import { Logger } from 'pino';
 import express, { Response } from "express";
+import { Server } from "http";
 import { JWTAccessToken } from "./helper";
 import cookieParser from "cookie-parser";
-import { renderCSV } from "./csv";
-import { renderHTML } from "./html";
-import { renderPDF } from "./pdf";
-import { renderDOCX } from "./docx";
-import { renderTXT } from "./txt";
+import { randomUUID } from "crypto";
+import { ZipFile } from "yazl";
 import {
-  safeNumber,
-  safeBoolean,
-  pointsToFontSize,
-  getFontFamily
-} from "./helper";
+  DOCX_TYPE,
+  EXTENSION_TYPES,
+  NarrativeDocument,
+  narrativeETag,
+  PDF_TYPE,
+  renderNarrative,
+  selectFormat,
+  SUPPORTED_TYPES
+} from "./narrative";
+import {
+  createNarrativeCache,
+  invalidateNarrativeCache,
+  narrativeCacheKey,
+  renderWithCache
+} from "./cache";
+import { createArtifactStore } from "./artifactStore";
+import { getRDSPoolStats } from "./awsDataSource";
+import { createJobManager, RenderJob } from "./jobs";
+import { buildOpenAPIDocument } from "./openapi";
+import { getBrowserPoolStats, pingBrowserPool, shutdownBrowserPool, warmBrowserPool } from "./pdf";
+import { checkReadiness } from "./readiness";
+import {
+  metricsRegistry,
+  recordDocument,
+  recordPermissionDenial,
+  recordRegeneration,
+  RegenerationReason,
+  registerBrowserPoolMetrics,
+  registerRDSPoolMetrics,
+  registerRenderQueueMetrics,
+  timeStage,
+  trackRequestMetrics
+} from "./metrics";
+import { createRenderQueue, RenderQueueFullError } from "./renderQueue";
+import { assignRequestId, getRequestId } from "./requestId";
+import { createServerDrain, settledWithin } from "./shutdown";
+import { setSpanAttributes, shutdownTracing, startTracing, traceRequest, withTraceContext } from "./tracing";
+import { OptionsInterface, parseOptions, QueryParamError } from "./options";
+import { checkNarrativeAccess, getAccessPolicy, redactMaDMP, REDACTION_LEVELS, RedactionLevel } from "./permissions";
+import {
+  auditShareLink,
+  getShareLinkSecret,
+  SHARE_LINK_PARAM,
+  ShareLink,
+  ShareLinkCreator,
+  signShareLink,
+  verifyShareLink
+} from "./shareLinks";
+import { validateMaDMP } from "./validation";
 import { expressjwt, Request } from "express-jwt";
 import { DMPToolDMPType } from "@dmptool/types";
 import {
@@ -23,79 +65,82 @@ import {
   LogLevelEnum,
 } from "@dmptool/utils";
 import {
+  closeDataSource,
+  dataSourceReadinessChecks,
   handleMissingMaDMP,
-  hasPermissionToDownloadNarrative,
   loadMaDMPFromDynamo,
+  loadMaDMPVersionsFromDynamo,
   loadPlan,
-  loadPlansForUser,
+  loadRenderJob,
+  loadShareLink,
   PlanInterface,
-  UserPlanInterface
+  revokeShareLink,
+  saveRegeneratedMaDMP,
+  saveRenderJob,
+  saveShareLink
 } from "./dataAccess";
 
 dotenv.config();
 
-const CSV_TYPE = "text/csv";
-const DOCX_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
-const HTML_TYPE = "text/html";
-const JSON_TYPE = "application/json";
-const TXT_TYPE = "text/plain";
-const PDF_TYPE = "application/pdf";
-
-// ---------------- Interfaces for formatting options ----------------
-export interface MarginInterface {
-  marginTop: number;
-  marginRight: number;
-  marginBottom: number;
-  marginLeft: number;
-}
+// The maximum number of DMPs that can be included in a single batch export
+const MAX_BATCH_SIZE = Number(process.env.MAX_BATCH_SIZE) || 50;
 
-export interface FontInterface {
-  fontFamily: string;
-  fontSize: string;
-  lineHeight: number;
-}
+// The rendered narratives (see `createNarrativeCache` for the env variables that control it)
+const narrativeCache = createNarrativeCache();
 
-export interface DisplayOptionsInterface {
-  includeCoverPage: boolean;
-  includeSectionHeadings: boolean;
-  includeQuestionText: boolean;
-  includeUnansweredQuestions: boolean;
-  includeResearchOutputs: boolean;
-  includeRelatedWorks: boolean;
-}
+// Limits the number of PDF and DOCX documents that can be rendered at once
+const renderQueue = createRenderQueue({
+  concurrency: Number(process.env.RENDER_CONCURRENCY) || 4,
+  maxQueued: Number(process.env.RENDER_QUEUE_DEPTH) || 20,
+  maxPerUser: Number(process.env.RENDER_MAX_PER_USER) || 2,
+  retryAfterSeconds: Number(process.env.RENDER_RETRY_AFTER_SECONDS) || 30,
+});
 
-interface OptionsInterface {
-  version: string | null;
-  display: DisplayOptionsInterface;
-  margin: MarginInterface;
-  font: FontInterface;
-}
+registerBrowserPoolMetrics(getBrowserPoolStats);
+registerRenderQueueMetrics(() => renderQueue.stats());
+registerRDSPoolMetrics(getRDSPoolStats);
 
-// ---------------- Convert query params into options ----------------
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function prepareOptions(params: any): OptionsInterface {
-  return {
-    version: params?.version,
-    display: {
-      includeCoverPage: safeBoolean(params?.includeCoverPage as string, true),
-      includeSectionHeadings: safeBoolean(params?.includeSectionHeadings as string, true),
-      includeQuestionText: safeBoolean(params?.includeQuestionText as string, true),
-      includeUnansweredQuestions: safeBoolean(params?.includeUnansweredQuestions as string, true),
-      includeResearchOutputs: safeBoolean(params?.includeResearchOutputs as string, true),
-      includeRelatedWorks: safeBoolean(params?.includeRelatedWorks as string, true),
-    },
-    margin : {
-      marginTop: safeNumber(params?.marginTop as string, 76),
-      marginRight: safeNumber(params?.marginRight as string, 96),
-      marginBottom: safeNumber(params?.marginBottom as string, 76),
-      marginLeft: safeNumber(params?.marginLeft as string, 96),
-    },
-    font: {
-      fontFamily: getFontFamily(params?.fontFamily as string),
-      fontSize: pointsToFontSize(safeNumber(params?.fontSize as string, 11)),
-      lineHeight: safeNumber(params?.lineHeight as string, 120),
+// Renders narratives in the background for the async job routes
+const renderJobs = createJobManager({ save: saveRenderJob, load: loadRenderJob }, createArtifactStore(), {
+  concurrency: Number(process.env.JOB_CONCURRENCY) || 1,
+  maxActive: Number(process.env.JOB_MAX_ACTIVE) || 50,
+  maxActivePerUser: Number(process.env.JOB_MAX_ACTIVE_PER_USER) || 5,
+  ttlSeconds: Number(process.env.JOB_TTL_SECONDS) || 3600,
+  retryAfterSeconds: Number(process.env.RENDER_RETRY_AFTER_SECONDS) || 30,
+});
+
+// Keeps track of the requests in progress so that they can finish when the service is stopped
+const serverDrain = createServerDrain();
+
+// ---------------- Fetch the JWT from the request ----------------
+// The `Authorization: Bearer` header takes precedence over the `dmspt` cookie
+// because it is explicitly provided by the caller (e.g. a script or API client)
+// while the cookie may just be left over from a browser session.
+export function getTokenFromRequest(req: express.Request): string | undefined {
+  const authHeader = req.headers.authorization;
+  if (authHeader) {
+    const match = /^Bearer\s+(\S+)\s*$/i.exec(authHeader);
+    if (match) {
+      return match[1];
+    }
+  }
+
+  if (req.cookies?.dmspt) {
+    return req.cookies?.dmspt?.toString();
+  }
+
+  // Fallback to the raw header which may contain several cookies
+  //   e.g. "other=abc; dmspt=my-token; another=123"
+  const headerCookie = req.headers.cookie;
+  if (headerCookie) {
+    for (const cookie of headerCookie.split(';')) {
+      const idx = cookie.indexOf('=');
+      if (idx > 0 && cookie.slice(0, idx).trim() === 'dmspt') {
+        return cookie.slice(idx + 1).trim() || undefined;
+      }
     }
   }
+  return undefined;
 }
 
 // ---------------- Middleware to fetch the JWT ----------------
@@ -103,47 +148,840 @@ const auth = expressjwt({
   algorithms: ['HS256'],
   credentialsRequired: false,
   secret: process.env.JWT_SECRET,
+  getToken: getTokenFromRequest,
+});
+
+// ---------------- Process the environment variables ----------------
+function loadEnvConfig() {
+  return {
+    logLevel: process.env.LOG_LEVEL ? LogLevelEnum[process.env.LOG_LEVEL.toUpperCase()] : LogLevelEnum.INFO,
+    env: process.env.ENV ? EnvironmentEnum[process.env.ENV?.toUpperCase()] : EnvironmentEnum.DEV,
+    domainName: process.env.DOMAIN_NAME || "localhost:3000",
+    applicationName: process.env.APPLICATION_NAME,
+    ezidBaseURL: process.env.EZID_BASE_URL || 'https://doi.org/',
+    // Narrative downloads never save the regenerated maDMP records (see the `refresh` endpoint)
+    readOnly: (process.env.NARRATIVE_READ_ONLY || "false").toLowerCase() === "true",
+    // Share links expire after 7 days unless the caller asks for less (or more, up to the maximum)
+    shareLinkTTL: Number(process.env.SHARE_LINK_TTL_SECONDS) || 7 * 24 * 60 * 60,
+    shareLinkMaxTTL: Number(process.env.SHARE_LINK_MAX_TTL_SECONDS) || 30 * 24 * 60 * 60,
+  };
+}
+
+// ---------------- Convert the path's wildcard segments into the DMP id ----------------
+function dmpIdFromPath(splat: string[] | string, ezidBaseURL: string): { dmpId: string, fullDMPId: string } {
+  const dmpId = Array.isArray(splat) ? splat.join("/") : splat.toString();
+  const fullDMPId = ezidBaseURL.endsWith('/') ? `${ezidBaseURL}${dmpId}` : `${ezidBaseURL}/${dmpId}`;
+  return { dmpId, fullDMPId };
+}
+
+// ----------------- Pick a name for a file in the batch export archive -----------------
+// Different DMP ids can produce the same name (e.g. `11.11111/A1B2` and `11.11111-A1B2`) so a counter is appended
+function uniqueFileName(files: Set<string>, name: string, extension: string): string {
+  let file = `${name}.${extension}`;
+  for (let i = 2; files.has(file); i++) {
+    file = `${name}-${i}.${extension}`;
+  }
+  files.add(file);
+  return file;
+}
+
+// ----------------- Create the logger for a request  -----------------
+// Every line is tagged with the request id (and the trace/span ids). The logger is passed to each
+// of the `dataAccess` functions (and on to `@dmptool/utils`) so that their lines are tagged too.
+function initializeRequestLogger(res: Response, logLevel: LogLevelEnum): Logger {
+  return withTraceContext(initializeLogger('narrative-generator', logLevel).child({ requestId: getRequestId(res) }));
+}
+
+// ----------------- Send an error response  -----------------
+// The request id is included so that support staff can match a user's failed request to the logs
+function sendError(res: Response, status: number, message: string): void {
+  res.status(status).send(`${message} (Request ID: ${getRequestId(res)})`);
+}
+
+// ----------------- Send a rendered narrative document  -----------------
+function sendNarrative(res: Response, doc: NarrativeDocument): void {
+  recordDocument(doc.extension);
+  if (doc.disposition) {
+    res.setHeader("Content-Disposition", doc.disposition);
+  }
+  res.type(doc.contentType).send(doc.body);
+}
 
-  // Fetch the access token from the cookie
-  getToken: function fromCookie(req) {
-    if (req.cookies?.dmspt) {
-      return req.cookies?.dmspt?.toString();
+// ----------------- Set the headers used for conditional requests  -----------------
+// Caches must always revalidate so that the permission check is done for every request
+function setCacheHeaders(
+  res: Response,
+  modified: string,
+  format: string,
+  options: OptionsInterface,
+  redaction: RedactionLevel
+): void {
+  res.setHeader("ETag", narrativeETag(modified, format, options, redaction));
+  const lastModified = new Date(modified);
+  if (!isNaN(lastModified.getTime())) {
+    res.setHeader("Last-Modified", lastModified.toUTCString());
+  }
+  res.setHeader("Cache-Control", "no-cache");
+}
+
+// ----------------- Render a narrative (PDF and DOCX renders wait in the render queue)  -----------------
+async function queueRender(
+  logger: Logger,
+  format: string,
+  options: OptionsInterface,
+  data: DMPToolDMPType["dmp"],
+  token: JWTAccessToken | undefined
+): Promise<NarrativeDocument | undefined> {
+  if (format !== PDF_TYPE && format !== DOCX_TYPE) {
+    return renderNarrative(logger, format, options, data);
+  }
+  return renderQueue.run(token?.id, () => renderNarrative(logger, format, options, data));
+}
+
+// ----------------- Respond when the render queue is full  -----------------
+function sendBusy(res: Response, err: RenderQueueFullError): void {
+  res.setHeader("Retry-After", String(err.retryAfterSeconds));
+  sendError(res, err.status, err.message);
+}
+
+// ----------------- Describe a render job  -----------------
+function jobResponse(job: RenderJob): Record<string, unknown> {
+  const self = `/dmps/${job.dmpId}/narrative/jobs/${job.id}`;
+  return {
+    jobId: job.id,
+    dmpId: job.dmpId,
+    format: job.format,
+    status: job.status,
+    created: job.created,
+    updated: job.updated,
+    error: job.error,
+    links: job.status === "done" ? { self, download: `${self}/download` } : { self },
+  };
+}
+
+// ----------------- Find a render job that the caller is allowed to see  -----------------
+// Jobs can only be seen by the user who created them (anonymous jobs are for public DMPs
+// and are only identified by their random id)
+async function findJob(
+  logger: Logger,
+  jobId: string,
+  dmpId: string,
+  token: JWTAccessToken | undefined
+): Promise<RenderJob | undefined> {
+  const job = await renderJobs.get(logger, jobId);
+  if (!job || job.dmpId !== dmpId || (job.userId !== undefined && job.userId !== token?.id)) {
+    return undefined;
+  }
+  return job;
+}
+
+// ----------------- Respond when the requested format is not supported  -----------------
+function sendNotAcceptable(res: Response): void {
+  res.status(406).json({
+    message: "Not Acceptable: Supported formats are HTML, PDF, DOCX, CSV, TXT, JSON",
+    supportedTypes: SUPPORTED_TYPES,
+    requestId: getRequestId(res),
+  });
+}
+
+// ----------------- Respond when the rendering options are invalid  -----------------
+function sendInvalidOptions(res: Response, errors: QueryParamError[]): void {
+  res.status(400).json({ message: "Invalid query parameters", errors, requestId: getRequestId(res) });
+}
+
+// ----------------- Load the maDMP for a narrative and verify access  -----------------
+interface NarrativeDMPResult {
+  // The HTTP status (and message) that should be returned if the maDMP is not available
+  status: number,
+  message?: string,
+  // With the parts the caller is not allowed to see removed (`loadNarrativeMaDMP` leaves it as is)
+  maDMP?: DMPToolDMPType,
+  redaction?: RedactionLevel,
+}
+
+// Loads (and regenerates if needed) the current maDMP without checking the caller's access
+async function loadNarrativeMaDMP(
+  requestLogger: Logger,
+  dmpId: string,
+  fullDMPId: string,
+  token: JWTAccessToken | undefined
+): Promise<NarrativeDMPResult> {
+  const { env, domainName, applicationName, readOnly } = loadEnvConfig();
+
+  // Fetch the Plan from RDS and the latest maDMP record from the DynamoDB table
+  const [plan, loadedMaDMP]: [PlanInterface, DMPToolDMPType] = await Promise.all([
+    timeStage("loadPlan", () => loadPlan(requestLogger, fullDMPId, env)),
+    timeStage("loadMaDMPFromDynamo", () => loadMaDMPFromDynamo(requestLogger, domainName, fullDMPId, null)),
+  ]);
+  if (!plan) {
+    requestLogger.warn({ dmpId, jti: token?.jti }, "No Plan found");
+    // We return 404 here so that we're not signaling which DMP ids are valid
+    return { status: 404, message: "Plan not found" };
+  }
+  let maDMP = loadedMaDMP;
+  requestLogger.debug(
+    { dmpId, planId: plan.id, maDMPModified: maDMP?.dmp?.modified, jti: token?.jti },
+    'Retrieved Plan data from RDS and maDMP metadata from DynamoDB'
+  );
+
+  // Determine if the maDMP was missing or is out of date or missing the narrative.
+  // If so, generate the current maDMP and update the DynamoDB record (unless in read-only mode).
+  const rdsDate: string = convertMySQLDateTimeToRFC3339(plan?.modified);
+  if (!maDMP || rdsDate !== maDMP?.dmp?.modified || !maDMP?.dmp?.narrative) {
+    let reason: RegenerationReason = "missing";
+    if (maDMP?.dmp) {
+      reason = rdsDate !== maDMP.dmp.modified ? "outdated" : "missingNarrative";
+    }
+    recordRegeneration(reason);
+    setSpanAttributes({ "narrative.regenerated": true, "narrative.regeneration_reason": reason });
+    maDMP = await timeStage("handleMissingMaDMP", () => handleMissingMaDMP(
+      requestLogger,
+      env,
+      applicationName,
+      domainName,
+      plan,
+      rdsDate !== maDMP?.dmp?.modified,
+      !readOnly
+    ));
+    // Any narratives rendered from the previous maDMP record are now out of date. In read-only mode
+    // the saved record is unchanged, so the narratives rendered from the generated record are kept.
+    if (!readOnly) {
+      await invalidateNarrativeCache(requestLogger, narrativeCache, fullDMPId);
     }
+  }
+
+  // If the maDMP record could not be generated or retrieved, we need to bail out
+  if (!maDMP || !maDMP.dmp) {
+    requestLogger.warn({ dmpId, jti: token?.jti }, "Unable to generate narrative for DMP");
+    return { status: 500, message: "Unable to generate a narrative at this time" };
+  }
+  return { status: 200, maDMP };
+}
+
+// Historical versions are immutable, so they are never compared to RDS or regenerated. They are only
+// loaded once access has been verified against the stored current maDMP record (the `null` version),
+// and a missing version gets the same 404 as a denial so that the versions of a private DMP cannot be probed.
+async function loadMaDMPVersion(
+  requestLogger: Logger,
+  dmpId: string,
+  fullDMPId: string,
+  version: string | null,
+  token: JWTAccessToken | undefined
+): Promise<NarrativeDMPResult> {
+  const { domainName } = loadEnvConfig();
+  const maDMP: DMPToolDMPType = await timeStage(
+    "loadMaDMPFromDynamo",
+    () => loadMaDMPFromDynamo(requestLogger, domainName, fullDMPId, version)
+  );
+  if (!maDMP || !maDMP.dmp) {
+    requestLogger.warn({ dmpId, version, jti: token?.jti }, "No maDMP found for the requested version");
+    return { status: 404, message: "DMP not found" };
+  }
+  return { status: 200, maDMP };
+}
 
-    const headerCookie = req.headers.cookie;
-    if (headerCookie) {
-      const parts = headerCookie.split('=');
-      return parts[0] === 'dmspt' ? parts[1] : undefined;
+async function loadDMPForNarrative(
+  requestLogger: Logger,
+  dmpId: string,
+  fullDMPId: string,
+  version: string | null,
+  token: JWTAccessToken | undefined,
+  format: string
+): Promise<NarrativeDMPResult> {
+  const { env } = loadEnvConfig();
+  // A request for a historical version only needs the stored current record for the access check, so
+  // the current record is not compared to RDS (or regenerated and saved) in that case
+  const result = version
+    ? await loadMaDMPVersion(requestLogger, dmpId, fullDMPId, null, token)
+    : await loadNarrativeMaDMP(requestLogger, dmpId, fullDMPId, token);
+  const current = result.maDMP;
+  if (!current) return result;
+
+  // Determine if the caller has permission to view the DMP's narrative in the requested format. Access
+  // to every version is determined by the current version (e.g. in case the DMP is no longer public).
+  const access = await timeStage(
+    "checkPermission",
+    () => checkNarrativeAccess(requestLogger, current, fullDMPId, token, env, format)
+  );
+  if (!access.allowed) {
+    recordPermissionDenial();
+    if (access.formatNotAllowed) {
+      requestLogger.warn({ dmpId, jti: token?.jti, format }, "User does not have permission to download the format");
+      return { status: 403, message: "The narrative is not available in the requested format" };
     }
-  },
-});
+    requestLogger.warn({ dmpId, jti: token?.jti }, "User does not have permission to download narrative");
+    // We return 404 here so that we're not signaling which DMP ids are valid
+    return { status: 404, message: "DMP not found" };
+  }
+
+  const { maDMP, status, message } = version
+    ? await loadMaDMPVersion(requestLogger, dmpId, fullDMPId, version, token)
+    : result;
+  if (!maDMP) return { status, message };
 
-// ----------------- Process the incoming Accept types  -----------------
-function processAccept(accept: string): string[] {
-  // The accept header may contain a lot of info and several types
-  //   e.g. text/html,application/xhtml+xml,application/xml;q=0.9,*/*;v=b3;q=0.7
-  const rawTypes = accept ? accept.split(";")[0] : "";
-  return rawTypes.split(",");
+  return {
+    status: 200,
+    maDMP: { ...maDMP, dmp: redactMaDMP(maDMP.dmp, access.redaction) },
+    redaction: access.redaction,
+  };
+}
+
+// ----------------- Load the maDMP for a narrative requested with a share link  -----------------
+// The signed link takes the place of the caller's own access (see `/narrative/share`), as long as the
+// user who created it can still access the DMP. Every use of the link is written to the audit log,
+// whether or not it is accepted.
+const SHARE_LINK_REJECTIONS: Record<string, string> = {
+  expired: "The share link has expired",
+  revoked: "The share link has been revoked",
+  creatorLostAccess: "The share link is no longer valid because its creator no longer has access to the DMP",
+};
+
+async function loadSharedDMPForNarrative(
+  requestLogger: Logger,
+  req: Request,
+  dmpId: string,
+  fullDMPId: string,
+  version: string | null,
+  format: string,
+  shareToken: string
+): Promise<NarrativeDMPResult> {
+  const { env } = loadEnvConfig();
+  const details = { format, version, ip: req.ip, userAgent: req.headers["user-agent"] };
+  const { link, error } = verifyShareLink(shareToken, getShareLinkSecret());
+  const reject = (reason: string): NarrativeDMPResult => {
+    recordPermissionDenial();
+    auditShareLink(requestLogger, "rejected", link, { ...details, reason });
+    return { status: 403, message: SHARE_LINK_REJECTIONS[reason] ?? "The share link is not valid for this narrative" };
+  };
+
+  let reason: string | undefined = error;
+  let creator: ShareLinkCreator | undefined;
+  if (!reason) {
+    if (link.dmpId !== fullDMPId) {
+      reason = "wrongDMP";
+    } else if (!link.formats.some((ext) => EXTENSION_TYPES[ext] === format)) {
+      reason = "formatNotShared";
+    } else if (version !== link.version) {
+      reason = "versionNotShared";
+    } else {
+      // Links that were never recorded (or have been removed) can't be revoked, so they are not accepted
+      const record = await timeStage("checkPermission", () => loadShareLink(requestLogger, link.id));
+      if (!record) {
+        reason = "notRecorded";
+      } else if (record.revoked) {
+        reason = "revoked";
+      } else if (!record.creator) {
+        // The creator's access can't be checked
+        reason = "creatorUnknown";
+      } else {
+        creator = record.creator;
+      }
+    }
+  }
+  if (reason) return reject(reason);
+
+  // The creator's access is checked against the current version (the same as a request for a historical
+  // version), so a historical version does not need the current record to be compared to RDS
+  const current = link.version
+    ? await loadMaDMPVersion(requestLogger, dmpId, fullDMPId, null, undefined)
+    : await loadNarrativeMaDMP(requestLogger, dmpId, fullDMPId, undefined);
+  if (!current.maDMP) {
+    auditShareLink(requestLogger, "rejected", link, { ...details, reason: "unavailable", status: current.status });
+    return current;
+  }
+
+  const access = await timeStage(
+    "checkPermission",
+    () => checkNarrativeAccess(requestLogger, current.maDMP, fullDMPId, creator as JWTAccessToken, env, format)
+  );
+  if (!access.allowed) return reject("creatorLostAccess");
+
+  const result = link.version
+    ? await loadMaDMPVersion(requestLogger, dmpId, fullDMPId, link.version, undefined)
+    : current;
+  if (!result.maDMP) {
+    auditShareLink(requestLogger, "rejected", link, { ...details, reason: "unavailable", status: result.status });
+    return result;
+  }
+
+  // The holder never sees more than the creator can see now (their access may have been reduced)
+  const redaction = REDACTION_LEVELS.indexOf(access.redaction) > REDACTION_LEVELS.indexOf(link.redaction)
+    ? access.redaction
+    : link.redaction;
+  auditShareLink(requestLogger, "used", link, { ...details, redaction });
+  return {
+    status: 200,
+    maDMP: { ...result.maDMP, dmp: redactMaDMP(result.maDMP.dmp, redaction) },
+    redaction,
+  };
 }
 
 // ----------------- Verify required env variables ----------
 const requiredEnvVars = [
   "APPLICATION_NAME",
-  "DYNAMODB_TABLE_NAME",
   "EZID_BASE_URL",
-  "JWT_SECRET",
-  "RDS_HOST"
+  "JWT_SECRET"
 ];
+// The `local` data source reads everything from the fixtures directory instead (see `createDataSource`)
+if ((process.env.DATA_SOURCE || "aws").toLowerCase() !== "local") {
+  requiredEnvVars.push(
+    "DYNAMODB_TABLE_NAME",
+    "DYNAMODB_SHARE_LINK_TABLE_NAME",
+    "DYNAMODB_LOCK_TABLE_NAME",
+    "DYNAMODB_JOB_TABLE_NAME",
+    "ARTIFACT_STORE_BUCKET",
+    "RDS_HOST"
+  );
+}
 requiredEnvVars.forEach(envVar => {
   if (!process.env[envVar]) {
     throw new Error(`Missing required environment variable: ${envVar}`);
   }
 })
+// Throws if the NARRATIVE_ACCESS_POLICY is invalid
+getAccessPolicy();
 
 // ----------------- Initialize the server  -----------------
 const app = express();
+// The narrative routes set their own ETags (see `setCacheHeaders`). Express's automatic ETags are
+// turned off so that error responses (e.g. a permission denial) never include one
+app.set("etag", false);
+app.use(assignRequestId);
+app.use(serverDrain.track);
+app.use(trackRequestMetrics);
 app.use(express.json({ limit: "5mb" }));
 app.use(cookieParser());
+// Added after the body parser so that the span is still active in the route handlers
+app.use(traceRequest);
+
+// ----------------- List the available versions of a DMP narrative  -----------------
+// Matches patterns like:
+//   /dmps/11.11111/A1B2C3/narrative/versions
+app.get("/dmps/{*splat}/narrative/versions", auth, async (req: Request, res: Response) => {
+  const { logLevel, env, domainName, ezidBaseURL } = loadEnvConfig();
+  // Get the JWT if there is one
+  const token = req.auth as JWTAccessToken
+
+  // Verify that a DMP Id was specified in the path
+  if (!req.params || !req.params.splat) {
+    sendError(res, 400, "Invalid request");
+    return;
+  }
+
+  const { dmpId, fullDMPId } = dmpIdFromPath(req.params.splat, ezidBaseURL);
+  const requestLogger: Logger = initializeRequestLogger(res, logLevel);
+  requestLogger.debug({ jti: token?.jti, userId: token?.id, dmpId, fullDMPId }, 'Received request for DMP versions');
+  setSpanAttributes({ "dmp.id": dmpId });
+
+  try {
+    const [plan, versions]: [PlanInterface, DMPToolDMPType[]] = await Promise.all([
+      timeStage("loadPlan", () => loadPlan(requestLogger, fullDMPId, env)),
+      loadMaDMPVersionsFromDynamo(requestLogger, domainName, fullDMPId),
+    ]);
+    if (!plan) {
+      requestLogger.warn({ dmpId, jti: token?.jti }, "No Plan found");
+      // We return 404 here so that we're not signaling which DMP ids are valid
+      sendError(res, 404, "Plan not found");
+      return;
+    }
+
+    // Access to every version is determined by the current (latest) version of the DMP
+    const hasPermission = versions.length > 0 && (await timeStage(
+      "checkPermission",
+      () => checkNarrativeAccess(requestLogger, versions[0], fullDMPId, token, env)
+    )).allowed;
+    if (!hasPermission) {
+      if (versions.length > 0) recordPermissionDenial();
+      requestLogger.warn({ dmpId, jti: token?.jti }, "User does not have permission to view DMP versions");
+      // We return 404 here so that we're not signaling which DMP ids are valid
+      sendError(res, 404, "DMP not found");
+      return;
+    }
+
+    res.json({
+      dmpId,
+      versions: versions.map((maDMP) => {
+        const version = maDMP.dmp.modified;
+        const links: Record<string, string> = {};
+        for (const ext of Object.keys(EXTENSION_TYPES)) {
+          links[ext] = `/dmps/${dmpId}/narrative.${ext}?version=${encodeURIComponent(version)}`;
+        }
+        return { modified: version, registered: !!maDMP.dmp.registered, title: maDMP.dmp.title, links };
+      }),
+    });
+  } catch (e) {
+    requestLogger.fatal({ dmpId, jti: token?.jti, err: e }, e.message);
+    sendError(res, 500, "Unable to retrieve the DMP versions");
+  }
+});
+
+// ----------------- Regenerate and save the maDMP record for a DMP  -----------------
+// The only way to save a regenerated maDMP record in read-only mode (see `NARRATIVE_READ_ONLY`).
+// Nothing is saved if the maDMP record is already up to date with the Plan.
+// Matches patterns like:
+//   /dmps/11.11111/A1B2C3/narrative/refresh
+app.post("/dmps/{*splat}/narrative/refresh", auth, async (req: Request, res: Response) => {
+  const { logLevel, env, domainName, applicationName, ezidBaseURL } = loadEnvConfig();
+  const token = req.auth as JWTAccessToken
+
+  if (!req.params || !req.params.splat) {
+    sendError(res, 400, "Invalid request");
+    return;
+  }
+
+  const { dmpId, fullDMPId } = dmpIdFromPath(req.params.splat, ezidBaseURL);
+  const requestLogger: Logger = initializeRequestLogger(res, logLevel);
+  requestLogger.debug({ jti: token?.jti, userId: token?.id, dmpId, fullDMPId }, 'Received request to refresh the maDMP');
+  setSpanAttributes({ "dmp.id": dmpId });
+
+  // Anonymous callers cannot save anything (even for public DMPs)
+  if (!token) {
+    sendError(res, 401, "Authentication required");
+    return;
+  }
+
+  try {
+    const [plan, current]: [PlanInterface, DMPToolDMPType] = await Promise.all([
+      timeStage("loadPlan", () => loadPlan(requestLogger, fullDMPId, env)),
+      timeStage("loadMaDMPFromDynamo", () => loadMaDMPFromDynamo(requestLogger, domainName, fullDMPId)),
+    ]);
+    if (!plan) {
+      requestLogger.warn({ dmpId, jti: token?.jti }, "No Plan found");
+      // We return 404 here so that we're not signaling which DMP ids are valid
+      sendError(res, 404, "Plan not found");
+      return;
+    }
+
+    // Nothing needs to be saved if the maDMP record is already up to date with the Plan
+    const rdsDate: string = convertMySQLDateTimeToRFC3339(plan.modified);
+    const isCurrent = !!current?.dmp?.narrative && current.dmp.modified === rdsDate;
+
+    // Otherwise the record is generated without saving it so that access can be verified first
+    let maDMP: DMPToolDMPType = current;
+    if (!isCurrent) {
+      recordRegeneration("refresh");
+      setSpanAttributes({ "narrative.regenerated": true, "narrative.regeneration_reason": "refresh" });
+      maDMP = await timeStage("handleMissingMaDMP", () => handleMissingMaDMP(
+        requestLogger,
+        env,
+        applicationName,
+        domainName,
+        plan,
+        !!current?.dmp,
+        false
+      ));
+    }
+    if (!maDMP || !maDMP.dmp) {
+      requestLogger.warn({ dmpId, jti: token?.jti }, "Unable to generate the maDMP for DMP");
+      sendError(res, 500, "Unable to refresh the DMP at this time");
+      return;
+    }
+
+    const access = await timeStage(
+      "checkPermission",
+      () => checkNarrativeAccess(requestLogger, maDMP, fullDMPId, token, env)
+    );
+    if (!access.allowed) {
+      recordPermissionDenial();
+      requestLogger.warn({ dmpId, jti: token?.jti }, "User does not have permission to refresh the DMP");
+      // We return 404 here so that we're not signaling which DMP ids are valid
+      sendError(res, 404, "DMP not found");
+      return;
+    }
+
+    if (isCurrent) {
+      requestLogger.info(
+        { dmpId, jti: token?.jti, userId: token?.id, modified: maDMP.dmp.modified },
+        "The maDMP is already up to date"
+      );
+      res.json({ dmpId, modified: maDMP.dmp.modified });
+      return;
+    }
+
+    // Saved the same way as the narrative routes save it, so only one task writes it (and not at all
+    // if another task has just saved it)
+    const saved = await saveRegeneratedMaDMP(requestLogger, domainName, plan, maDMP, !!current?.dmp);
+    // Any narratives rendered from the previous maDMP record are now out of date
+    await invalidateNarrativeCache(requestLogger, narrativeCache, fullDMPId);
+    requestLogger.info({ dmpId, jti: token?.jti, userId: token?.id, modified: saved.dmp.modified }, "Refreshed the maDMP");
+    res.json({ dmpId, modified: saved.dmp.modified });
+  } catch (e) {
+    requestLogger.fatal({ dmpId, jti: token?.jti, err: e }, e.message);
+    sendError(res, 500, "Unable to refresh the DMP at this time");
+  }
+});
+
+// ----------------- Create a signed link to a DMP narrative  -----------------
+// Lets the caller share a private DMP with someone who has no account (e.g. a grants officer).
+// Expects a JSON body like `{ "formats": ["pdf"], "version": "2024-01-01T00:00:00Z", "expiresInSeconds": 86400 }`
+// (only `formats` is required). The link can only be used for the formats the caller can download
+// and hides whatever the caller cannot see (see `NARRATIVE_ACCESS_POLICY`).
+// Matches patterns like:
+//   /dmps/11.11111/A1B2C3/narrative/share
+app.post("/dmps/{*splat}/narrative/share", auth, async (req: Request, res: Response) => {
+  const { logLevel, env, ezidBaseURL, shareLinkTTL, shareLinkMaxTTL } = loadEnvConfig();
+  const token = req.auth as JWTAccessToken
+
+  if (!req.params || !req.params.splat) {
+    sendError(res, 400, "Invalid request");
+    return;
+  }
+
+  const { dmpId, fullDMPId } = dmpIdFromPath(req.params.splat, ezidBaseURL);
+  const requestLogger: Logger = initializeRequestLogger(res, logLevel);
+  requestLogger.debug({ jti: token?.jti, userId: token?.id, dmpId, fullDMPId }, 'Received request to share the narrative');
+  setSpanAttributes({ "dmp.id": dmpId });
+
+  // Every link is tied to the user who created it (so that they can revoke it)
+  if (!token) {
+    sendError(res, 401, "Authentication required");
+    return;
+  }
+
+  const formats: unknown = req.body?.formats;
+  if (!Array.isArray(formats) || formats.length === 0 || formats.some((ext) => !EXTENSION_TYPES[String(ext).toLowerCase()])) {
+    sendError(res, 400, `Invalid request: formats must be a list of ${Object.keys(EXTENSION_TYPES).join(", ")}`);
+    return;
+  }
+  const exts = [...new Set(formats.map((ext) => String(ext).toLowerCase()))];
+  const expiresIn = req.body?.expiresInSeconds ?? shareLinkTTL;
+  if (!Number.isInteger(expiresIn) || expiresIn <= 0 || expiresIn > shareLinkMaxTTL) {
+    sendError(res, 400, `Invalid request: expiresInSeconds must be between 1 and ${shareLinkMaxTTL}`);
+    return;
+  }
+  const { options, errors: optionErrors } = parseOptions({ version: req.body?.version });
+  if (optionErrors.length > 0) {
+    sendInvalidOptions(res, optionErrors);
+    return;
+  }
+
+  try {
+    // Access is determined by the current version of the DMP (see `loadDMPForNarrative`)
+    const { maDMP, status, message } = await loadNarrativeMaDMP(requestLogger, dmpId, fullDMPId, token);
+    if (!maDMP) {
+      sendError(res, status, message);
+      return;
+    }
+
+    // The caller must be able to download every format. The link hides the most that is hidden
+    // from the caller in any of them.
+    let redaction: RedactionLevel = "none";
+    for (const ext of exts) {
+      const access = await timeStage(
+        "checkPermission",
+        () => checkNarrativeAccess(requestLogger, maDMP, fullDMPId, token, env, EXTENSION_TYPES[ext])
+      );
+      if (!access.allowed) {
+        recordPermissionDenial();
+        requestLogger.warn({ dmpId, jti: token?.jti, format: ext }, "User does not have permission to share the narrative");
+        if (access.formatNotAllowed) {
+          sendError(res, 403, `The narrative is not available as ${ext}`);
+        } else {
+          // We return 404 here so that we're not signaling which DMP ids are valid
+          sendError(res, 404, "DMP not found");
+        }
+        return;
+      }
+      if (REDACTION_LEVELS.indexOf(access.redaction) > REDACTION_LEVELS.indexOf(redaction)) {
+        redaction = access.redaction;
+      }
+    }
+
+    if (options.version) {
+      const shared = await loadMaDMPVersion(requestLogger, dmpId, fullDMPId, options.version, token);
+      if (!shared.maDMP) {
+        sendError(res, shared.status, shared.message);
+        return;
+      }
+    }
+
+    const link: ShareLink = {
+      id: randomUUID(),
+      dmpId: fullDMPId,
+      formats: exts,
+      version: options.version,
+      redaction,
+      expires: Math.floor(Date.now() / 1000) + expiresIn,
+      createdBy: token.id,
+    };
+    const creator = { id: token.id, email: token.email, role: token.role, affiliationId: token.affiliationId };
+    await saveShareLink(requestLogger, link, creator);
+    auditShareLink(requestLogger, "created", link, { userId: token.id, jti: token.jti, ip: req.ip });
+
+    const query = `${link.version ? `version=${encodeURIComponent(link.version)}&` : ""}`
+      + `${SHARE_LINK_PARAM}=${signShareLink(link, getShareLinkSecret())}`;
+    const links: Record<string, string> = {};
+    for (const ext of exts) {
+      links[ext] = `/dmps/${dmpId}/narrative.${ext}?${query}`;
+    }
+    res.status(201).json({
+      linkId: link.id,
+      dmpId,
+      formats: exts,
+      version: link.version,
+      redaction,
+      expires: new Date(link.expires * 1000).toISOString(),
+      links,
+    });
+  } catch (e) {
+    requestLogger.fatal({ dmpId, jti: token?.jti, err: e }, e.message);
+    sendError(res, 500, "Unable to share the narrative at this time");
+  }
+});
+
+// ----------------- Revoke a share link  -----------------
+// Only the user who created the link (or a super admin) can revoke it.
+// Matches patterns like:
+//   /dmps/11.11111/A1B2C3/narrative/share/0b6a7c9e-7f4c-4c1e-9d55-6f2f3b6b8a10
+app.delete("/dmps/{*splat}/narrative/share/:linkId", auth, async (req: Request, res: Response) => {
+  const { logLevel, ezidBaseURL } = loadEnvConfig();
+  const token = req.auth as JWTAccessToken
+  const { dmpId, fullDMPId } = dmpIdFromPath(req.params.splat, ezidBaseURL);
+  const requestLogger: Logger = initializeRequestLogger(res, logLevel);
+
+  if (!token) {
+    sendError(res, 401, "Authentication required");
+    return;
+  }
+
+  try {
+    const link = await loadShareLink(requestLogger, String(req.params.linkId));
+    if (!link || link.dmpId !== fullDMPId || (link.createdBy !== token.id && token.role?.toUpperCase() !== "SUPERADMIN")) {
+      sendError(res, 404, "Share link not found");
+      return;
+    }
+
+    await revokeShareLink(requestLogger, link.id);
+    auditShareLink(requestLogger, "revoked", link, { userId: token.id, jti: token.jti, ip: req.ip });
+    res.status(204).end();
+  } catch (e) {
+    requestLogger.fatal({ dmpId, jti: token?.jti, err: e }, e.message);
+    sendError(res, 500, "Unable to revoke the share link at this time");
+  }
+});
+
+// ----------------- Start rendering a DMP narrative in the background  -----------------
+// For narratives that take longer to render than the load balancer allows. Expects an
+// optional JSON body like `{ "format": "pdf" }` and the same query params as the narrative.
+// Matches patterns like:
+//   /dmps/11.11111/A1B2C3/narrative/jobs
+app.post("/dmps/{*splat}/narrative/jobs", auth, async (req: Request, res: Response) => {
+  const { logLevel, ezidBaseURL } = loadEnvConfig();
+  const token = req.auth as JWTAccessToken
+  const ext = (req.body?.format ?? "pdf").toString().toLowerCase();
+  const format = EXTENSION_TYPES[ext];
+  const { options, errors: optionErrors } = parseOptions(req.query);
+
+  if (!req.params || !req.params.splat) {
+    sendError(res, 400, "Invalid request");
+    return;
+  }
+  if (!format) {
+    sendError(res, 400, `Invalid request: format must be one of ${Object.keys(EXTENSION_TYPES).join(", ")}`);
+    return;
+  }
+  if (optionErrors.length > 0) {
+    sendInvalidOptions(res, optionErrors);
+    return;
+  }
+
+  const { dmpId, fullDMPId } = dmpIdFromPath(req.params.splat, ezidBaseURL);
+  const requestLogger: Logger = initializeRequestLogger(res, logLevel);
+  requestLogger.debug({ jti: token?.jti, userId: token?.id, dmpId, format }, 'Received request for a render job');
+  setSpanAttributes({ "dmp.id": dmpId, "narrative.format": format });
+
+  try {
+    // Access is verified up front so that callers find out right away if they cannot download the narrative
+    const { maDMP, redaction, status, message } = await loadDMPForNarrative(
+      requestLogger,
+      dmpId,
+      fullDMPId,
+      options.version,
+      token,
+      format
+    );
+    if (!maDMP) {
+      sendError(res, status, message);
+      return;
+    }
+
+    // PDF and DOCX jobs wait in the same render queue as the other requests (see `createJobManager`)
+    const job = await renderJobs.submit(requestLogger, token?.id, dmpId, ext, () => renderWithCache(
+      requestLogger,
+      narrativeCache,
+      narrativeCacheKey(fullDMPId, maDMP.dmp.modified, format, options, redaction),
+      () => queueRender(requestLogger, format, options, maDMP.dmp, token)
+    ));
+    requestLogger.debug({ jti: token?.jti, dmpId, jobId: job.id }, "Created render job");
+
+    const body = jobResponse(job);
+    res.status(202)
+      .location((body.links as { self: string }).self)
+      .json(body);
+  } catch (e) {
+    if (e instanceof RenderQueueFullError) {
+      requestLogger.warn({ dmpId, jti: token?.jti, userId: token?.id, status: e.status }, e.message);
+      sendBusy(res, e);
+      return;
+    }
+    requestLogger.fatal({ dmpId, jti: token?.jti, err: e }, e.message);
+    sendError(res, 500, "Unable to create the render job");
+  }
+});
+
+// ----------------- Check the status of a render job  -----------------
+// Matches patterns like:
+//   /dmps/11.11111/A1B2C3/narrative/jobs/0b6a7c9e-7f4c-4c1e-9d55-6f2f3b6b8a10
+app.get("/dmps/{*splat}/narrative/jobs/:jobId", auth, async (req: Request, res: Response) => {
+  const { logLevel, ezidBaseURL } = loadEnvConfig();
+  const { dmpId } = dmpIdFromPath(req.params.splat, ezidBaseURL);
+  const token = req.auth as JWTAccessToken
+  const requestLogger: Logger = initializeRequestLogger(res, logLevel);
+
+  try {
+    const job = await findJob(requestLogger, String(req.params.jobId), dmpId, token);
+    if (!job) {
+      sendError(res, 404, "Job not found");
+      return;
+    }
+    res.json(jobResponse(job));
+  } catch (e) {
+    requestLogger.error({ dmpId, jobId: req.params.jobId, jti: token?.jti, err: e }, e.message);
+    sendError(res, 500, "Unable to retrieve the job");
+  }
+});
+
+// ----------------- Download the narrative produced by a render job  -----------------
+// Matches patterns like:
+//   /dmps/11.11111/A1B2C3/narrative/jobs/0b6a7c9e-7f4c-4c1e-9d55-6f2f3b6b8a10/download
+app.get("/dmps/{*splat}/narrative/jobs/:jobId/download", auth, async (req: Request, res: Response) => {
+  const { logLevel, ezidBaseURL } = loadEnvConfig();
+  const { dmpId } = dmpIdFromPath(req.params.splat, ezidBaseURL);
+  const token = req.auth as JWTAccessToken
+  const requestLogger: Logger = initializeRequestLogger(res, logLevel);
+
+  try {
+    const job = await findJob(requestLogger, String(req.params.jobId), dmpId, token);
+    if (!job) {
+      sendError(res, 404, "Job not found");
+      return;
+    }
+    if (job.status !== "done") {
+      sendError(res, 409, `The job is ${job.status}`);
+      return;
+    }
+
+    const doc = await renderJobs.download(requestLogger, job.id);
+    if (!doc) {
+      sendError(res, 404, "Job not found");
+      return;
+    }
+    sendNarrative(res, doc);
+  } catch (e) {
+    requestLogger.error({ dmpId, jobId: req.params.jobId, jti: token?.jti, err: e }, e.message);
+    sendError(res, 500, "Unable to download the narrative");
+  }
+});
 
 // ----------------- Main entrypoint to fetch a DMP narrative  -----------------
 // Matches patterns like:
@@ -151,47 +989,32 @@ app.use(cookieParser());
 //   /dmps/doi.org/11.12345/JHHG5646jhvh/narrative
 app.get("/dmps/{*splat}/narrative{.:ext}", auth, async (req: Request, res: Response) => {
   // Process the environment variables
-  const logLevel: LogLevelEnum = process.env.LOG_LEVEL ? LogLevelEnum[process.env.LOG_LEVEL.toUpperCase()] : LogLevelEnum.INFO;
-  const env: EnvironmentEnum = process.env.ENV ? EnvironmentEnum[process.env.ENV?.toUpperCase()] : EnvironmentEnum.DEV;
-  const domainName = process.env.DOMAIN_NAME || "localhost:3000";
-  const applicationName = process.env.APPLICATION_NAME;
-  const ezidBaseURL = process.env.EZID_BASE_URL || 'https://doi.org/';
-
+  const { logLevel, ezidBaseURL } = loadEnvConfig();
 
   // Get the format the user wants the narrative document in from either
   // the specified file extension OR the Accept header
-  let accept: string;
-
-  if (req.params.ext && req.params.ext.length > 0) {
-    switch (req.params.ext[0].toLowerCase()) {
-      case "csv": accept = CSV_TYPE; break;
-      case "docx": accept = DOCX_TYPE; break;
-      case "json": accept = JSON_TYPE; break;
-      case "pdf": accept = PDF_TYPE; break;
-      case "txt": accept = TXT_TYPE; break;
-      default: accept = HTML_TYPE;
-    }
-  } else {
-    accept = req.headers["accept"] || HTML_TYPE;
-  }
+  const accept = req.headers["accept"];
+  const format = selectFormat(req.params.ext?.toString(), accept);
+  // The response depends on the Accept header unless a file extension was specified
+  if (!req.params.ext) res.vary("Accept");
 
   // Get the query params or use defaults
-  const { version, display, margin, font } = prepareOptions(req.query);
+  const { options, errors: optionErrors } = parseOptions(req.query);
+  const { version, display, margin, font } = options;
   // Get the JWT if there is one
   const token = req.auth as JWTAccessToken
 
   // Verify that a DMP Id was specified in the path
   if (!req.params || !req.params.splat) {
-    res.status(400).send("Invalid request");
+    sendError(res, 400, "Invalid request");
     return;
   }
 
   // Get the DMP id from the path
-  const dmpId = req.params.splat.toString().replace(",", "/");
-  const fullDMPId = ezidBaseURL.endsWith('/') ? `${ezidBaseURL}${dmpId}` : `${ezidBaseURL}/${dmpId}`;
+  const { dmpId, fullDMPId } = dmpIdFromPath(req.params.splat, ezidBaseURL);
 
   // Initialize the logger
-  const requestLogger: Logger = initializeLogger('narrative-generator', logLevel);
+  const requestLogger: Logger = initializeRequestLogger(res, logLevel);
 
   requestLogger.debug(
     {
@@ -200,7 +1023,7 @@ app.get("/dmps/{*splat}/narrative{.:ext}", auth, async (req: Request, res: Respo
       dmpId,
       fullDMPId,
       version,
-      format: accept,
+      format: format ?? accept,
       display,
       margin,
       font,
@@ -208,159 +1031,329 @@ app.get("/dmps/{*splat}/narrative{.:ext}", auth, async (req: Request, res: Respo
     },
     'Received request for DMP narrative'
   );
+  setSpanAttributes({ "dmp.id": dmpId, "narrative.format": format });
+
+  if (!format) {
+    requestLogger.debug({ dmpId, jti: token?.jti }, `Unsupported format requested: ${accept}`);
+    // The format requested is not supported!
+    sendNotAcceptable(res);
+    return;
+  }
+
+  if (optionErrors.length > 0) {
+    requestLogger.debug({ dmpId, jti: token?.jti, errors: optionErrors }, "Invalid query parameters");
+    sendInvalidOptions(res, optionErrors);
+    return;
+  }
 
   try {
-    const plan: PlanInterface = await loadPlan(requestLogger, fullDMPId, env);
-    if (!plan) {
-      requestLogger.warn({ dmpId, jti: token?.jti }, "No Plan found");
-      // We return 404 here so that we're not signaling which DMP ids are valid
-      res.status(404).send("Plan not found");
+    // A share link is used in place of the caller's own access
+    const shareToken = req.query[SHARE_LINK_PARAM];
+    const { maDMP, redaction, status, message } = shareToken !== undefined
+      ? await loadSharedDMPForNarrative(requestLogger, req, dmpId, fullDMPId, version, format, String(shareToken))
+      : await loadDMPForNarrative(requestLogger, dmpId, fullDMPId, version, token, format);
+    if (!maDMP) {
+      sendError(res, status, message);
+      return;
+    }
+
+    // Skip the render if the caller already has the current copy (handles If-None-Match and
+    // If-Modified-Since). This happens after the permission check so access is always verified.
+    setCacheHeaders(res, maDMP.dmp.modified, format, options, redaction);
+    if (req.fresh) {
+      requestLogger.debug({ dmpId, jti: token?.jti, format }, "Narrative not modified");
+      res.status(304).end();
       return;
     }
 
-    // Fetch all Plans that the current user has access to
-    const usersPlans: UserPlanInterface[] = await loadPlansForUser(
+    // Render the narrative in the requested format (or use the cached copy)
+    const doc = await renderWithCache(
       requestLogger,
-      token,
-      env
-    );
-    requestLogger.debug(
-      { dmpId, planId: plan.id, nbrPlansForUser: usersPlans.length, jti: token?.jti },
-      'Retrieved Plan data from RDS'
+      narrativeCache,
+      narrativeCacheKey(fullDMPId, maDMP.dmp.modified, format, options, redaction),
+      () => queueRender(requestLogger, format, options, maDMP.dmp, token)
     );
+    requestLogger.debug({ dmpId, jti: token?.jti, format }, "Generated narrative");
+    sendNarrative(res, doc);
+    return;
+  } catch (e) {
+    if (e instanceof RenderQueueFullError) {
+      requestLogger.warn({ dmpId, jti: token?.jti, userId: token?.id, status: e.status }, e.message);
+      sendBusy(res, e);
+      return;
+    }
+    requestLogger.fatal({ dmpId, jti: token?.jti, err: e }, e.message);
+    sendError(res, 500, "Document generation failed");
+    return;
+  }
+});
 
-    // Fetch the latest maDMP record for the Plan from the DynamoDB table
-    let maDMP: DMPToolDMPType = await loadMaDMPFromDynamo(requestLogger, domainName, fullDMPId);
-    requestLogger.debug(
-      { dmpId, maDMPModified: maDMP?.dmp?.modified, jti: token?.jti },
-      'Retrieved maDMP metadata from DynamoDB'
-    );
+// ----------------- Render an uploaded maDMP  -----------------
+// Renders the maDMP JSON in the request body without loading anything from RDS or DynamoDB
+// Matches patterns like:
+//   /narrative
+//   /narrative.pdf
+app.post("/narrative{.:ext}", async (req: Request, res: Response) => {
+  const { logLevel } = loadEnvConfig();
 
-    // Determine if the maDMP was missing or is out of date or missing the narrative.
-    // If so, generate the current maDMP and update the DynamoDB record.
-    const rdsDate: string = convertMySQLDateTimeToRFC3339(plan?.modified);
-    if (!maDMP || rdsDate !== maDMP?.dmp?.modified || !maDMP?.dmp?.narrative) {
-      maDMP = await handleMissingMaDMP(
-        requestLogger,
-        env,
-        applicationName,
-        domainName,
-        plan,
-        rdsDate !== maDMP?.dmp?.modified
-      )
-    }
+  // Get the format the user wants the narrative document in from either
+  // the specified file extension OR the Accept header
+  const accept = req.headers["accept"];
+  const format = selectFormat(req.params.ext?.toString(), accept);
+  // The response depends on the Accept header unless a file extension was specified
+  if (!req.params.ext) res.vary("Accept");
+  // Get the query params or use defaults (versions do not apply to an uploaded maDMP)
+  const { options: queryOptions, errors: optionErrors } = parseOptions(req.query);
+  const options = { ...queryOptions, version: null };
 
-    // If the maDMP record could not be generated or retrieved, we need to bail out
-    if (!maDMP || !maDMP.dmp) {
-      requestLogger.warn({ dmpId, jti: token?.jti }, "Unable to generate narrative for DMP");
-      res.status(500).send("Unable to generate a narrative at this time");
-      return;
-    }
+  const requestLogger: Logger = initializeRequestLogger(res, logLevel);
+  requestLogger.debug({ format: format ?? accept }, 'Received request to render an uploaded maDMP');
+  setSpanAttributes({ "narrative.format": format });
 
-    // Determine if the caller has permission to view the DMP's narrative
-    const hasPermission = hasPermissionToDownloadNarrative(maDMP, usersPlans, token);
-    if (!hasPermission) {
-      requestLogger.warn({ dmpId, jti: token?.jti }, "User does not have permission to download narrative");
-      // We return 404 here so that we're not signaling which DMP ids are valid
-      res.status(404).send("DMP not found");
+  if (!format) {
+    requestLogger.debug(`Unsupported format requested: ${accept}`);
+    sendNotAcceptable(res);
+    return;
+  }
+
+  if (optionErrors.length > 0) {
+    requestLogger.debug({ errors: optionErrors }, "Invalid query parameters");
+    sendInvalidOptions(res, optionErrors);
+    return;
+  }
+
+  // Make sure the body is a valid maDMP before we try to render it
+  const errors = validateMaDMP(req.body);
+  if (errors.length > 0) {
+    requestLogger.debug({ errors }, "Uploaded maDMP is invalid");
+    res.status(400).json({ message: "Invalid maDMP", errors, requestId: getRequestId(res) });
+    return;
+  }
+
+  try {
+    const maDMP = req.body as DMPToolDMPType;
+    const doc = await queueRender(requestLogger, format, options, maDMP.dmp, undefined);
+    sendNarrative(res, doc);
+  } catch (e) {
+    if (e instanceof RenderQueueFullError) {
+      requestLogger.warn({ status: e.status }, e.message);
+      sendBusy(res, e);
       return;
     }
+    requestLogger.fatal({ err: e }, e.message);
+    sendError(res, 500, "Document generation failed");
+  }
+});
 
-    // Determine which format the user requested and render it accordingly.
-    const acceptedTypes = processAccept(accept);
-    if (acceptedTypes.includes(CSV_TYPE)) {
-      const csv = renderCSV(display, maDMP.dmp);
-      requestLogger.debug({ dmpId, jti: token?.jti }, "Generating CSV");
-      res.type("csv").send(csv);
-      return;
+// ----------------- Export the narratives for several DMPs as a ZIP archive  -----------------
+// Expects a JSON body like:
+//   { "dmpIds": ["11.11111/A1B2C3", "11.11111/D4E5F6"], "format": "pdf" }
+// The access rules for each DMP are the same as for `GET /dmps/{*splat}/narrative`
+app.post("/narrative/batch", auth, async (req: Request, res: Response) => {
+  const { logLevel, ezidBaseURL } = loadEnvConfig();
+  const token = req.auth as JWTAccessToken
+  const ids = req.body?.dmpIds;
+  const ext = (req.body?.format ?? "pdf").toString().toLowerCase();
+  const format = EXTENSION_TYPES[ext];
+  // Get the query params or use defaults (the latest version of each DMP is always used)
+  const { options: queryOptions, errors: optionErrors } = parseOptions(req.query);
+  const options = { ...queryOptions, version: null };
 
-    } else if (acceptedTypes.includes(DOCX_TYPE)) {
-      const html = renderHTML(display, margin, font, maDMP.dmp);
-      // Render the HTML first. This will be used to generate the DOCX
-      const docx = await renderDOCX(
-        requestLogger,
-        maDMP.dmp?.title || "Data management plan",
-        html,
-        margin,
-        font
-      );
-      requestLogger.debug({ dmpId, jti: token?.jti }, "Generating DOCX");
-      res.setHeader("Content-Type", DOCX_TYPE);
-      res.setHeader(
-        "Content-Disposition",
-        `attachment; filename="${(maDMP.dmp?.title || "document").replace(/\W+/g, "-")}.docx"`
-      );
-      res.send(docx);
-      return;
+  const requestLogger: Logger = initializeRequestLogger(res, logLevel);
+  requestLogger.debug({ jti: token?.jti, userId: token?.id, dmpIds: ids, format }, 'Received request for batch export');
 
-    } else if (acceptedTypes.includes(HTML_TYPE)) {
-      const html = renderHTML(display, margin, font, maDMP.dmp);
-      requestLogger.debug({ dmpId, jti: token?.jti }, "Generating HTML");
-      res.type("html").send(html);
-      return;
+  if (!Array.isArray(ids) || ids.length === 0 || ids.some((id) => typeof id !== "string" || id.trim() === "")) {
+    sendError(res, 400, "Invalid request: dmpIds must be a list of DMP ids");
+    return;
+  }
+  if (ids.length > MAX_BATCH_SIZE) {
+    sendError(res, 400, `Invalid request: a maximum of ${MAX_BATCH_SIZE} DMPs can be exported at once`);
+    return;
+  }
+  if (!format) {
+    sendError(res, 400, `Invalid request: format must be one of ${Object.keys(EXTENSION_TYPES).join(", ")}`);
+    return;
+  }
+  if (optionErrors.length > 0) {
+    sendInvalidOptions(res, optionErrors);
+    return;
+  }
+  setSpanAttributes({ "narrative.format": format, "narrative.batch_size": ids.length });
 
-    } else if (acceptedTypes.includes(JSON_TYPE)) {
-      requestLogger.debug({ dmpId, jti: token?.jti }, "Generating JSON");
-      res.type("json").send(maDMP.dmp);
-      return;
+  const results: { dmpId: string, status: "success" | "denied" | "failed", file?: string, message?: string }[] = [];
+  // The file names already in the archive (different DMP ids can map to the same name)
+  const files = new Set<string>(["manifest.json"]);
 
-    } else if (acceptedTypes.includes(PDF_TYPE)) {
-      // Render the HTML which is then used to render the PDF
-      const pdf = await renderPDF(
-        renderHTML(display, margin, font, maDMP.dmp)
-      );
-      requestLogger.debug({ dmpId, jti: token?.jti }, "Generating PDF");
-      res.setHeader("Content-Type", PDF_TYPE);
-      res.setHeader(
-        "Content-Disposition",
-        `inline; filename="${(maDMP.dmp.title || "document").replace(/\W+/g, "-")}.pdf"`
-      );
-      res.send(pdf);
+  // The ids may be sent with or without the EZID base URL (e.g. `https://doi.org/11.11111/A1B2C3`)
+  const uniqueIds = new Set(ids.map((id: string) => {
+    const trimmed = id.trim();
+    return trimmed.startsWith(ezidBaseURL) ? trimmed.slice(ezidBaseURL.length).replace(/^\//, "") : trimmed;
+  }));
+
+  // Stream the archive as each document is rendered so that we only hold one document in memory at a time
+  const zip = new ZipFile();
+  res.setHeader("Content-Type", "application/zip");
+  res.setHeader("Content-Disposition", 'attachment; filename="narratives.zip"');
+  zip.outputStream
+    .on("error", (err) => {
+      requestLogger.error({ jti: token?.jti, err }, "Unable to stream the batch export");
+      res.destroy(err);
+    })
+    .pipe(res);
+
+  // Process the DMPs one at a time so that we don't have several renders competing for memory
+  for (const id of uniqueIds) {
+    // Stop if the caller has gone away
+    if (res.destroyed) {
+      requestLogger.debug({ jti: token?.jti, results }, "Batch export cancelled by the caller");
       return;
+    }
 
-    } else if (acceptedTypes.includes(TXT_TYPE)) {
-      // Render the HTML first which is then used to render the TXT
-      const txt = await renderTXT(
-        renderHTML(display, margin, font, maDMP.dmp)
+    const { dmpId, fullDMPId } = dmpIdFromPath(id, ezidBaseURL);
+    try {
+      const { maDMP, redaction, status, message } = await loadDMPForNarrative(
+        requestLogger,
+        dmpId,
+        fullDMPId,
+        null,
+        token,
+        format
       );
-      requestLogger.debug({ dmpId, jti: token?.jti }, "Generating TXT");
-      res.type("txt").send(txt);
-      return;
+      if (!maDMP) {
+        // Missing DMPs and permission denials are both 404s so that we're not signaling which DMP ids are valid
+        results.push({ dmpId, status: status === 404 || status === 403 ? "denied" : "failed", message });
+        continue;
+      }
 
-    } else {
-      requestLogger.debug({ dmpId, jti: token?.jti }, `Unsupported format requested: ${accept}`);
-      // The format requested is not supported!
-      res.status(406)
-        .send("Not Acceptable: Supported formats are HTML, PDF, CSV, DOCX, TXT");
+      const doc = await renderWithCache(
+        requestLogger,
+        narrativeCache,
+        narrativeCacheKey(fullDMPId, maDMP.dmp.modified, format, options, redaction),
+        () => queueRender(requestLogger, format, options, maDMP.dmp, token)
+      );
+      const file = uniqueFileName(files, dmpId.replace(/\W+/g, "-"), doc.extension);
+      zip.addBuffer(typeof doc.body === "string" ? Buffer.from(doc.body) : doc.body, file);
+      recordDocument(doc.extension);
+      results.push({ dmpId, status: "success", file });
+    } catch (e) {
+      requestLogger.error({ dmpId, jti: token?.jti, err: e }, e.message);
+      const message = e instanceof RenderQueueFullError ? e.message : "Document generation failed";
+      results.push({ dmpId, status: "failed", message });
     }
-
-    // If it ends up here somehow return a 500
-    res.status(500)
-      .send("Unable to process your request at this time.");
-    return;
-  } catch (e) {
-    requestLogger.fatal({ dmpId, jti: token?.jti, err: e }, e.message);
-    res.status(500)
-      .send("Document generation failed");
-    return;
   }
+
+  zip.addBuffer(Buffer.from(JSON.stringify({
+    format,
+    generated: new Date().toISOString(),
+    requestId: getRequestId(res),
+    results,
+  }, null, 2)), "manifest.json");
+  zip.end();
+  requestLogger.debug({ jti: token?.jti, results }, "Generated batch export");
+});
+
+// ----------------- The OpenAPI description of this service  -----------------
+app.get("/narrative/openapi.json", (_: Request, res: Response) => {
+  res.json(buildOpenAPIDocument());
 });
 
 // ----------------- ALB Healthcheck -----------------
 app.get("/narrative-health", (_: Request, res: Response) => res.send("ok"));
 
+// ----------------- Prometheus metrics  -----------------
+app.get("/metrics", async (_: Request, res: Response) => {
+  res.type(metricsRegistry.contentType)
+    .send(await metricsRegistry.metrics());
+});
+
+// ----------------- Readiness check  -----------------
+// Unlike the health check above, this checks each of the services the narratives depend on
+app.get("/narrative-ready", async (_: Request, res: Response) => {
+  const { logLevel, env, domainName } = loadEnvConfig();
+  const requestLogger: Logger = initializeRequestLogger(res, logLevel);
+  const timeoutSeconds = Number(process.env.READINESS_TIMEOUT_SECONDS) || 3;
+
+  const report = await checkReadiness(requestLogger, {
+    ...dataSourceReadinessChecks(requestLogger, env, domainName),
+    browser: () => pingBrowserPool(),
+  }, timeoutSeconds * 1000);
+
+  res.setHeader("Cache-Control", "no-store");
+  res.status(report.status === "up" ? 200 : 503)
+    .json(report);
+});
+
+// ----------------- Errors raised before reaching a route (e.g. an invalid token or malformed JSON)  -----------------
+app.use((err: Error & { status?: number }, _: Request, res: Response, next: express.NextFunction) => {
+  // Let Express close the connection if part of the response has already been sent
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
+  const { logLevel } = loadEnvConfig();
+  const status = err.status ?? 500;
+  initializeRequestLogger(res, logLevel).warn({ status, err }, err.message);
+  sendError(res, status, status < 500 ? err.message : "Internal Server Error");
+});
+
 // ----------------- Startup the server  -----------------
+let httpServer: Server | undefined;
+
 const startServer = async () => {
   const PORT = process.env.PORT || 4030;
-  app.listen(PORT, () => console.log(`${process.env.APPLICATION_NAME} listening on port ${PORT}`));
+  const { logLevel } = loadEnvConfig();
+  const logger: Logger = initializeLogger('narrative-generator', logLevel);
+  startTracing();
+  httpServer = app.listen(PORT, () => logger.info({ port: PORT }, `${process.env.APPLICATION_NAME} listening`));
+
+  // Start the PDF browsers now rather than on the first request (they are launched on demand if this fails)
+  warmBrowserPool()
+    .then(() => logger.info('Started the PDF browser pool'))
+    .catch((error) => logger.error({ err: error }, 'Unable to start the PDF browser pool'));
 }
 
-// Graceful shutdown
-const shutdown = async () => {
+// Graceful shutdown. Stop accepting connections, give the requests and render jobs in progress
+// until the deadline to finish and then close the PDF browsers and the RDS connection pool.
+// A second signal exits right away.
+//
+// DynamoDB connections are opened for each query by `@dmptool/utils` so there are none left
+// to close once the requests have finished.
+let shuttingDown = false;
+const shutdown = async (signal: NodeJS.Signals) => {
+  if (shuttingDown) {
+    process.exit(1);
+  }
+  shuttingDown = true;
+
+  const { logLevel } = loadEnvConfig();
+  const logger: Logger = initializeLogger('narrative-generator', logLevel);
+  const timeoutSeconds = Number(process.env.SHUTDOWN_TIMEOUT_SECONDS) || 25;
+  const deadline = Date.now() + (timeoutSeconds * 1000);
+  logger.info({ signal, timeoutSeconds }, 'Shutting down');
+
   try {
+    const [cutOffRequests] = await Promise.all([
+      httpServer ? serverDrain.close(httpServer, timeoutSeconds * 1000) : [],
+      settledWithin(renderJobs.idle(), timeoutSeconds * 1000),
+    ]);
+    if (cutOffRequests.length > 0) {
+      logger.warn({ requests: cutOffRequests }, 'Requests cut off by the shutdown');
+    }
+    const cutOffJobs = renderJobs.active();
+    if (cutOffJobs.length > 0) {
+      logger.warn({ jobs: cutOffJobs }, 'Render jobs cut off by the shutdown');
+      // So that the callers polling them (on any task) are told they failed
+      await renderJobs.interrupt(logger);
+    }
+
+    // Any PDFs still rendering at this point belong to requests or jobs that were cut off
+    await shutdownBrowserPool(Math.max(deadline - Date.now(), 0));
+    await closeDataSource();
+    await shutdownTracing();
+    logger.info('Shutdown complete');
     process.exit(0);
   } catch (error) {
-    console.log('Error shutting down server:', error);
+    logger.error({ err: error }, 'Error shutting down server');
     process.exit(1);
   }
 };
@@ -375,7 +1368,8 @@ if (!process.listeners('SIGTERM').includes(shutdown)) {
 // only start listening if this file is run directly
 if (require.main === module) {
   startServer().catch((error) => {
-    console.log('Error starting server:', error)
+    const { logLevel } = loadEnvConfig();
+    initializeLogger('narrative-generator', logLevel).error({ err: error }, 'Error starting server');
     process.exit(1);
   });
 }
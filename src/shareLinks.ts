@@ -0,0 +1,163 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { Logger } from "pino";
+import { JWTAccessToken } from "./helper";
+import { RedactionLevel } from "./permissions";
+
+/**
+ * What a share link lets its holder download. The link is signed so none of this can be changed.
+ */
+export interface ShareLink {
+  id: string,
+  // The DMP id (with the protocol and domain)
+  dmpId: string,
+  // The file extensions (see `EXTENSION_TYPES`) that can be downloaded
+  formats: string[],
+  // The version (modified timestamp) that can be downloaded or null for the latest version
+  version: string | null,
+  // The redaction of the user who created the link (see `checkNarrativeAccess`)
+  redaction: RedactionLevel,
+  // When the link expires (seconds since the epoch)
+  expires: number,
+  // The id of the user who created the link
+  createdBy: number,
+}
+
+/**
+ * The parts of the creator's token that are needed to check that they can still access the DMP when
+ * the link is used. They are only recorded by the data source (the signed link can be read by anyone).
+ */
+export type ShareLinkCreator = Pick<JWTAccessToken, "id" | "email" | "role" | "affiliationId">;
+
+/**
+ * A share link as it is recorded by the data source
+ */
+export interface ShareLinkRecord extends ShareLink {
+  revoked: boolean,
+  // Undefined for links recorded before the creator was
+  creator?: ShareLinkCreator,
+}
+
+/**
+ * Records the share links so that they can be revoked
+ */
+export interface ShareLinkStore {
+  save(link: ShareLink, creator: ShareLinkCreator): Promise<void>,
+  // Undefined if the link was never recorded or has expired
+  load(linkId: string): Promise<ShareLinkRecord | undefined>,
+  // Resolves to false if the link was never recorded or has expired
+  revoke(linkId: string): Promise<boolean>,
+}
+
+// The query param that holds the signed share link
+export const SHARE_LINK_PARAM = "share";
+
+/**
+ * The secret used to sign the share links (SHARE_LINK_SECRET or the JWT_SECRET if it is not defined)
+ *
+ * @returns The secret
+ */
+export function getShareLinkSecret(): string {
+  return process.env.SHARE_LINK_SECRET || process.env.JWT_SECRET;
+}
+
+const sign = (payload: string, secret: string): Buffer => createHmac("sha256", secret).update(payload).digest();
+
+/**
+ * Sign the share link. The token is the base64url encoded link followed by its HMAC-SHA256 signature
+ * (e.g. `eyJpZCI6...` + `.` + `3q2-7w...`), so it can be used as is in a query param.
+ *
+ * @param link The share link
+ * @param secret The secret to sign it with
+ * @returns The token
+ */
+export function signShareLink(link: ShareLink, secret: string): string {
+  const payload = Buffer.from(JSON.stringify(link)).toString("base64url");
+  return `${payload}.${sign(payload, secret).toString("base64url")}`;
+}
+
+/**
+ * Verify the token's signature and that the share link has not expired
+ *
+ * @param token The token (see `signShareLink`)
+ * @param secret The secret the token was signed with
+ * @param now Returns the current time in milliseconds (overridden in tests)
+ * @returns The share link or the reason it was rejected
+ */
+export function verifyShareLink(
+  token: string,
+  secret: string,
+  now: () => number = Date.now
+): { link?: ShareLink, error?: "invalid" | "expired" } {
+  const [payload, signature, ...rest] = (token ?? "").split(".");
+  if (!payload || !signature || rest.length > 0) return { error: "invalid" };
+
+  const expected = sign(payload, secret);
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return { error: "invalid" };
+
+  let link: ShareLink;
+  try {
+    link = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    return { error: "invalid" };
+  }
+  if (!link?.id || !link.dmpId || !Array.isArray(link.formats)) {
+    return { error: "invalid" };
+  }
+  if (!(link.expires * 1000 > now())) return { link, error: "expired" };
+  return { link };
+}
+
+/**
+ * Create a share link store that only lives as long as this process. Expired links are dropped
+ * whenever a new link is saved.
+ *
+ * @param now Returns the current time in milliseconds (overridden in tests)
+ * @returns The store
+ */
+export function createMemoryShareLinkStore(now: () => number = Date.now): ShareLinkStore {
+  const links = new Map<string, ShareLinkRecord>();
+  const isExpired = (link: ShareLink) => link.expires * 1000 <= now();
+
+  return {
+    async save(link: ShareLink, creator: ShareLinkCreator): Promise<void> {
+      for (const [id, existing] of links) {
+        if (isExpired(existing)) links.delete(id);
+      }
+      links.set(link.id, { ...link, revoked: false, creator: { ...creator } });
+    },
+
+    async load(linkId: string): Promise<ShareLinkRecord | undefined> {
+      const link = links.get(linkId);
+      return link && !isExpired(link) ? { ...link } : undefined;
+    },
+
+    async revoke(linkId: string): Promise<boolean> {
+      const link = links.get(linkId);
+      if (!link || isExpired(link)) return false;
+      link.revoked = true;
+      return true;
+    },
+  };
+}
+
+/**
+ * Write an audit log line for a share link. Every line has `audit: "shareLink"` so that they
+ * can be found in the logs.
+ *
+ * @param logger The logger to use for logging
+ * @param event What happened to the link
+ * @param link The share link (may be incomplete if it was rejected)
+ * @param details Anything else to include (e.g. the format or the caller's IP address)
+ */
+export function auditShareLink(
+  logger: Logger,
+  event: "created" | "used" | "rejected" | "revoked",
+  link: Partial<ShareLink> | undefined,
+  details: Record<string, unknown> = {}
+): void {
+  logger.info(
+    { audit: "shareLink", event, linkId: link?.id, dmpId: link?.dmpId, createdBy: link?.createdBy, ...details },
+    `Share link ${event}`
+  );
+}
@@ -0,0 +1,88 @@
+import { NextFunction, Request, Response } from "express";
+import { Server } from "http";
+
+/**
+ * A request that was in progress when the server was closed
+ */
+export interface InFlightRequest {
+  method: string,
+  url: string,
+  started: string,
+}
+
+/**
+ * Keeps track of the requests in progress so that the server can be closed without losing them
+ */
+export interface ServerDrain {
+  // Express middleware that records each request until its response has been sent
+  track(req: Request, res: Response, next: NextFunction): void,
+  // Stop accepting connections and wait (up to the timeout) for the requests in progress.
+  // Returns the requests that were cut off.
+  close(server: Server, timeoutMs: number): Promise<InFlightRequest[]>,
+}
+
+/**
+ * Wait for the promise to settle, giving up once the timeout has passed
+ *
+ * @param promise The promise to wait for
+ * @param timeoutMs How long to wait
+ * @returns true if the promise settled before the timeout
+ */
+export async function settledWithin(promise: Promise<unknown>, timeoutMs: number): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), Math.max(timeoutMs, 0));
+  });
+
+  try {
+    return await Promise.race([promise.then(() => true, () => true), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Create a server drain
+ *
+ * @returns The server drain
+ */
+export function createServerDrain(): ServerDrain {
+  const inFlight = new Set<InFlightRequest>();
+  // Set once the server is closing
+  let onRequestDone: (() => void) | undefined;
+
+  return {
+    track(req: Request, res: Response, next: NextFunction): void {
+      const request: InFlightRequest = {
+        method: req.method,
+        // The query string is left out because it can hold secrets (e.g. a share link)
+        url: req.originalUrl.split("?")[0],
+        started: new Date().toISOString(),
+      };
+      inFlight.add(request);
+      res.on("close", () => {
+        inFlight.delete(request);
+        onRequestDone?.();
+      });
+      next();
+    },
+
+    async close(server: Server, timeoutMs: number): Promise<InFlightRequest[]> {
+      const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+
+      // Keep-alive connections would otherwise stay open (and keep the server from closing)
+      // until they time out, so they are closed as soon as their current request is done
+      onRequestDone = () => setImmediate(() => server.closeIdleConnections());
+      server.closeIdleConnections();
+
+      const drained = await settledWithin(closed, timeoutMs);
+      onRequestDone = undefined;
+      if (drained) return [];
+
+      const cutOff = [...inFlight];
+      server.closeAllConnections();
+      await closed;
+      return cutOff;
+    },
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Coalesces concurrent calls for the same key
+ */
+export interface SingleFlight<T> {
+  // Run the work unless it is already running for the key, in which case its result is shared
+  run(key: string, work: () => Promise<T>): Promise<T>,
+  // The number of keys with work in progress
+  inFlight(): number,
+}
+
+/**
+ * Create a single flight group. While the work for a key is in progress, every other call for
+ * that key waits for (and shares) its result instead of starting the work again. The key is
+ * forgotten as soon as the work finishes, so the next call after that starts the work over.
+ *
+ * If the work fails, every caller waiting on it receives the same error.
+ *
+ * @returns The single flight group
+ */
+export function createSingleFlight<T>(): SingleFlight<T> {
+  const calls = new Map<string, Promise<T>>();
+
+  return {
+    run(key: string, work: () => Promise<T>): Promise<T> {
+      const existing = calls.get(key);
+      if (existing) return existing;
+
+      const call = (async () => {
+        try {
+          return await work();
+        } finally {
+          calls.delete(key);
+        }
+      })();
+      calls.set(key, call);
+      return call;
+    },
+
+    inFlight(): number {
+      return calls.size;
+    },
+  };
+}
@@ -0,0 +1,154 @@
+import {
+  Attributes,
+  context,
+  propagation,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  trace
+} from "@opentelemetry/api";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+  SpanProcessor
+} from "@opentelemetry/sdk-trace-node";
+import {
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_HTTP_ROUTE,
+  ATTR_SERVICE_NAME,
+  ATTR_URL_PATH
+} from "@opentelemetry/semantic-conventions";
+import { NextFunction, Request, Response } from "express";
+import { Logger } from "pino";
+
+// Spans are only recorded once `startTracing` has registered a provider. Until then (and
+// in the tests) the OpenTelemetry API does nothing.
+const tracer = trace.getTracer("narrative-generator");
+
+let provider: NodeTracerProvider | undefined;
+
+/**
+ * Start recording spans based on the env variables:
+ *   - OTEL_TRACES_EXPORTER: `otlp`, `console` or `none` (the default)
+ *   - OTEL_EXPORTER_OTLP_ENDPOINT: The collector to send the spans to when using `otlp` (read by the exporter)
+ *   - OTEL_SERVICE_NAME: The name of the service (defaults to the APPLICATION_NAME)
+ *
+ * The W3C `traceparent` header of incoming requests is used as the parent of their spans.
+ */
+export function startTracing(): void {
+  const exporter = (process.env.OTEL_TRACES_EXPORTER || "none").toLowerCase();
+  let spanProcessor: SpanProcessor;
+  switch (exporter) {
+    case "otlp":
+      spanProcessor = new BatchSpanProcessor(new OTLPTraceExporter());
+      break;
+    case "console":
+      spanProcessor = new SimpleSpanProcessor(new ConsoleSpanExporter());
+      break;
+    default:
+      return;
+  }
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: process.env.OTEL_SERVICE_NAME || process.env.APPLICATION_NAME || "narrative-generator",
+    }),
+    spanProcessors: [spanProcessor],
+  });
+  // Also registers the W3C trace context propagator and the async context manager
+  provider.register();
+}
+
+/**
+ * Send any spans that have not been exported yet and stop recording spans
+ */
+export async function shutdownTracing(): Promise<void> {
+  await provider?.shutdown();
+  provider = undefined;
+}
+
+/**
+ * Run the function in a new span (a child of the active span). The span records any error thrown.
+ *
+ * @param name The name of the span
+ * @param attributes The attributes to add to the span
+ * @param fn The function to run
+ * @returns The result of the function
+ */
+export async function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => T | Promise<T>
+): Promise<T> {
+  return tracer.startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      return await fn(span);
+    } catch (e) {
+      span.recordException(e);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: e?.message });
+      throw e;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Add attributes to the active span (if there is one)
+ *
+ * @param attributes The attributes to add
+ */
+export function setSpanAttributes(attributes: Attributes): void {
+  trace.getActiveSpan()?.setAttributes(attributes);
+}
+
+/**
+ * Add the ids of the active span to the logger so that the log lines can be matched to the trace
+ *
+ * @param logger The logger
+ * @returns A child logger with the trace and span ids (or the logger if there is no active span)
+ */
+export function withTraceContext(logger: Logger): Logger {
+  const span = trace.getActiveSpan();
+  if (!span || !span.isRecording()) return logger;
+
+  const { traceId, spanId } = span.spanContext();
+  return logger.child({ trace_id: traceId, span_id: spanId });
+}
+
+/**
+ * Express middleware that runs each request in a server span. The span continues the trace
+ * from the W3C `traceparent` header if the caller sent one.
+ *
+ * @param req The request
+ * @param res The response
+ * @param next The next middleware
+ */
+export function traceRequest(req: Request, res: Response, next: NextFunction): void {
+  const parent = propagation.extract(context.active(), req.headers);
+  const span = tracer.startSpan(req.method, {
+    kind: SpanKind.SERVER,
+    attributes: { [ATTR_HTTP_REQUEST_METHOD]: req.method, [ATTR_URL_PATH]: req.path },
+  }, parent);
+
+  res.on("close", () => {
+    // The route pattern is only known once the request has been routed
+    if (req.route?.path) {
+      const route = `${req.baseUrl}${req.route.path}`;
+      span.updateName(`${req.method} ${route}`);
+      span.setAttribute(ATTR_HTTP_ROUTE, route);
+    }
+    span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, res.statusCode);
+    if (res.statusCode >= 500 || !res.writableFinished) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    span.end();
+  });
+
+  context.with(trace.setSpan(parent, span), next);
+}
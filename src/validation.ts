@@ -0,0 +1,41 @@
+import { Validator } from "jsonschema";
+import { DMPToolExtensionSchema, RDACommonStandardDMPJSONSchema } from "@dmptool/types";
+
+const validator = new Validator();
+
+/**
+ * Format the path of a DMP Tool extension error the same way jsonschema does (e.g. `instance.dmp.narrative.template.section[0].id`)
+ *
+ * @param path The path to the invalid property within the `dmp`
+ * @returns The formatted path
+ */
+function formatPath(path: PropertyKey[]): string {
+  return path.reduce<string>(
+    (prefix, key) => typeof key === "number" ? `${prefix}[${key}]` : `${prefix}.${String(key)}`,
+    "instance.dmp"
+  );
+}
+
+/**
+ * Validate a maDMP record against the RDA Common Standard JSON schema and the DMP Tool extension schema
+ *
+ * @param json The maDMP record to validate (e.g. the body of a request)
+ * @returns A list of validation errors (empty if the record is valid)
+ */
+export function validateMaDMP(json: unknown): string[] {
+  if (!json || typeof json !== "object" || Array.isArray(json)) {
+    return ["The maDMP must be a JSON object"];
+  }
+
+  const errors = validator.validate(json, RDACommonStandardDMPJSONSchema).errors.map((err) => err.stack);
+
+  // The DMP Tool extension properties live alongside the RDA Common Standard ones within the `dmp`
+  const dmp = (json as { dmp?: unknown }).dmp;
+  if (dmp && typeof dmp === "object" && !Array.isArray(dmp)) {
+    const result = DMPToolExtensionSchema.safeParse(dmp);
+    if (!result.success) {
+      errors.push(...result.error.issues.map((issue) => `${formatPath(issue.path)} ${issue.message}`));
+    }
+  }
+  return errors;
+}